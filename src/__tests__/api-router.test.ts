@@ -0,0 +1,158 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createApiRouter } from '../services/api-router';
+import { RaceControl } from '../services/race-control';
+import { SessionStateStore } from '../services/session-state';
+
+jest.mock('../utils/logger');
+
+describe('API router', () => {
+  let sessionState: SessionStateStore;
+  let raceControl: RaceControl;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    sessionState = new SessionStateStore();
+    raceControl = new RaceControl();
+    sessionState.applySnapshot('SessionInfo', {
+      Key: 9558,
+      Name: 'Race',
+      Type: 'Race',
+      Meeting: {
+        Name: 'British Grand Prix',
+        Circuit: { ShortName: 'Silverstone' },
+      },
+    });
+    sessionState.applySnapshot('DriverList', {
+      '1': {
+        Tla: 'VER',
+        FullName: 'Max VERSTAPPEN',
+        TeamName: 'Red Bull Racing',
+        Line: 1,
+      },
+      '44': {
+        Tla: 'HAM',
+        FullName: 'Lewis HAMILTON',
+        TeamName: 'Mercedes',
+        Line: 2,
+      },
+    });
+    sessionState.applySnapshot('TimingData', {
+      Lines: { '1': { Position: '2' }, '44': { Position: '1' } },
+    });
+    sessionState.applySnapshot('RaceControlMessages', {
+      Messages: [
+        {
+          Utc: '2024-07-07T14:03:00',
+          Lap: 1,
+          Category: 'Flag',
+          Flag: 'GREEN',
+          Message: 'GREEN LIGHT - PIT EXIT OPEN',
+        },
+        {
+          Utc: '2024-07-07T14:20:00',
+          Lap: 9,
+          Category: 'Other',
+          Message:
+            'CAR 44 (HAM) TIME 1:29.123 DELETED - TRACK LIMITS AT TURN 9',
+        },
+      ],
+    });
+
+    const app = express();
+    app.use(
+      '/api',
+      createApiRouter({
+        sessionState,
+        leaderboard: null,
+        lapHistory: null,
+        raceControl,
+        statusTracker: null,
+        stintTracker: null,
+      })
+    );
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should serve the session from the stream state', async () => {
+    const response = await fetch(`${baseUrl}/session`);
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      key: 9558,
+      name: 'Race',
+      meeting: 'British Grand Prix',
+      circuit: 'Silverstone',
+      phase: null,
+    });
+  });
+
+  it('should list drivers by position and serve a single driver', async () => {
+    const drivers = (await (await fetch(`${baseUrl}/drivers`)).json()) as {
+      tla: string;
+    }[];
+    expect(drivers.map((driver) => driver.tla)).toEqual(['HAM', 'VER']);
+
+    const response = await fetch(`${baseUrl}/drivers/44`);
+    await expect(response.json()).resolves.toMatchObject({
+      driverNumber: '44',
+      team: 'Mercedes',
+      position: 1,
+      timing: { Position: '1' },
+      leaderboard: null,
+      penalties: [],
+    });
+
+    expect((await fetch(`${baseUrl}/drivers/99`)).status).toBe(404);
+  });
+
+  it('should answer 304 while the data is unchanged', async () => {
+    const first = await fetch(`${baseUrl}/drivers`);
+    const etag = first.headers.get('etag') ?? '';
+    expect(etag).toMatch(/^".+"$/);
+
+    const cached = await fetch(`${baseUrl}/drivers`, {
+      headers: { 'If-None-Match': etag },
+    });
+    expect(cached.status).toBe(304);
+
+    sessionState.applyDelta('TimingData', {
+      Lines: { '1': { Position: '1' }, '44': { Position: '2' } },
+    });
+    const changed = await fetch(`${baseUrl}/drivers`, {
+      headers: { 'If-None-Match': etag },
+    });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get('etag')).not.toBe(etag);
+  });
+
+  it('should filter race control messages by time', async () => {
+    const response = await fetch(
+      `${baseUrl}/racecontrol?since=2024-07-07T14:10:00Z`
+    );
+
+    await expect(response.json()).resolves.toEqual([
+      expect.objectContaining({
+        kind: 'track_limits',
+        driverNumber: '44',
+        lap: 9,
+      }),
+    ]);
+    expect((await fetch(`${baseUrl}/racecontrol?since=soon`)).status).toBe(400);
+  });
+
+  it('should report streams and analyzers without data', async () => {
+    expect((await fetch(`${baseUrl}/weather`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/trackstatus`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/leaderboard`)).status).toBe(404);
+  });
+});
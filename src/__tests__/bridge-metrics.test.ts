@@ -0,0 +1,199 @@
+import { EventEmitter } from 'events';
+import { BridgeMetrics } from '../services/bridge-metrics';
+import { EventProcessor } from '../services/event-processor';
+import { MqttPublisher } from '../services/mqtt-publisher';
+import { SessionStateStore } from '../services/session-state';
+import { SignalRClient } from '../services/signalr-client';
+import { F1Event } from '../types';
+import { Histogram } from '../utils/metrics';
+
+jest.mock('../utils/logger');
+
+class FakeSignalRClient extends EventEmitter {
+  sessionState = new SessionStateStore();
+  replay: object | null = null;
+
+  getSessionState(): SessionStateStore {
+    return this.sessionState;
+  }
+
+  getReplay(): object | null {
+    return this.replay;
+  }
+
+  isRecordingSession(): boolean {
+    return false;
+  }
+
+  getCurrentRecordingFilename(): string | null {
+    return null;
+  }
+}
+
+class FakePublisher extends EventEmitter {
+  connected = true;
+
+  getConnectionStatus(): boolean {
+    return this.connected;
+  }
+
+  getTopicPrefix(): string {
+    return 'f1';
+  }
+}
+
+describe('BridgeMetrics', () => {
+  let signalRClient: FakeSignalRClient;
+  let eventProcessor: EventEmitter;
+  let primary: FakePublisher;
+  let metrics: BridgeMetrics;
+
+  const publishEvent = (utc: string): void => {
+    const event: F1Event = {
+      eventType: 'trackstatus',
+      streamName: 'TrackStatus',
+      timestamp: new Date().toISOString(),
+      data: {},
+      utc,
+    };
+    eventProcessor.emit('event-published', event);
+  };
+
+  beforeEach(() => {
+    signalRClient = new FakeSignalRClient();
+    eventProcessor = new EventEmitter();
+    primary = new FakePublisher();
+    metrics = new BridgeMetrics(
+      signalRClient as unknown as SignalRClient,
+      eventProcessor as unknown as EventProcessor,
+      [
+        { name: 'primary', publisher: primary as unknown as MqttPublisher },
+        {
+          name: 'cloud',
+          publisher: new FakePublisher() as unknown as MqttPublisher,
+        },
+      ]
+    );
+  });
+
+  it('should count SignalR messages and bytes per stream', () => {
+    signalRClient.emit('stream-message', 'TimingData', 120);
+    signalRClient.emit('stream-message', 'TimingData', 80);
+    signalRClient.emit('stream-message', 'CarData.z', 900);
+    signalRClient.emit('parse-error', null);
+
+    const output = metrics.render();
+    expect(output).toContain(
+      'f1_mqtt_signalr_messages_total{stream="TimingData"} 2'
+    );
+    expect(output).toContain(
+      'f1_mqtt_signalr_bytes_total{stream="TimingData"} 200'
+    );
+    expect(output).toContain(
+      'f1_mqtt_signalr_parse_errors_total{stream="unknown"} 1'
+    );
+    expect(output).toMatch(
+      /f1_mqtt_signalr_last_message_timestamp_seconds\{stream="CarData.z"\} \d+/
+    );
+  });
+
+  it('should count publishes, failures and reconnects per broker', () => {
+    primary.emit('published', 'f1/trackstatus');
+    primary.emit('published', 'f1/trackstatus');
+    primary.emit('publish-failed', 'f1/weatherdata');
+    primary.emit('reconnecting');
+
+    expect(
+      metrics.published.get({ broker: 'primary', topic: 'f1/trackstatus' })
+    ).toBe(2);
+    expect(
+      metrics.publishErrors.get({ broker: 'primary', topic: 'f1/weatherdata' })
+    ).toBe(1);
+    expect(metrics.reconnects.get({ broker: 'primary' })).toBe(1);
+    expect(metrics.reconnects.get({ broker: 'cloud' })).toBe(0);
+  });
+
+  it('should label publishes by topic pattern', () => {
+    primary.emit('published', 'f1/drivers/44/laps/12');
+    primary.emit('published', 'f1/drivers/1/laps/3');
+    primary.emit('published', 'f1/drivers/1/laps/stats');
+    primary.emit('published', 'client/replies/9f2c');
+    primary.emit('publish-failed', 'f1/homeassistant/drivers/16');
+
+    expect(
+      metrics.published.get({ broker: 'primary', topic: 'f1/drivers/+/laps/+' })
+    ).toBe(2);
+    expect(
+      metrics.published.get({
+        broker: 'primary',
+        topic: 'f1/drivers/+/laps/stats',
+      })
+    ).toBe(1);
+    // Command response topics are chosen by the requesting client
+    expect(metrics.published.get({ broker: 'primary', topic: 'other' })).toBe(
+      1
+    );
+    expect(
+      metrics.publishErrors.get({
+        broker: 'primary',
+        topic: 'f1/homeassistant/drivers/+',
+      })
+    ).toBe(1);
+  });
+
+  it('should observe the latency from the F1 timestamp', () => {
+    publishEvent(new Date(Date.now() - 300).toISOString());
+    // Queued while offline and replayed events are not measured
+    primary.connected = false;
+    publishEvent(new Date().toISOString());
+    primary.connected = true;
+    signalRClient.replay = {};
+    publishEvent('2024-07-07T14:03:00.000Z');
+
+    expect(metrics.latency.getCount({ stream: 'TrackStatus' })).toBe(1);
+    const output = metrics.render();
+    expect(output).toContain(
+      'f1_mqtt_event_latency_seconds_bucket{stream="TrackStatus",le="0.25"} 0'
+    );
+    expect(output).toContain(
+      'f1_mqtt_event_latency_seconds_bucket{stream="TrackStatus",le="+Inf"} 1'
+    );
+  });
+
+  it('should read session gauges from the stream state', () => {
+    expect(metrics.render()).not.toMatch(/^f1_mqtt_session_lap /m);
+
+    signalRClient.sessionState.applySnapshot('LapCount', {
+      CurrentLap: 12,
+      TotalLaps: 52,
+    });
+    signalRClient.sessionState.applySnapshot('TrackStatus', {
+      Status: '4',
+      Message: 'SCDeployed',
+    });
+
+    const output = metrics.render();
+    expect(output).toMatch(/^f1_mqtt_session_lap 12$/m);
+    expect(output).toMatch(/^f1_mqtt_track_status 4$/m);
+    expect(output).toMatch(/^f1_mqtt_recording_size_bytes 0$/m);
+  });
+});
+
+describe('Histogram', () => {
+  it('should render cumulative buckets', () => {
+    const histogram = new Histogram('test_seconds', 'Test', [1, 0.5]);
+    histogram.observe({}, 0.2);
+    histogram.observe({}, 0.7);
+    histogram.observe({}, 3);
+
+    expect(histogram.render().split('\n')).toEqual([
+      '# HELP test_seconds Test',
+      '# TYPE test_seconds histogram',
+      'test_seconds_bucket{le="0.5"} 1',
+      'test_seconds_bucket{le="1"} 2',
+      'test_seconds_bucket{le="+Inf"} 3',
+      'test_seconds_sum 3.9',
+      'test_seconds_count 3',
+    ]);
+  });
+});
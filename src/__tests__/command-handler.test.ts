@@ -0,0 +1,244 @@
+import { F1_STREAM_SETS } from '../config/streams';
+import { CommandHandler } from '../services/command-handler';
+import { EventProcessor } from '../services/event-processor';
+import { MqttPublisher } from '../services/mqtt-publisher';
+import { SessionReplay } from '../services/session-replay';
+import { SignalRClient } from '../services/signalr-client';
+import { MqttCommand, MqttCommandResult, MqttConfig } from '../types';
+
+jest.mock('../services/signalr-client');
+jest.mock('../services/event-processor');
+jest.mock('../services/mqtt-publisher');
+jest.mock('../utils/logger');
+
+const { MqttPublisher: RealMqttPublisher } = jest.requireActual<
+  typeof import('../services/mqtt-publisher')
+>('../services/mqtt-publisher');
+
+const METADATA = {
+  sessionId: 'race-2024-07-07',
+  startTime: '2024-07-07T14:00:00.000Z',
+};
+
+describe('CommandHandler', () => {
+  let signalRClient: jest.Mocked<SignalRClient>;
+  let eventProcessor: jest.Mocked<EventProcessor>;
+  let mqttPublisher: jest.Mocked<MqttPublisher>;
+  let handler: CommandHandler;
+
+  const run = async (
+    name: string,
+    payload = ''
+  ): Promise<MqttCommandResult | undefined> => {
+    mqttPublisher.publishCommandResult.mockClear();
+    await handler.handleCommand({ name, payload });
+    return mqttPublisher.publishCommandResult.mock.calls[0]?.[1];
+  };
+
+  beforeEach(() => {
+    signalRClient = new SignalRClient(
+      {} as never
+    ) as jest.Mocked<SignalRClient>;
+    eventProcessor = new EventProcessor(
+      signalRClient,
+      {} as never
+    ) as jest.Mocked<EventProcessor>;
+    mqttPublisher = new MqttPublisher(
+      {} as never
+    ) as jest.Mocked<MqttPublisher>;
+    mqttPublisher.publishCommandResult.mockResolvedValue();
+    signalRClient.getCurrentStreamSet.mockReturnValue(['TimingData']);
+    handler = new CommandHandler(signalRClient, eventProcessor, mqttPublisher);
+  });
+
+  it('should change the stream set and resubscribe', async () => {
+    signalRClient.isConnected.mockReturnValue(true);
+
+    await expect(run('streamset', 'BASIC')).resolves.toMatchObject({
+      command: 'streamset',
+      success: true,
+      data: { streams: ['TimingData'] },
+    });
+    expect(signalRClient.setStreamSet).toHaveBeenCalledWith([
+      ...F1_STREAM_SETS.BASIC,
+    ]);
+
+    await run('streamset', 'essential');
+    expect(signalRClient.setStreamSet).toHaveBeenLastCalledWith([
+      ...F1_STREAM_SETS.ESSENTIAL,
+    ]);
+
+    await run('streamset', 'TimingData, TrackStatus');
+    expect(signalRClient.setStreamSet).toHaveBeenLastCalledWith([
+      'TimingData',
+      'TrackStatus',
+    ]);
+    expect(signalRClient.resubscribe).toHaveBeenCalledTimes(3);
+
+    await expect(
+      run('streamset', '["TrackStatus", "Telemetry"]')
+    ).resolves.toMatchObject({
+      success: false,
+      message: expect.stringContaining('unknown streams Telemetry'),
+    });
+    await expect(run('streamset', 'toString')).resolves.toMatchObject({
+      success: false,
+      message: expect.stringContaining('Invalid SIGNALR_STREAM_SET "toString"'),
+    });
+    expect(signalRClient.setStreamSet).toHaveBeenCalledTimes(3);
+    await expect(run('streamset')).resolves.toMatchObject({ success: false });
+  });
+
+  it('should start and stop recordings', async () => {
+    signalRClient.getCurrentSessionMetadata.mockReturnValue(METADATA as never);
+    await expect(
+      run('recording/start', '{"sessionType": "Race"}')
+    ).resolves.toMatchObject({ success: true, data: METADATA });
+    expect(signalRClient.startSessionRecording).toHaveBeenCalledWith({
+      sessionType: 'Race',
+    });
+
+    signalRClient.getCurrentSessionMetadata.mockReturnValue(null);
+    await expect(run('recording/start')).resolves.toMatchObject({
+      success: false,
+      message: 'Session recording is disabled',
+    });
+
+    signalRClient.stopSessionRecording.mockReturnValue({
+      metadata: METADATA,
+    } as never);
+    await expect(run('recording/stop')).resolves.toMatchObject({
+      success: true,
+      data: METADATA,
+    });
+
+    signalRClient.stopSessionRecording.mockReturnValue(null);
+    await expect(run('recording/stop')).resolves.toMatchObject({
+      success: false,
+      message: 'No active recording to stop',
+    });
+  });
+
+  it('should republish the state and reconnect', async () => {
+    eventProcessor.republishState.mockReturnValue(7);
+    await expect(run('republish')).resolves.toMatchObject({
+      success: true,
+      data: { streamCount: 7 },
+    });
+
+    signalRClient.reconnect.mockResolvedValue();
+    await expect(run('reconnect')).resolves.toMatchObject({ success: true });
+
+    signalRClient.reconnect.mockRejectedValue(new Error('Negotiate failed'));
+    await expect(run('reconnect')).resolves.toMatchObject({
+      success: false,
+      message: 'Negotiate failed',
+    });
+  });
+
+  it('should control the session replay', async () => {
+    await expect(run('replay/pause')).resolves.toMatchObject({
+      success: false,
+      message: 'No session replay active',
+    });
+
+    const replay = {
+      pause: jest.fn(),
+      resume: jest.fn(),
+      seek: jest.fn(),
+      setSpeed: jest.fn(),
+      getStatus: jest.fn().mockReturnValue({ state: 'playing', speed: 4 }),
+    };
+    signalRClient.getReplay.mockReturnValue(replay as unknown as SessionReplay);
+
+    await run('replay/pause');
+    await run('replay/resume');
+    await expect(run('replay/seek', '60000')).resolves.toMatchObject({
+      success: true,
+      data: { state: 'playing', speed: 4 },
+    });
+    await run('replay/speed', '4');
+    await expect(run('replay/seek', 'soon')).resolves.toMatchObject({
+      success: false,
+    });
+
+    expect(replay.pause).toHaveBeenCalled();
+    expect(replay.resume).toHaveBeenCalled();
+    expect(replay.seek).toHaveBeenCalledWith(60000);
+    expect(replay.setSpeed).toHaveBeenCalledWith(4);
+  });
+
+  it('should report unknown commands', async () => {
+    await expect(run('shutdown')).resolves.toMatchObject({
+      command: 'shutdown',
+      success: false,
+      message: 'Unknown command: shutdown',
+    });
+  });
+});
+
+describe('MqttPublisher command results', () => {
+  const result: MqttCommandResult = {
+    command: 'republish',
+    success: true,
+    message: 'Session state republished',
+    timestamp: '2024-07-07T14:00:00.000Z',
+  };
+  let publishers: MqttPublisher[] = [];
+
+  const createPublisher = (config: Partial<MqttConfig>): MqttPublisher => {
+    const publisher = new RealMqttPublisher({
+      brokerUrl: 'mqtt://localhost:1883',
+      clientId: 'test',
+      topicPrefix: 'f1',
+      offlineQueue: { enabled: false },
+      ...config,
+    } as MqttConfig);
+    publishers.push(publisher);
+    return publisher;
+  };
+
+  afterEach(async () => {
+    await Promise.all(publishers.map((publisher) => publisher.disconnect()));
+    publishers = [];
+  });
+
+  it('should answer on the MQTT 5 response topic with correlation data', async () => {
+    const publisher = createPublisher({ protocolVersion: 5 });
+    const publish = jest.spyOn(publisher, 'publish').mockResolvedValue();
+    const command: MqttCommand = {
+      name: 'republish',
+      payload: '',
+      responseTopic: 'clients/dashboard/reply',
+      correlationData: Buffer.from('42'),
+    };
+
+    await publisher.publishCommandResult(command, result);
+
+    expect(publish).toHaveBeenCalledWith({
+      topic: 'clients/dashboard/reply',
+      payload: JSON.stringify(result),
+      qos: 1,
+      retain: false,
+      correlationData: Buffer.from('42'),
+    });
+  });
+
+  it('should fall back to cmd/result without a response topic', async () => {
+    // MQTT 3.1.1 has no response topics, the property is ignored there
+    const publisher = createPublisher({ protocolVersion: 4 });
+    const publish = jest.spyOn(publisher, 'publish').mockResolvedValue();
+
+    await publisher.publishCommandResult(
+      { name: 'republish', payload: '', responseTopic: 'clients/reply' },
+      result
+    );
+
+    expect(publish).toHaveBeenCalledWith({
+      topic: 'f1/cmd/result',
+      payload: JSON.stringify(result),
+      qos: 1,
+      retain: false,
+    });
+  });
+});
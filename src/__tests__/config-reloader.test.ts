@@ -0,0 +1,125 @@
+import { buildConfig, ConfigError } from '../config';
+import {
+  ConfigReloader,
+  diffConfig,
+  ReloadTargets,
+} from '../services/config-reloader';
+import { AppConfig } from '../types';
+
+describe('diffConfig', () => {
+  it('should separate reloadable settings from restart-only settings', () => {
+    const current = buildConfig({});
+    const next = buildConfig({
+      LOG_LEVEL: 'debug',
+      MQTT_RETAINED_TOPICS: 'trackstatus',
+      MQTT_BROKER_URL: 'mqtt://broker:1883',
+      PORT: '8080',
+      MQTT_OFFLINE_QUEUE_MAX_SIZE: '50',
+    });
+
+    expect(diffConfig(current, next)).toEqual({
+      applied: ['mqtt.retainedTopics', 'logging.level'],
+      restartRequired: [
+        'mqtt.brokerUrl',
+        'mqtt.offlineQueue.maxSize',
+        'server.port',
+      ],
+    });
+  });
+
+  it('should keep the generated client ids across loads', () => {
+    const file = {
+      mqtt: {
+        brokers: [{ name: 'cloud', brokerUrl: 'mqtts://cloud.example.com' }],
+      },
+    };
+
+    expect(diffConfig(buildConfig({}, file), buildConfig({}, file))).toEqual({
+      applied: [],
+      restartRequired: [],
+    });
+  });
+});
+
+describe('ConfigReloader', () => {
+  let config: AppConfig;
+  let targets: jest.Mocked<ReloadTargets>;
+  let env: NodeJS.ProcessEnv;
+  let reloader: ConfigReloader;
+
+  beforeEach(() => {
+    env = {};
+    config = buildConfig(env);
+    targets = {
+      setRetainedTopics: jest.fn(),
+      setLogLevel: jest.fn(),
+      setStreams: jest.fn().mockResolvedValue(undefined),
+      setRecordingMode: jest.fn(),
+    };
+    reloader = new ConfigReloader(config, targets, {
+      load: (): AppConfig => buildConfig(env),
+      reloadSignal: null,
+    });
+  });
+
+  it('should apply runtime-safe changes to the services and the config', async () => {
+    env = {
+      SIGNALR_STREAM_SET: 'BASIC',
+      SESSION_RECORDING_MODE: 'raw',
+      LOG_LEVEL: 'warn',
+    };
+
+    const changes = await reloader.reload();
+
+    expect(changes?.applied).toEqual([
+      'signalR.streams',
+      'logging.level',
+      'sessionRecording.mode',
+    ]);
+    expect(targets.setStreams).toHaveBeenCalledWith(
+      expect.arrayContaining(['TrackStatus', 'SessionStatus'])
+    );
+    expect(targets.setLogLevel).toHaveBeenCalledWith('warn');
+    expect(targets.setRecordingMode).toHaveBeenCalledWith('raw');
+    expect(config.logging.level).toBe('warn');
+    expect(targets.setRetainedTopics).not.toHaveBeenCalled();
+  });
+
+  it('should leave settings that need a restart unchanged', async () => {
+    env = { MQTT_BROKER_URL: 'mqtt://other:1883' };
+
+    const changes = await reloader.reload();
+
+    expect(changes?.restartRequired).toEqual(['mqtt.brokerUrl']);
+    expect(config.mqtt.brokerUrl).toBe('mqtt://localhost:1883');
+  });
+
+  it('should keep the current settings when the new config is invalid', async () => {
+    env = { LOG_LEVEL: 'debug', PORT: 'abc' };
+    const errors: unknown[] = [];
+    reloader.on('reload-error', (error) => errors.push(error));
+
+    expect(await reloader.reload()).toBeNull();
+    expect(errors[0]).toBeInstanceOf(ConfigError);
+    expect(config.logging.level).toBe('info');
+    expect(targets.setLogLevel).not.toHaveBeenCalled();
+  });
+
+  it('should reload on the reload signal', async () => {
+    reloader = new ConfigReloader(config, targets, {
+      load: (): AppConfig => buildConfig({ LOG_LEVEL: 'error' }),
+      reloadSignal: 'SIGHUP',
+    });
+    const reloaded = new Promise((resolve) =>
+      reloader.once('reloaded', resolve)
+    );
+
+    reloader.start();
+    process.emit('SIGHUP', 'SIGHUP');
+    await reloaded;
+    reloader.stop();
+
+    expect(targets.setLogLevel).toHaveBeenCalledWith('error');
+    expect(process.listenerCount('SIGHUP')).toBe(0);
+  });
+});
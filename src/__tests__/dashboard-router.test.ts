@@ -0,0 +1,45 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { createDashboardRouter } from '../services/dashboard-router';
+import { DASHBOARD_SCRIPT } from '../services/dashboard-page';
+
+describe('Dashboard router', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use('/ui', createDashboardRouter());
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ui`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should serve the page without external assets', async () => {
+    const response = await fetch(baseUrl);
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toMatch(/^text\/html/);
+    expect(html).toContain('<script>');
+    expect(html).not.toMatch(/(src|href)="(https?:)?\/\//);
+  });
+
+  it('should only allow the inline script by hash', async () => {
+    const response = await fetch(`${baseUrl}/`);
+    const policy = response.headers.get('content-security-policy') ?? '';
+    const hash = createHash('sha256').update(DASHBOARD_SCRIPT).digest('base64');
+
+    expect(policy).toContain(`script-src 'sha256-${hash}'`);
+    expect(policy).toContain("connect-src 'self'");
+    // The escapes in the template literal must still produce valid JavaScript
+    expect(() => new Function(DASHBOARD_SCRIPT)).not.toThrow();
+  });
+});
@@ -0,0 +1,109 @@
+import { splitEventByDriver } from '../services/driver-topics';
+import { F1Event } from '../types';
+
+const event = (
+  streamName: string,
+  data: Record<string, unknown>,
+  state?: Record<string, unknown>
+): F1Event => ({
+  eventType: streamName.toLowerCase(),
+  timestamp: '2024-07-07T14:00:00.000Z',
+  data,
+  streamName,
+  ...(state && { state }),
+});
+
+describe('splitEventByDriver', () => {
+  const timingDelta = {
+    Lines: { '44': { GapToLeader: '+1.2' }, '1': { NumberOfLaps: 12 } },
+  };
+  const timingState = {
+    Lines: {
+      '44': { Position: '2', GapToLeader: '+1.2' },
+      '1': { Position: '1', NumberOfLaps: 12 },
+      '16': { Position: '3' },
+    },
+  };
+
+  it('should publish the changed fields of each driver in delta mode', () => {
+    const messages = splitEventByDriver(
+      event('TimingData', timingDelta, timingState)
+    );
+
+    expect(messages).toEqual([
+      {
+        driverNumber: '1',
+        topic: 'drivers/1/timing',
+        data: { NumberOfLaps: 12 },
+      },
+      {
+        driverNumber: '44',
+        topic: 'drivers/44/timing',
+        data: { GapToLeader: '+1.2' },
+      },
+    ]);
+  });
+
+  it('should publish the merged entry of changed drivers in state mode', () => {
+    const messages = splitEventByDriver(
+      event('TimingData', timingDelta, timingState),
+      true
+    );
+
+    // Driver 16 did not change and is not published
+    expect(messages).toEqual([
+      {
+        driverNumber: '1',
+        topic: 'drivers/1/timing',
+        data: { Position: '1', NumberOfLaps: 12 },
+      },
+      {
+        driverNumber: '44',
+        topic: 'drivers/44/timing',
+        data: { Position: '2', GapToLeader: '+1.2' },
+      },
+    ]);
+  });
+
+  it('should skip keys that are not racing numbers', () => {
+    const messages = splitEventByDriver(
+      event('DriverList', {
+        '44': { Tla: 'HAM' },
+        Withheld: { Tla: 'XXX' },
+        '81': 'not an entry',
+      })
+    );
+
+    expect(messages).toEqual([
+      { driverNumber: '44', topic: 'drivers/44/info', data: { Tla: 'HAM' } },
+    ]);
+  });
+
+  it('should ignore _deleted lists and fall back to the delta of removed drivers', () => {
+    const messages = splitEventByDriver(
+      event(
+        'TimingAppData',
+        { Lines: { _deleted: ['4'], '4': { Stints: [] } } },
+        { Lines: {} }
+      ),
+      true
+    );
+
+    expect(messages).toEqual([
+      { driverNumber: '4', topic: 'drivers/4/tyres', data: { Stints: [] } },
+    ]);
+  });
+
+  it('should not split streams without driver topics', () => {
+    expect(splitEventByDriver(event('TrackStatus', { Status: '1' }))).toEqual(
+      []
+    );
+    expect(
+      splitEventByDriver({
+        eventType: 'timingdata',
+        timestamp: '2024-07-07T14:00:00.000Z',
+        data: timingDelta,
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,249 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import mqtt, { IClientOptions, MqttClient } from 'mqtt';
+import { buildConfig, ConfigError } from '../config';
+import { EmbeddedBroker } from '../services/embedded-broker';
+import { EmbeddedBrokerConfig } from '../types';
+
+jest.mock('../utils/logger');
+
+const connect = (url: string, options: IClientOptions = {}): MqttClient =>
+  mqtt.connect(url, { reconnectPeriod: 0, connectTimeout: 2000, ...options });
+
+const waitForConnect = (client: MqttClient): Promise<void> =>
+  new Promise((resolve, reject) => {
+    client.once('connect', () => resolve());
+    client.once('error', reject);
+  });
+
+// wsPort 0 disables the WebSocket listener, so pick a free port up front
+const freePort = (): Promise<number> =>
+  new Promise((resolve) => {
+    const server = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+
+const nextMessage = (client: MqttClient): Promise<[string, string]> =>
+  new Promise((resolve) => {
+    client.once('message', (topic, payload) =>
+      resolve([topic, payload.toString()])
+    );
+  });
+
+const BRIDGE_CLIENT_ID = 'f1-mqtt-bridge-test';
+
+describe('EmbeddedBroker', () => {
+  let tempDir: string;
+  let broker: EmbeddedBroker | null;
+  const clients: MqttClient[] = [];
+
+  const startBroker = async (
+    overrides: Partial<EmbeddedBrokerConfig> = {}
+  ): Promise<EmbeddedBroker> => {
+    broker = new EmbeddedBroker(
+      {
+        enabled: true,
+        host: '127.0.0.1',
+        port: 0,
+        wsPort: 0,
+        persistPath: path.join(tempDir, 'retained.json'),
+        ...overrides,
+      },
+      { topicPrefixes: ['f1'], bridgeClientIds: [BRIDGE_CLIENT_ID] }
+    );
+    await broker.start();
+    return broker;
+  };
+
+  const client = (url: string, options?: IClientOptions): MqttClient => {
+    const created = connect(url, options);
+    clients.push(created);
+    return created;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'embedded-broker-'));
+    broker = null;
+  });
+
+  afterEach(async () => {
+    await Promise.all(
+      clients.splice(0).map((created) => created.endAsync(true))
+    );
+    await broker?.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should deliver messages over TCP and WebSocket', async () => {
+    const { port, wsPort } = (
+      await startBroker({ wsPort: await freePort() })
+    ).getStatus();
+
+    const subscriber = client(`ws://127.0.0.1:${wsPort}`);
+    await waitForConnect(subscriber);
+    await subscriber.subscribeAsync('f1/#');
+
+    const publisher = client(`mqtt://127.0.0.1:${port}`, {
+      clientId: BRIDGE_CLIENT_ID,
+    });
+    await waitForConnect(publisher);
+    const received = nextMessage(subscriber);
+    await publisher.publishAsync('f1/trackstatus', 'green');
+
+    await expect(received).resolves.toEqual(['f1/trackstatus', 'green']);
+    expect(broker?.getStatus().clients).toBe(2);
+  });
+
+  it('should reject clients with wrong credentials', async () => {
+    const { port } = (
+      await startBroker({ username: 'bridge', password: 'secret' })
+    ).getStatus();
+
+    const rejected = client(`mqtt://127.0.0.1:${port}`, {
+      username: 'bridge',
+      password: 'wrong',
+    });
+    await expect(waitForConnect(rejected)).rejects.toThrow(
+      /Bad username or password/
+    );
+
+    const accepted = client(`mqtt://127.0.0.1:${port}`, {
+      username: 'bridge',
+      password: 'secret',
+    });
+    await expect(waitForConnect(accepted)).resolves.toBeUndefined();
+  });
+
+  it('should only let the bridge publish to its topics', async () => {
+    const { port } = (await startBroker()).getStatus();
+    const url = `mqtt://127.0.0.1:${port}`;
+
+    const subscriber = client(url, { clientId: BRIDGE_CLIENT_ID });
+    await waitForConnect(subscriber);
+    await subscriber.subscribeAsync(['f1/#', 'homeassistant/#']);
+    const received = nextMessage(subscriber);
+
+    const intruder = client(url);
+    await waitForConnect(intruder);
+    const closed = new Promise<void>((resolve) =>
+      intruder.once('close', () => resolve())
+    );
+    intruder.publish('f1/cmd/reconnect', '');
+    await closed;
+
+    // Topics outside the prefix stay open to all clients
+    const other = client(url);
+    await waitForConnect(other);
+    await other.publishAsync('homeassistant/status', 'online');
+
+    await expect(received).resolves.toEqual(['homeassistant/status', 'online']);
+  });
+
+  it('should keep retained messages across restarts', async () => {
+    const first = await startBroker();
+    const publisher = client(`mqtt://127.0.0.1:${first.getStatus().port}`, {
+      clientId: BRIDGE_CLIENT_ID,
+    });
+    await waitForConnect(publisher);
+    await publisher.publishAsync('f1/sessioninfo', '{"Name":"Race"}', {
+      retain: true,
+    });
+    await publisher.publishAsync('f1/trackstatus', 'yellow', { retain: true });
+    // An empty retained payload clears the topic
+    await publisher.publishAsync('f1/trackstatus', '', { retain: true });
+    await publisher.endAsync();
+    await first.stop();
+
+    const persisted = JSON.parse(
+      fs.readFileSync(path.join(tempDir, 'retained.json'), 'utf8')
+    ) as { topic: string }[];
+    expect(persisted.map((message) => message.topic)).toEqual([
+      'f1/sessioninfo',
+    ]);
+
+    const second = await startBroker();
+    expect(second.getStatus().retainedMessages).toBe(1);
+    const subscriber = client(`mqtt://127.0.0.1:${second.getStatus().port}`);
+    await waitForConnect(subscriber);
+    const received = nextMessage(subscriber);
+    await subscriber.subscribeAsync('f1/#');
+
+    await expect(received).resolves.toEqual([
+      'f1/sessioninfo',
+      '{"Name":"Race"}',
+    ]);
+  });
+});
+
+describe('embedded broker config', () => {
+  it('should point the publisher at the embedded broker', () => {
+    const config = buildConfig({
+      EMBEDDED_BROKER_ENABLED: 'true',
+      EMBEDDED_BROKER_PORT: '1884',
+      EMBEDDED_BROKER_USERNAME: 'bridge',
+      EMBEDDED_BROKER_PASSWORD: 'secret',
+    });
+
+    expect(config.embeddedBroker).toMatchObject({
+      enabled: true,
+      host: '127.0.0.1',
+      port: 1884,
+      wsPort: 9001,
+    });
+    expect(config.mqtt).toMatchObject({
+      brokerUrl: 'mqtt://127.0.0.1:1884',
+      username: 'bridge',
+      password: 'secret',
+    });
+  });
+
+  it('should keep an explicitly configured broker', () => {
+    const config = buildConfig({
+      EMBEDDED_BROKER_ENABLED: 'true',
+      MQTT_BROKER_URL: 'mqtt://mosquitto:1883',
+    });
+
+    expect(config.mqtt.brokerUrl).toBe('mqtt://mosquitto:1883');
+    expect(config.mqtt.username).toBeUndefined();
+  });
+
+  it('should reject incomplete credentials and clashing ports', () => {
+    let error: ConfigError | undefined;
+    try {
+      buildConfig({
+        EMBEDDED_BROKER_ENABLED: 'true',
+        EMBEDDED_BROKER_USERNAME: 'bridge',
+        EMBEDDED_BROKER_WS_PORT: '1883',
+      });
+    } catch (caught) {
+      error = caught as ConfigError;
+    }
+
+    expect(error?.issues).toEqual([
+      'EMBEDDED_BROKER_USERNAME and EMBEDDED_BROKER_PASSWORD: must be set together',
+      'EMBEDDED_BROKER_WS_PORT: 1883 is already the TCP port',
+    ]);
+  });
+
+  it('should require credentials beyond the loopback interface', () => {
+    expect(() =>
+      buildConfig({
+        EMBEDDED_BROKER_ENABLED: 'true',
+        EMBEDDED_BROKER_HOST: '0.0.0.0',
+      })
+    ).toThrow(/EMBEDDED_BROKER_HOST: "0.0.0.0" is reachable from the network/);
+
+    expect(
+      buildConfig({
+        EMBEDDED_BROKER_ENABLED: 'true',
+        EMBEDDED_BROKER_HOST: '0.0.0.0',
+        EMBEDDED_BROKER_USERNAME: 'bridge',
+        EMBEDDED_BROKER_PASSWORD: 'secret',
+      }).mqtt.brokerUrl
+    ).toBe('mqtt://127.0.0.1:1883');
+  });
+});
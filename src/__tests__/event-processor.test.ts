@@ -1,6 +1,8 @@
 import { EventProcessor } from '../services/event-processor';
 import { SignalRClient } from '../services/signalr-client';
 import { MqttPublisher } from '../services/mqtt-publisher';
+import { SessionStateStore } from '../services/session-state';
+import { F1Event } from '../types';
 
 // Mock the dependencies
 jest.mock('../services/signalr-client');
@@ -77,6 +79,72 @@ describe('EventProcessor', () => {
     await expect(eventProcessor.start()).rejects.toThrow('Connection failed');
   });
 
+  it('should republish the session state as snapshots', async () => {
+    const sessionState = new SessionStateStore();
+    sessionState.applySnapshot('TrackStatus', { Status: '1' });
+    sessionState.applySnapshot('TeamRadio', { Captures: [] });
+    sessionState.applySnapshot('CarData.z', { Entries: [] });
+    mockSignalRClient.getSessionState = jest.fn().mockReturnValue(sessionState);
+
+    const processed: F1Event[] = [];
+    const done = new Promise<void>((resolve) => {
+      eventProcessor.on('event-processed', (event: F1Event) => {
+        processed.push(event);
+        if (processed.length === 2) resolve();
+      });
+    });
+
+    expect(eventProcessor.republishState()).toBe(2);
+    await done;
+
+    expect(processed).toEqual([
+      expect.objectContaining({ eventType: 'trackstatus', snapshot: true }),
+      expect.objectContaining({ eventType: 'team_radio', snapshot: true }),
+    ]);
+  });
+
+  it('should rebuild the analyzers and republish the state after a seek', async () => {
+    const analyzer = {
+      name: 'test',
+      handleEvent: jest.fn().mockReturnValue([]),
+      reset: jest.fn(),
+    };
+    eventProcessor = new EventProcessor(mockSignalRClient, mockMqttPublisher, {
+      analyzers: [analyzer],
+    });
+
+    // State after fast-forwarding, no events were sent for it
+    const sessionState = new SessionStateStore();
+    sessionState.applySnapshot('TrackStatus', { Status: '4', Message: 'SCDeployed' });
+    mockSignalRClient.getSessionState = jest.fn().mockReturnValue(sessionState);
+
+    const processed = new Promise<F1Event>((resolve) => {
+      eventProcessor.on('event-processed', resolve);
+    });
+    const onStateRestored = mockSignalRClient.on.mock.calls
+      .filter(([name]) => name === 'stateRestored')
+      .map(([, listener]) => listener)
+      .pop();
+    onStateRestored?.();
+
+    expect(analyzer.reset).toHaveBeenCalledTimes(1);
+    await expect(processed).resolves.toMatchObject({
+      eventType: 'trackstatus',
+      snapshot: true,
+      data: { Status: '4', Message: 'SCDeployed' },
+    });
+    expect(analyzer.handleEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        snapshot: true,
+        state: { Status: '4', Message: 'SCDeployed' },
+      })
+    );
+    expect(mockMqttPublisher.publishF1Event).toHaveBeenCalledWith(
+      'trackstatus',
+      expect.objectContaining({ Status: '4', Message: 'SCDeployed' })
+    );
+  });
+
   it('should handle MQTT connection errors', async () => {
     const error = new Error('MQTT connection failed');
     mockMqttPublisher.connect.mockRejectedValue(error);
@@ -0,0 +1,142 @@
+import { HomeAssistantDiscovery } from '../services/homeassistant-discovery';
+import { MqttAvailability, MqttPublisher } from '../services/mqtt-publisher';
+import { SessionStateStore } from '../services/session-state';
+import { F1Event, MqttMessage } from '../types';
+
+jest.mock('../utils/logger');
+
+describe('HomeAssistantDiscovery', () => {
+  let published: MqttMessage[];
+  let availability: MqttAvailability;
+  let sessionState: SessionStateStore;
+  let discovery: HomeAssistantDiscovery;
+
+  const configs = (): Record<string, Record<string, unknown>> =>
+    Object.fromEntries(
+      published
+        .filter((message) => message.topic.endsWith('/config'))
+        .map((message) => [
+          message.topic,
+          message.payload === ''
+            ? {}
+            : (JSON.parse(message.payload as string) as Record<
+                string,
+                unknown
+              >),
+        ])
+    );
+
+  const updateDriverList = async (
+    data: Record<string, unknown>
+  ): Promise<void> => {
+    sessionState.applyDelta('DriverList', data);
+    const event: F1Event = {
+      eventType: 'driverlist',
+      timestamp: '2024-07-07T14:00:00.000Z',
+      data,
+      streamName: 'DriverList',
+    };
+    await discovery.handleEvent(event);
+  };
+
+  beforeEach(() => {
+    published = [];
+    availability = {
+      birthTopic: 'f1/status',
+      birthMessage: 'online',
+      willTopic: 'f1/status',
+      willMessage: 'offline',
+    };
+    sessionState = new SessionStateStore();
+    const publisher = {
+      publish: jest.fn(async (message: MqttMessage) => {
+        published.push(message);
+      }),
+      getAvailability: (): MqttAvailability => availability,
+    };
+    discovery = new HomeAssistantDiscovery(
+      publisher as unknown as MqttPublisher,
+      sessionState,
+      { discoveryPrefix: 'homeassistant', nodeId: 'f1', topicPrefix: 'f1' }
+    );
+  });
+
+  it('should publish retained session entity configs', async () => {
+    await discovery.publishDiscovery();
+
+    const trackStatus =
+      configs()['homeassistant/sensor/f1/track_status/config'];
+    expect(trackStatus).toMatchObject({
+      unique_id: 'f1_track_status',
+      state_topic: 'f1/homeassistant/session',
+      availability_topic: 'f1/status',
+      payload_available: 'online',
+      payload_not_available: 'offline',
+      device: { identifiers: ['f1'] },
+    });
+    expect(
+      configs()['homeassistant/binary_sensor/f1/rainfall/config']
+    ).toMatchObject({ unique_id: 'f1_rainfall' });
+    expect(published.every((message) => message.retain)).toBe(true);
+  });
+
+  it('should use the configured birth and last will messages', async () => {
+    availability = {
+      birthTopic: 'bridge/up',
+      birthMessage: 'alive',
+      willTopic: 'bridge/down',
+      willMessage: 'dead',
+    };
+    await discovery.publishDiscovery();
+
+    const trackStatus =
+      configs()['homeassistant/sensor/f1/track_status/config'];
+    expect(trackStatus).toMatchObject({
+      availability: [
+        { topic: 'bridge/up', payload_available: 'alive' },
+        { topic: 'bridge/down', payload_not_available: 'dead' },
+      ],
+      availability_mode: 'latest',
+    });
+    expect(trackStatus).not.toHaveProperty('availability_topic');
+  });
+
+  it('should add driver entities and remove them once the driver leaves', async () => {
+    await updateDriverList({
+      '1': { Tla: 'VER' },
+      '44': { Tla: 'HAM' },
+    });
+
+    expect(
+      configs()['homeassistant/sensor/f1/driver_44_position/config']
+    ).toMatchObject({
+      name: 'HAM Position',
+      unique_id: 'f1_driver_44_position',
+      state_topic: 'f1/homeassistant/drivers/44',
+    });
+    expect(published.map((message) => message.topic)).toContain(
+      'f1/homeassistant/drivers/1'
+    );
+
+    published = [];
+    await updateDriverList({ _deleted: ['44'] });
+
+    // An empty retained config removes the entity
+    expect(published).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          topic: 'homeassistant/sensor/f1/driver_44_position/config',
+          payload: '',
+          retain: true,
+        }),
+        expect.objectContaining({
+          topic: 'homeassistant/sensor/f1/driver_44_last_lap/config',
+          payload: '',
+        }),
+      ])
+    );
+    expect(Object.keys(configs())).not.toContain(
+      'homeassistant/sensor/f1/driver_1_position/config'
+    );
+  });
+});
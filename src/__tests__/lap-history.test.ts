@@ -0,0 +1,129 @@
+import { LapHistory } from '../services/lap-history';
+import { mergeF1Delta } from '../services/session-state';
+import { AnalyzerMessage, F1Event } from '../types';
+
+jest.mock('../utils/logger');
+
+describe('LapHistory', () => {
+  let lapHistory: LapHistory;
+  let timingState: Record<string, unknown>;
+
+  const timing = (lines: Record<string, unknown>): AnalyzerMessage[] => {
+    const data = { Lines: lines };
+    timingState = mergeF1Delta(timingState, data) as Record<string, unknown>;
+    const event: F1Event = {
+      eventType: 'timingdata',
+      timestamp: '2024-07-07T14:00:00.000Z',
+      data,
+      streamName: 'TimingData',
+      state: timingState,
+    };
+    return lapHistory.handleEvent(event);
+  };
+
+  const completeLap = (
+    lap: number,
+    lapTime: string,
+    extra: Record<string, unknown> = {}
+  ): AnalyzerMessage[] => {
+    timing({ '44': { Sectors: { '0': { Value: '30.100' } } } });
+    timing({ '44': { Sectors: { '1': { Value: '31.200' } } } });
+    return timing({
+      '44': {
+        NumberOfLaps: lap,
+        LastLapTime: { Value: lapTime },
+        Sectors: { '2': { Value: '29.500' } },
+        ...extra,
+      },
+    });
+  };
+
+  beforeEach(() => {
+    lapHistory = new LapHistory();
+    timingState = {};
+    timing({ '44': { NumberOfLaps: 0, InPit: false, PitOut: false } });
+  });
+
+  it('should record completed laps with sector splits', () => {
+    const messages = completeLap(1, '1:30.800');
+
+    expect(messages.map((message) => message.topic)).toEqual([
+      'drivers/44/laps/1',
+      'drivers/44/laps/stats',
+      'laps/sessionbest',
+    ]);
+    expect(lapHistory.getLaps('44')[0]).toMatchObject({
+      lap: 1,
+      lapTime: '1:30.800',
+      lapTimeSeconds: 90.8,
+      sectors: [
+        { time: '30.100', seconds: 30.1 },
+        { time: '31.200', seconds: 31.2 },
+        { time: '29.500', seconds: 29.5 },
+      ],
+      pitIn: false,
+      pitOut: false,
+    });
+  });
+
+  it('should take the tyre compound from TimingAppData', () => {
+    lapHistory.handleEvent({
+      eventType: 'timingappdata',
+      timestamp: '2024-07-07T14:00:00.000Z',
+      data: {},
+      streamName: 'TimingAppData',
+      state: {
+        Lines: { '44': { Stints: [{ Compound: 'MEDIUM', TotalLaps: 3 }] } },
+      },
+    });
+
+    completeLap(1, '1:30.800');
+
+    expect(lapHistory.getLaps('44')[0]).toMatchObject({
+      compound: 'MEDIUM',
+      tyreAge: 3,
+    });
+  });
+
+  it('should flag in and out laps', () => {
+    completeLap(1, '1:30.000', { InPit: true });
+    timing({ '44': { InPit: false, PitOut: true } });
+    completeLap(2, '1:45.000', { PitOut: false });
+
+    const [inLap, outLap] = lapHistory.getLaps('44');
+    expect(inLap).toMatchObject({ pitIn: true, pitOut: false });
+    expect(outLap).toMatchObject({ pitIn: false, pitOut: true });
+  });
+
+  it('should compute rolling stats from clean laps', () => {
+    completeLap(1, '1:31.000');
+    completeLap(2, '1:30.000');
+    completeLap(3, '1:32.000');
+    // Slow lap (e.g. behind the safety car) is left out of the stats
+    completeLap(4, '2:10.000');
+
+    expect(lapHistory.getStats('44')).toEqual({
+      driverNumber: '44',
+      lapCount: 4,
+      lastLap: { lap: 4, time: '2:10.000', seconds: 130 },
+      personalBest: { lap: 2, time: '1:30.000', seconds: 90 },
+      last5Average: 91,
+      consistency: 0.816,
+      cleanLapCount: 3,
+    });
+    expect(lapHistory.getSessionBest()).toEqual({
+      driverNumber: '44',
+      lap: 2,
+      time: '1:30.000',
+      seconds: 90,
+    });
+  });
+
+  it('should not record a lap for the initial snapshot', () => {
+    lapHistory.reset();
+    const messages = timing({ '44': { NumberOfLaps: 12 } });
+
+    expect(messages).toEqual([]);
+    expect(lapHistory.getLaps('44')).toEqual([]);
+  });
+});
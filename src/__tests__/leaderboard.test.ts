@@ -0,0 +1,145 @@
+import { Leaderboard } from '../services/leaderboard';
+import { mergeF1Delta } from '../services/session-state';
+import { AnalyzerMessage, F1Event } from '../types';
+
+jest.mock('../utils/logger');
+
+describe('Leaderboard', () => {
+  let leaderboard: Leaderboard;
+  let states: Record<string, Record<string, unknown>>;
+
+  const send = (
+    streamName: string,
+    data: Record<string, unknown>
+  ): AnalyzerMessage[] => {
+    states[streamName] = mergeF1Delta(states[streamName] ?? {}, data) as Record<
+      string,
+      unknown
+    >;
+    const event: F1Event = {
+      eventType: streamName.toLowerCase(),
+      timestamp: '2024-07-07T14:00:00.000Z',
+      data,
+      streamName,
+      state: states[streamName],
+    };
+    return leaderboard.handleEvent(event);
+  };
+
+  beforeEach(() => {
+    leaderboard = new Leaderboard(2);
+    states = {};
+    send('DriverList', {
+      '1': { Tla: 'VER', TeamName: 'Red Bull Racing' },
+      '4': { Tla: 'NOR', TeamName: 'McLaren' },
+      '44': { Tla: 'HAM', TeamName: 'Mercedes' },
+    });
+    send('TimingAppData', {
+      Lines: { '4': { Stints: [{ Compound: 'HARD', TotalLaps: 12 }] } },
+    });
+  });
+
+  it('should build the table from the merged timing state', () => {
+    send('TimingData', {
+      Lines: {
+        '1': { Position: '1', GapToLeader: 'LAP 20', NumberOfLaps: 19 },
+        '44': {
+          Position: '3',
+          GapToLeader: '+8.100',
+          IntervalToPositionAhead: { Value: '+5.000' },
+          NumberOfLaps: 19,
+        },
+        '4': {
+          Position: '2',
+          GapToLeader: '+3.100',
+          IntervalToPositionAhead: { Value: '+3.100', Catching: true },
+          NumberOfLaps: 19,
+        },
+      },
+    });
+
+    const entries = leaderboard.getEntries();
+    expect(entries.map((entry) => entry.driverNumber)).toEqual([
+      '1',
+      '4',
+      '44',
+    ]);
+    expect(entries[1]).toMatchObject({
+      position: 2,
+      tla: 'NOR',
+      team: 'McLaren',
+      gapToLeader: '+3.100',
+      interval: '+3.100',
+      catching: true,
+      laps: 19,
+      status: 'running',
+      compound: 'HARD',
+      tyreAge: 12,
+    });
+  });
+
+  it('should publish the document and plain values for the top N', () => {
+    const messages = send('TimingData', {
+      Lines: {
+        '1': { Position: '1' },
+        '4': { Position: '2', GapToLeader: '+3.100' },
+        '44': { Position: '3', GapToLeader: '+8.100' },
+      },
+    });
+
+    expect(messages[0]).toMatchObject({
+      topic: 'leaderboard',
+      retain: true,
+    });
+    expect(
+      messages
+        .filter((message) => message.raw)
+        .map((message) => [message.topic, message.data.value])
+    ).toEqual([
+      ['leaderboard/p1/driver', 'VER'],
+      ['leaderboard/p1/number', '1'],
+      ['leaderboard/p1/gap', null],
+      ['leaderboard/p1/interval', null],
+      ['leaderboard/p2/driver', 'NOR'],
+      ['leaderboard/p2/number', '4'],
+      ['leaderboard/p2/gap', '+3.100'],
+      ['leaderboard/p2/interval', null],
+    ]);
+  });
+
+  it('should only publish what changed', () => {
+    send('TimingData', {
+      Lines: {
+        '1': { Position: '1' },
+        '4': { Position: '2', GapToLeader: '+3.100' },
+      },
+    });
+
+    // Sector update without any leaderboard change
+    expect(
+      send('TimingData', {
+        Lines: { '4': { Sectors: { '0': { Value: '30.1' } } } },
+      })
+    ).toEqual([]);
+
+    const messages = send('TimingData', {
+      Lines: { '4': { GapToLeader: '+2.900' } },
+    });
+    expect(messages.map((message) => message.topic)).toEqual([
+      'leaderboard',
+      'leaderboard/p2/gap',
+    ]);
+  });
+
+  it('should report pit and retirement status', () => {
+    send('TimingData', {
+      Lines: {
+        '1': { Position: '1', InPit: true },
+        '4': { Position: '2', Retired: true, InPit: true },
+      },
+    });
+
+    expect(leaderboard.getEntry('1')?.status).toBe('in_pit');
+    expect(leaderboard.getEntry('4')?.status).toBe('retired');
+  });
+});
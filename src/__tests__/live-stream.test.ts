@@ -0,0 +1,185 @@
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import WebSocket from 'ws';
+import { EventProcessor } from '../services/event-processor';
+import { HealthServer } from '../services/health-server';
+import { LiveStream, parseTopicFilters } from '../services/live-stream';
+import { SessionStateStore } from '../services/session-state';
+import { F1Event } from '../types';
+
+jest.mock('../utils/logger');
+
+// Emits what EventProcessor emits after transforming an event
+class FakeEventProcessor extends EventEmitter {
+  getEventTopic(event: Pick<F1Event, 'eventType'>): string {
+    return event.eventType;
+  }
+
+  getStatus(): Record<string, unknown> {
+    return {};
+  }
+
+  process(eventType: string, data: Record<string, unknown>): void {
+    const event: F1Event = {
+      eventType,
+      streamName: eventType === 'trackstatus' ? 'TrackStatus' : 'TimingData',
+      timestamp: '2024-07-07T14:00:00.000Z',
+      data,
+    };
+    this.emit('event-processed', event, eventType);
+  }
+}
+
+const readMessages = (
+  socket: WebSocket,
+  count: number
+): Promise<Record<string, unknown>[]> =>
+  new Promise((resolve) => {
+    const messages: Record<string, unknown>[] = [];
+    socket.on('message', (data) => {
+      messages.push(JSON.parse(data.toString()) as Record<string, unknown>);
+      if (messages.length === count) resolve(messages);
+    });
+  });
+
+describe('LiveStream', () => {
+  let processor: FakeEventProcessor;
+  let sessionState: SessionStateStore;
+  let liveStream: LiveStream;
+  let healthServer: HealthServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    processor = new FakeEventProcessor();
+    sessionState = new SessionStateStore();
+    sessionState.applySnapshot('TrackStatus', {
+      Status: '1',
+      Message: 'AllClear',
+    });
+
+    const eventProcessor = processor as unknown as EventProcessor;
+    liveStream = new LiveStream(eventProcessor, sessionState);
+    healthServer = new HealthServer(eventProcessor, 0);
+    healthServer.mountRouter('/stream', liveStream.createSseRouter());
+    healthServer.mountWebSocket('/ws', liveStream.getWebSocketServer());
+    await healthServer.start();
+
+    const server = (healthServer as unknown as { server: Server }).server;
+    baseUrl = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    liveStream.stop();
+    await healthServer.stop();
+  });
+
+  it('should send the snapshot and matching events over WebSocket', async () => {
+    const socket = new WebSocket(`ws://${baseUrl}/ws?topics=trackstatus`);
+    const messages = readMessages(socket, 2);
+    await new Promise((resolve) => socket.once('open', resolve));
+
+    processor.process('timingdata', { Lines: {} });
+    processor.process('trackstatus', { Status: '2', Message: 'Yellow' });
+
+    const [snapshot, event] = await messages;
+    expect(snapshot).toMatchObject({
+      type: 'snapshot',
+      topic: 'trackstatus',
+      streamName: 'TrackStatus',
+      data: { Status: '1', Message: 'AllClear' },
+    });
+    expect(event).toMatchObject({
+      type: 'event',
+      topic: 'trackstatus',
+      data: { Status: '2', Message: 'Yellow' },
+    });
+    expect(liveStream.getStatus()).toEqual({ sseClients: 0, wsClients: 1 });
+    socket.close();
+  });
+
+  it('should change the topic filters on request', async () => {
+    const socket = new WebSocket(`ws://${baseUrl}/ws?topics=leaderboard`);
+    await new Promise((resolve) => socket.once('open', resolve));
+
+    const messages = readMessages(socket, 2);
+    socket.send(JSON.stringify({ topics: ['timingdata', 'trackstatus'] }));
+    const [subscribed, snapshot] = await messages;
+
+    expect(subscribed).toEqual({
+      type: 'subscribed',
+      topics: ['timingdata', 'trackstatus'],
+    });
+    expect(snapshot).toMatchObject({ type: 'snapshot', topic: 'trackstatus' });
+    socket.close();
+  });
+
+  it('should push driver topics and analyzer messages', async () => {
+    const socket = new WebSocket(
+      `ws://${baseUrl}/ws?topics=drivers/%2B/timing,leaderboard`
+    );
+    const messages = readMessages(socket, 2);
+    await new Promise((resolve) => socket.once('open', resolve));
+
+    processor.emit(
+      'messages-processed',
+      { eventType: 'timingdata', timestamp: '2024-07-07T14:00:00.000Z' },
+      [
+        {
+          topic: 'drivers/44/timing',
+          eventType: 'timingdata',
+          data: { Position: '1' },
+        },
+        { topic: 'laps/sessionbest', eventType: 'session_best', data: {} },
+        {
+          topic: 'leaderboard',
+          eventType: 'leaderboard',
+          data: { positions: [] },
+        },
+      ]
+    );
+
+    const [driver, leaderboard] = await messages;
+    expect(driver).toEqual({
+      type: 'event',
+      topic: 'drivers/44/timing',
+      eventType: 'timingdata',
+      timestamp: '2024-07-07T14:00:00.000Z',
+      data: { Position: '1' },
+    });
+    expect(leaderboard).toMatchObject({
+      topic: 'leaderboard',
+      data: { positions: [] },
+    });
+    socket.close();
+  });
+
+  it('should stream events as Server-Sent Events', async () => {
+    const response = await fetch(`http://${baseUrl}/stream?topics=timingdata`);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    // The TrackStatus snapshot does not match, the first message is the event
+    processor.process('timingdata', { Lines: { '44': { Position: '1' } } });
+    const reader = response.body?.getReader();
+    const chunk = await reader?.read();
+    const text = new TextDecoder().decode(chunk?.value);
+
+    expect(text).toMatch(/^event: event\ndata: /);
+    expect(JSON.parse(text.slice(text.indexOf('data: ') + 6))).toMatchObject({
+      topic: 'timingdata',
+      data: { Lines: { '44': { Position: '1' } } },
+    });
+    await reader?.cancel();
+  });
+
+  it('should reject invalid topic filters', async () => {
+    const response = await fetch(`http://${baseUrl}/stream?topics=a/%23/b`);
+
+    expect(response.status).toBe(400);
+    expect(parseTopicFilters(undefined)).toEqual(['#']);
+    expect(parseTopicFilters(['drivers/+/timing,leaderboard'])).toEqual([
+      'drivers/+/timing',
+      'leaderboard',
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import mqtt, { MqttClient } from 'mqtt';
+import { EmbeddedBroker } from '../services/embedded-broker';
+import { MqttPublisher } from '../services/mqtt-publisher';
+
+jest.mock('../utils/logger');
+
+const BRIDGE_CLIENT_ID = 'f1-mqtt-bridge-test';
+
+const waitForStatus = (client: MqttClient, status: string): Promise<void> =>
+  new Promise((resolve) => {
+    client.on('message', (topic, payload) => {
+      if (topic === 'f1/status' && payload.toString() === status) resolve();
+    });
+  });
+
+describe('MqttPublisher availability', () => {
+  let tempDir: string;
+  let broker: EmbeddedBroker;
+  let publisher: MqttPublisher;
+  const observers: MqttClient[] = [];
+
+  const observe = async (): Promise<MqttClient> => {
+    const { port } = broker.getStatus();
+    const observer = await mqtt.connectAsync(`mqtt://127.0.0.1:${port}`, {
+      reconnectPeriod: 0,
+    });
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mqtt-availability-'));
+    broker = new EmbeddedBroker(
+      { enabled: true, host: '127.0.0.1', port: 0, wsPort: 0 },
+      { topicPrefixes: ['f1'], bridgeClientIds: [BRIDGE_CLIENT_ID] }
+    );
+    await broker.start();
+
+    publisher = new MqttPublisher({
+      brokerUrl: `mqtt://127.0.0.1:${broker.getStatus().port}`,
+      clientId: BRIDGE_CLIENT_ID,
+      topicPrefix: 'f1',
+      reconnectPeriod: 0,
+      offlineQueue: {
+        enabled: true,
+        maxSize: 100,
+        dropPolicy: 'latest-per-topic',
+        persistPath: path.join(tempDir, 'queue.json'),
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.all(
+      observers.splice(0).map((observer) => observer.endAsync(true))
+    );
+    await publisher.disconnect();
+    await broker.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should not queue the last will message while offline', async () => {
+    await publisher.publishWillMessage();
+
+    expect(publisher.getOfflineQueueStatus().size).toBe(0);
+  });
+
+  it('should publish the birth message after the offline queue', async () => {
+    // A stale status left in the queue must not overwrite the birth message
+    await publisher.publish({
+      topic: 'f1/status',
+      payload: 'offline',
+      retain: true,
+    });
+    expect(publisher.getOfflineQueueStatus().size).toBe(1);
+
+    const live = await observe();
+    await live.subscribeAsync('f1/status');
+    const online = waitForStatus(live, 'online');
+    await publisher.connect();
+    await online;
+
+    const late = await observe();
+    const retained = waitForStatus(late, 'online');
+    await late.subscribeAsync('f1/status');
+    await expect(retained).resolves.toBeUndefined();
+    expect(publisher.getOfflineQueueStatus().size).toBe(0);
+  });
+
+  it('should publish the last will message directly when connected', async () => {
+    await publisher.connect();
+    const observer = await observe();
+    await observer.subscribeAsync('f1/status');
+    const offline = waitForStatus(observer, 'offline');
+
+    await publisher.publishWillMessage();
+
+    await expect(offline).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,198 @@
+import { buildConfig, ConfigError } from '../config';
+import { EventProcessor } from '../services/event-processor';
+import { MqttPublisher } from '../services/mqtt-publisher';
+import { SignalRClient } from '../services/signalr-client';
+import { F1Event } from '../types';
+
+jest.mock('../services/signalr-client');
+jest.mock('../services/mqtt-publisher');
+jest.mock('../utils/logger');
+
+describe('MQTT broker targets', () => {
+  it('should inherit topic settings but not credentials', () => {
+    const config = buildConfig(
+      { MQTT_PASSWORD: 'local-secret', MQTT_USERNAME: 'local' },
+      {
+        mqtt: {
+          qos: 0,
+          retainedTopics: ['trackstatus'],
+          brokers: [
+            {
+              name: 'cloud',
+              brokerUrl: 'wss://cloud.example.com/mqtt',
+              topicPrefix: 'racing',
+              streamsInclude: ['timingdata', 'TrackStatus'],
+            },
+          ],
+        },
+      }
+    );
+
+    const [broker] = config.mqtt.brokers ?? [];
+    expect(broker).toMatchObject({
+      name: 'cloud',
+      brokerUrl: 'wss://cloud.example.com/mqtt',
+      topicPrefix: 'racing',
+      qos: 0,
+      retainedTopics: ['trackstatus'],
+      birthTopic: 'racing/status',
+      commandsEnabled: false,
+      streamsInclude: ['TimingData', 'TrackStatus'],
+    });
+    expect(broker?.clientId).toMatch(/^f1-mqtt-bridge-cloud-/);
+    expect(broker?.username).toBeUndefined();
+    expect(broker?.password).toBeUndefined();
+  });
+
+  it('should reject duplicate names and unknown streams', () => {
+    let issues: string[] = [];
+    try {
+      buildConfig(
+        {},
+        {
+          mqtt: {
+            brokers: [
+              { name: 'primary', brokerUrl: 'mqtt://a' },
+              {
+                name: 'cloud',
+                brokerUrl: 'http://b',
+                streamsExclude: ['Telemetry'],
+              },
+            ],
+          },
+        }
+      );
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      issues = (error as ConfigError).issues;
+    }
+
+    expect(issues).toEqual([
+      'mqtt.brokers[0].name: "primary" is already in use',
+      expect.stringMatching(/^mqtt\.brokers\[1\]\.brokerUrl: "http:\/\/b"/),
+      'mqtt.brokers[1].streamsExclude: unknown streams Telemetry',
+    ]);
+  });
+});
+
+describe('EventProcessor broker fan-out', () => {
+  let signalRClient: jest.Mocked<SignalRClient>;
+  let primary: jest.Mocked<MqttPublisher>;
+  let cloud: jest.Mocked<MqttPublisher>;
+  let processor: EventProcessor;
+  let emitEvent: (event: F1Event) => void;
+
+  const createPublisher = (): jest.Mocked<MqttPublisher> => {
+    const publisher = new MqttPublisher({
+      brokerUrl: 'mqtt://test',
+    }) as jest.Mocked<MqttPublisher>;
+    publisher.on = jest.fn();
+    publisher.connect = jest.fn().mockResolvedValue(undefined);
+    publisher.disconnect = jest.fn().mockResolvedValue(undefined);
+    publisher.publishF1Event = jest.fn().mockResolvedValue(undefined);
+    publisher.publishToTopic = jest.fn().mockResolvedValue(undefined);
+    publisher.getConnectionStatus = jest.fn().mockReturnValue(true);
+    publisher.getOfflineQueueStatus = jest
+      .fn()
+      .mockReturnValue({ size: 0, dropped: 0, enabled: true });
+    publisher.getPublishStats = jest
+      .fn()
+      .mockReturnValue({ published: 3, failed: 1 });
+    return publisher;
+  };
+
+  const event = (streamName: string): F1Event => ({
+    eventType: streamName.toLowerCase(),
+    timestamp: '2024-07-07T14:00:00.000Z',
+    data: { Status: '1' },
+    streamName,
+  });
+
+  // Let the unawaited broker publishes settle
+  const flush = (): Promise<void> =>
+    new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    signalRClient = new SignalRClient({
+      hubUrl: 'test-url',
+      hubName: 'test-hub',
+    }) as jest.Mocked<SignalRClient>;
+    signalRClient.on = jest.fn().mockImplementation((name, handler) => {
+      if (name === 'event') emitEvent = handler;
+      return signalRClient;
+    });
+    signalRClient.isConnected = jest.fn().mockReturnValue(true);
+    signalRClient.disconnect = jest.fn().mockResolvedValue(undefined);
+
+    primary = createPublisher();
+    cloud = createPublisher();
+    processor = new EventProcessor(signalRClient, primary, {
+      driverTopics: false,
+      brokers: [
+        { name: 'cloud', publisher: cloud, streamsInclude: ['TrackStatus'] },
+      ],
+    });
+  });
+
+  it('should publish to every broker that accepts the stream', async () => {
+    emitEvent(event('TrackStatus'));
+    emitEvent(event('WeatherData'));
+    await processor.stop();
+    await flush();
+
+    expect(primary.publishF1Event).toHaveBeenCalledTimes(2);
+    expect(cloud.publishF1Event).toHaveBeenCalledTimes(1);
+    expect(cloud.publishF1Event).toHaveBeenCalledWith(
+      'trackstatus',
+      expect.any(Object)
+    );
+    expect(cloud.disconnect).toHaveBeenCalled();
+  });
+
+  it('should not fail the batch when another broker fails', async () => {
+    cloud.publishF1Event.mockRejectedValue(new Error('broker down'));
+    const brokerErrors: string[] = [];
+    processor.on('broker-error', (name: string) => brokerErrors.push(name));
+    const batchErrors = jest.fn();
+    processor.on('batch-error', batchErrors);
+
+    emitEvent(event('TrackStatus'));
+    await processor.stop();
+    await flush();
+
+    expect(primary.publishF1Event).toHaveBeenCalled();
+    expect(batchErrors).not.toHaveBeenCalled();
+    expect(brokerErrors).toEqual(['cloud']);
+  });
+
+  it('should keep starting when an additional broker is unreachable', async () => {
+    signalRClient.connect = jest.fn().mockResolvedValue(undefined);
+    cloud.connect.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await expect(processor.start()).resolves.toBeUndefined();
+    expect(signalRClient.connect).toHaveBeenCalled();
+  });
+
+  it('should report the status per broker', () => {
+    cloud.getConnectionStatus.mockReturnValue(false);
+
+    expect(processor.getStatus().brokers).toEqual([
+      {
+        name: 'primary',
+        connected: true,
+        offlineQueueSize: 0,
+        offlineQueueDropped: 0,
+        published: 3,
+        failed: 1,
+      },
+      {
+        name: 'cloud',
+        connected: false,
+        offlineQueueSize: 0,
+        offlineQueueDropped: 0,
+        published: 3,
+        failed: 1,
+      },
+    ]);
+  });
+});
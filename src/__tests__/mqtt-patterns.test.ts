@@ -1,5 +1,6 @@
 import { MqttPublisher } from '../services/mqtt-publisher';
 import { MqttConfig } from '../types';
+import { isValidTopicFilter, matchesMqttPattern } from '../utils/mqtt-topics';
 
 describe('MQTT Pattern Matching', () => {
   let publisher: MqttPublisher;
@@ -93,7 +94,6 @@ describe('MQTT Pattern Matching', () => {
   describe('Pattern Validation', () => {
     test('should validate # wildcard position', () => {
       // # must be at the end
-      const matchesMqttPattern = (publisher as any).matchesMqttPattern;
 
       // Valid patterns
       expect(matchesMqttPattern('weather/temp', 'weather/#')).toBe(true);
@@ -109,13 +109,18 @@ describe('MQTT Pattern Matching', () => {
     });
 
     test('should handle edge cases', () => {
-      const matchesMqttPattern = (publisher as any).matchesMqttPattern;
-
       expect(matchesMqttPattern('', '')).toBe(true);
       expect(matchesMqttPattern('test', '+')).toBe(true);
       expect(matchesMqttPattern('test/subtopic', '+/+')).toBe(true);
       expect(matchesMqttPattern('test', '#')).toBe(true);
     });
+
+    test('should validate topic filters', () => {
+      expect(isValidTopicFilter('drivers/+/timing')).toBe(true);
+      expect(isValidTopicFilter('weather/#')).toBe(true);
+      expect(isValidTopicFilter('weather/#/invalid')).toBe(false);
+      expect(isValidTopicFilter('drivers/4+/timing')).toBe(false);
+    });
   });
 
   describe('Topic Prefix Handling', () => {
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildConfig, ConfigError, redactConfig } from '../config';
+import {
+  buildTransportOptions,
+  describeTlsError,
+} from '../services/mqtt-publisher';
+
+const PEM = (label: string): string =>
+  `-----BEGIN ${label}-----\nMIIB\n-----END ${label}-----`;
+
+describe('MQTT TLS configuration', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'f1-tls-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string): string => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, `${content}\n`);
+    return filePath;
+  };
+
+  it('should read certificates and secrets from _FILE paths', () => {
+    const config = buildConfig({
+      MQTT_BROKER_URL: 'mqtts://broker:8883',
+      MQTT_TLS_CA_FILE: writeFile('ca.pem', PEM('CERTIFICATE')),
+      MQTT_TLS_CERT_FILE: writeFile('client.pem', PEM('CERTIFICATE')),
+      MQTT_TLS_KEY_FILE: writeFile('client.key', PEM('PRIVATE KEY')),
+      MQTT_PASSWORD_FILE: writeFile('password', 's3cret'),
+      MQTT_USERNAME: 'bridge',
+      MQTT_TLS_SERVERNAME: 'mqtt.example.com',
+    });
+
+    expect(config.mqtt.password).toBe('s3cret');
+    expect(config.mqtt.tls).toEqual({
+      ca: PEM('CERTIFICATE'),
+      cert: PEM('CERTIFICATE'),
+      key: PEM('PRIVATE KEY'),
+      rejectUnauthorized: true,
+      servername: 'mqtt.example.com',
+    });
+
+    const redacted = redactConfig(config) as {
+      mqtt: { tls: Record<string, unknown> };
+    };
+    expect(redacted.mqtt.tls.key).toBe('***');
+    expect(redacted.mqtt.tls.ca).toBe(PEM('CERTIFICATE'));
+  });
+
+  it('should read file paths from the config file', () => {
+    const config = buildConfig(
+      {},
+      {
+        mqtt: {
+          brokerUrl: 'wss://broker/mqtt',
+          wsHeaders: { 'X-Api-Key': 'abc' },
+          tls: { caFile: writeFile('ca.pem', PEM('CERTIFICATE')) },
+        },
+      }
+    );
+
+    expect(config.mqtt.tls?.ca).toBe(PEM('CERTIFICATE'));
+    expect(config.mqtt.wsHeaders).toEqual({ 'X-Api-Key': 'abc' });
+  });
+
+  it('should report unreadable files and invalid settings', () => {
+    let issues: string[] = [];
+    try {
+      buildConfig({
+        MQTT_BROKER_URL: 'mqqt://broker',
+        MQTT_TLS_CA_FILE: path.join(tempDir, 'missing.pem'),
+        MQTT_TLS_CERT: PEM('CERTIFICATE'),
+        MQTT_WS_HEADERS: 'X-Api-Key: abc',
+      });
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      issues = (error as ConfigError).issues;
+    }
+
+    expect(issues).toEqual([
+      `MQTT_TLS_CA_FILE: cannot read "${path.join(tempDir, 'missing.pem')}" (ENOENT)`,
+      expect.stringMatching(/^MQTT_WS_HEADERS: expected a JSON object/),
+      expect.stringMatching(/^MQTT_BROKER_URL: "mqqt:\/\/broker" must start/),
+      expect.stringMatching(/must be set together$/),
+    ]);
+  });
+});
+
+describe('buildTransportOptions', () => {
+  it('should pass TLS settings and WebSocket headers to the client', () => {
+    expect(
+      buildTransportOptions({
+        brokerUrl: 'wss://broker/mqtt',
+        tls: {
+          ca: 'ca',
+          cert: 'cert',
+          key: 'key',
+          rejectUnauthorized: false,
+          servername: 'mqtt.example.com',
+        },
+        wsHeaders: { Authorization: 'Bearer abc' },
+      })
+    ).toEqual({
+      ca: 'ca',
+      cert: 'cert',
+      key: 'key',
+      rejectUnauthorized: false,
+      servername: 'mqtt.example.com',
+      wsOptions: { headers: { Authorization: 'Bearer abc' } },
+    });
+  });
+
+  it('should verify the broker certificate by default', () => {
+    expect(buildTransportOptions({ brokerUrl: 'mqtts://broker' })).toEqual({
+      rejectUnauthorized: true,
+    });
+  });
+});
+
+describe('describeTlsError', () => {
+  const tlsError = (message: string, code?: string): Error =>
+    Object.assign(new Error(message), code ? { code } : {});
+
+  it('should explain certificate verification errors', () => {
+    expect(
+      describeTlsError(
+        tlsError(
+          'self-signed certificate in certificate chain',
+          'SELF_SIGNED_CERT_IN_CHAIN'
+        )
+      )
+    ).toMatch(/set MQTT_TLS_CA/);
+    expect(
+      describeTlsError(
+        tlsError(
+          'write EPROTO 40:error:0A000412:SSL routines:ssl3_read_bytes:sslv3 alert bad certificate',
+          'EPROTO'
+        )
+      )
+    ).toMatch(/rejected the client certificate/);
+  });
+
+  it('should ignore errors unrelated to TLS', () => {
+    expect(
+      describeTlsError(
+        tlsError('connect ECONNREFUSED 127.0.0.1:8883', 'ECONNREFUSED')
+      )
+    ).toBeNull();
+  });
+});
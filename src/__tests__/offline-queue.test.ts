@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OfflineQueue } from '../services/offline-queue';
+
+jest.mock('../utils/logger');
+
+describe('OfflineQueue', () => {
+  it('should return messages in publish order', () => {
+    const queue = new OfflineQueue({ maxSize: 10, dropPolicy: 'drop-oldest' });
+
+    queue.enqueue({ topic: 'f1/a', payload: '1' });
+    queue.enqueue({ topic: 'f1/b', payload: '2' });
+
+    expect(queue.shift()?.topic).toBe('f1/a');
+    expect(queue.shift()?.topic).toBe('f1/b');
+    expect(queue.shift()).toBeUndefined();
+  });
+
+  it('should drop the oldest message when full', () => {
+    const queue = new OfflineQueue({ maxSize: 2, dropPolicy: 'drop-oldest' });
+
+    queue.enqueue({ topic: 'f1/a', payload: '1', retain: true });
+    queue.enqueue({ topic: 'f1/b', payload: '2' });
+    queue.enqueue({ topic: 'f1/c', payload: '3' });
+
+    expect(queue.size()).toBe(2);
+    expect(queue.getDroppedCount()).toBe(1);
+    expect(queue.shift()?.topic).toBe('f1/b');
+  });
+
+  it('should keep only the latest retained message per topic', () => {
+    const queue = new OfflineQueue({
+      maxSize: 10,
+      dropPolicy: 'latest-per-topic',
+    });
+
+    queue.enqueue({ topic: 'f1/trackstatus', payload: '1', retain: true });
+    queue.enqueue({ topic: 'f1/timingdata', payload: 'a' });
+    queue.enqueue({ topic: 'f1/trackstatus', payload: '2', retain: true });
+
+    expect(queue.size()).toBe(2);
+    expect(queue.shift()?.topic).toBe('f1/timingdata');
+    expect(queue.shift()?.payload).toBe('2');
+  });
+
+  it('should drop non-retained messages first with latest-per-topic', () => {
+    const queue = new OfflineQueue({
+      maxSize: 2,
+      dropPolicy: 'latest-per-topic',
+    });
+
+    queue.enqueue({ topic: 'f1/sessioninfo', payload: '1', retain: true });
+    queue.enqueue({ topic: 'f1/timingdata', payload: 'a' });
+    queue.enqueue({ topic: 'f1/timingdata', payload: 'b' });
+
+    expect(queue.shift()?.topic).toBe('f1/sessioninfo');
+    expect(queue.shift()?.payload).toBe('b');
+  });
+
+  it('should restore persisted messages', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'offline-queue-'));
+    const persistPath = path.join(dir, 'queue.json');
+
+    try {
+      const queue = new OfflineQueue({
+        maxSize: 10,
+        dropPolicy: 'drop-oldest',
+        persistPath,
+      });
+      queue.enqueue({ topic: 'f1/a', payload: 'text', qos: 1 });
+      queue.enqueue({ topic: 'f1/b', payload: Buffer.from([1, 2, 3]) });
+      queue.close();
+
+      const restored = new OfflineQueue({
+        maxSize: 10,
+        dropPolicy: 'drop-oldest',
+        persistPath,
+      });
+
+      expect(restored.size()).toBe(2);
+      expect(restored.shift()).toEqual({
+        topic: 'f1/a',
+        payload: 'text',
+        qos: 1,
+      });
+      expect(restored.shift()?.payload).toEqual(Buffer.from([1, 2, 3]));
+      restored.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
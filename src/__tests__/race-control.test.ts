@@ -0,0 +1,195 @@
+import { RaceControl, parseRaceControlMessage } from '../services/race-control';
+import { F1Event } from '../types';
+
+jest.mock('../utils/logger');
+
+const raceControlEvent = (
+  messages: Record<string, unknown>[],
+  snapshot = false
+): F1Event => ({
+  eventType: 'racecontrolmessages',
+  timestamp: '2024-07-07T14:00:00.000Z',
+  data: { Messages: messages },
+  streamName: 'RaceControlMessages',
+  ...(snapshot && { snapshot }),
+});
+
+describe('parseRaceControlMessage', () => {
+  it('should parse sector and driver flags', () => {
+    expect(
+      parseRaceControlMessage({
+        Utc: '2024-07-07T14:01:00',
+        Lap: 3,
+        Category: 'Flag',
+        Flag: 'DOUBLE YELLOW',
+        Scope: 'Sector',
+        Sector: 7,
+        Message: 'DOUBLE YELLOW IN TRACK SECTOR 7',
+      })
+    ).toMatchObject({
+      kind: 'flag',
+      flag: 'double_yellow',
+      scope: 'sector',
+      sector: 7,
+      lap: 3,
+    });
+
+    expect(
+      parseRaceControlMessage({
+        Category: 'Flag',
+        Flag: 'BLUE',
+        Scope: 'Driver',
+        RacingNumber: '22',
+        Message: 'WAVED BLUE FLAG FOR CAR 22 (TSU) TIMED AT 14:02:11',
+      })
+    ).toMatchObject({ kind: 'flag', flag: 'blue', driverNumber: '22' });
+  });
+
+  it('should parse penalties', () => {
+    expect(
+      parseRaceControlMessage({
+        Category: 'Other',
+        Message:
+          'FIA STEWARDS: 5 SECOND TIME PENALTY FOR CAR 1 (VER) - CAUSING A COLLISION',
+      })
+    ).toMatchObject({
+      kind: 'penalty',
+      driverNumber: '1',
+      penalty: '5 SECOND TIME PENALTY',
+      penaltySeconds: 5,
+      reason: 'CAUSING A COLLISION',
+      served: false,
+    });
+  });
+
+  it('should parse investigations and their outcome', () => {
+    expect(
+      parseRaceControlMessage({
+        Category: 'Other',
+        Message:
+          'FIA STEWARDS: TURN 1 INCIDENT INVOLVING CARS 1 (VER) AND 4 (NOR) UNDER INVESTIGATION - CAUSING A COLLISION',
+      })
+    ).toMatchObject({
+      kind: 'investigation',
+      status: 'under_investigation',
+      resolved: false,
+      driverNumbers: ['1', '4'],
+    });
+
+    expect(
+      parseRaceControlMessage({
+        Category: 'Other',
+        Message:
+          'FIA STEWARDS: TURN 1 INCIDENT INVOLVING CARS 1 (VER) AND 4 (NOR) REVIEWED NO FURTHER INVESTIGATION',
+      })
+    ).toMatchObject({ status: 'no_investigation', resolved: true });
+
+    expect(
+      parseRaceControlMessage({
+        Category: 'Other',
+        Message:
+          'FIA STEWARDS: TURN 4 INCIDENT INVOLVING CAR 16 (LEC) WILL BE INVESTIGATED AFTER THE RACE - LEAVING THE TRACK AND GAINING AN ADVANTAGE',
+      })
+    ).toMatchObject({
+      kind: 'investigation',
+      status: 'under_investigation',
+      resolved: false,
+      driverNumbers: ['16'],
+    });
+  });
+
+  it('should parse track limits, DRS and safety car messages', () => {
+    expect(
+      parseRaceControlMessage({
+        Category: 'Other',
+        Message:
+          'CAR 44 (HAM) TIME 1:31.456 DELETED - TRACK LIMITS AT TURN 4 LAP 12 14:12:01',
+      })
+    ).toMatchObject({
+      kind: 'track_limits',
+      driverNumber: '44',
+      lapTime: '1:31.456',
+      turn: 4,
+    });
+
+    expect(
+      parseRaceControlMessage({
+        Category: 'Drs',
+        Status: 'DISABLED',
+        Message: 'DRS DISABLED',
+      })
+    ).toMatchObject({ kind: 'drs', enabled: false });
+
+    expect(
+      parseRaceControlMessage({
+        Category: 'SafetyCar',
+        Mode: 'VIRTUAL SAFETY CAR',
+        Status: 'DEPLOYED',
+        Message: 'VIRTUAL SAFETY CAR DEPLOYED',
+      })
+    ).toMatchObject({
+      kind: 'safety_car',
+      mode: 'virtual_safety_car',
+      status: 'deployed',
+    });
+  });
+});
+
+describe('RaceControl', () => {
+  const penalty = {
+    Utc: '2024-07-07T14:20:00',
+    Category: 'Other',
+    Message:
+      'FIA STEWARDS: 5 SECOND TIME PENALTY FOR CAR 1 (VER) - CAUSING A COLLISION',
+  };
+
+  it('should publish penalties per driver', () => {
+    const raceControl = new RaceControl();
+    const messages = raceControl.handleEvent(raceControlEvent([penalty]));
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({
+      topic: 'racecontrol/penalties/1',
+      eventType: 'racecontrol_penalty',
+      retain: false,
+    });
+    expect(raceControl.getPenalties('1')).toHaveLength(1);
+  });
+
+  it('should count track limits deletions per driver', () => {
+    const raceControl = new RaceControl();
+    const deletion = (lap: number): Record<string, unknown> => ({
+      Utc: `2024-07-07T14:${10 + lap}:00`,
+      Category: 'Other',
+      Message: `CAR 44 (HAM) TIME 1:31.456 DELETED - TRACK LIMITS AT TURN 4 LAP ${lap}`,
+    });
+
+    raceControl.handleEvent(raceControlEvent([deletion(1)]));
+    const [message] = raceControl.handleEvent(raceControlEvent([deletion(2)]));
+
+    expect(message?.topic).toBe('racecontrol/tracklimits/44');
+    expect(message?.data.count).toBe(2);
+  });
+
+  it('should not repeat snapshot messages as events', () => {
+    const raceControl = new RaceControl();
+    const drs = { Category: 'Drs', Status: 'ENABLED', Message: 'DRS ENABLED' };
+
+    const messages = raceControl.handleEvent(
+      raceControlEvent([penalty, drs], true)
+    );
+
+    expect(messages).toEqual([
+      {
+        topic: 'racecontrol/drs',
+        eventType: 'racecontrol_drs',
+        data: { enabled: true },
+        retain: true,
+      },
+    ]);
+    expect(raceControl.getPenalties()).toHaveLength(1);
+
+    // Already known messages in a later delta are skipped as well
+    expect(raceControl.handleEvent(raceControlEvent([penalty]))).toEqual([]);
+  });
+});
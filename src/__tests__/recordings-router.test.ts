@@ -0,0 +1,225 @@
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createRecordingsRouter } from '../services/recordings-router';
+import {
+  SessionRecorder,
+  SessionRecorderConfig,
+} from '../services/session-recorder';
+import { SignalRClient } from '../services/signalr-client';
+
+jest.mock('../utils/logger');
+
+// The recording methods of SignalRClient, backed by a real recorder
+const createClient = (recorder: SessionRecorder): SignalRClient =>
+  ({
+    startSessionRecording: (info?: Record<string, string>) =>
+      recorder.startRecording(info),
+    stopSessionRecording: () => recorder.stopRecording(),
+    isRecordingSession: () => recorder.isCurrentlyRecording(),
+    getCurrentSessionMetadata: () => recorder.getCurrentSessionMetadata(),
+    getCurrentRecordingFilename: () => recorder.getCurrentRecordingFilename(),
+    listSessionRecordings: () => recorder.listRecordings(),
+    getSessionRecordingMetadata: (filename: string) =>
+      recorder.getRecordingMetadata(filename),
+    getSessionRecordingPath: (filename: string) =>
+      recorder.resolveRecordingPath(filename),
+    deleteSessionRecording: (filename: string) =>
+      recorder.deleteRecording(filename),
+  }) as unknown as SignalRClient;
+
+describe('Recordings router', () => {
+  let recordingPath: string;
+  let recorder: SessionRecorder;
+  let server: Server;
+  let baseUrl: string;
+
+  const createRecorder = (
+    overrides: Partial<SessionRecorderConfig> = {}
+  ): SessionRecorder =>
+    new SessionRecorder({
+      enabled: true,
+      mode: 'raw',
+      format: 'ndjson',
+      gzip: false,
+      recordingPath,
+      maxRecordingSize: 1024 * 1024,
+      autoStart: false,
+      sessionDetectionTimeout: 30000,
+      filterKeepAliveMessages: true,
+      ...overrides,
+    });
+
+  // A finished recording with a few messages, returns its filename
+  const record = (target: SessionRecorder = recorder): string => {
+    target.startRecording({ sessionType: 'Race' });
+    target.recordMessage('{"M":[0]}', 'incoming', 'HUB_MESSAGE');
+    target.recordMessage('{"M":[1]}', 'incoming', 'HUB_MESSAGE');
+    const filename = target.getCurrentRecordingFilename() as string;
+    target.stopRecording();
+    return filename;
+  };
+
+  const post = (endpoint: string, body?: unknown): Promise<Response> =>
+    fetch(`${baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body ?? {}),
+    });
+
+  beforeEach(async () => {
+    recordingPath = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+    recorder = createRecorder();
+
+    const app = express();
+    app.use('/recordings', createRecordingsRouter(createClient(recorder)));
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/recordings`;
+  });
+
+  afterEach(async () => {
+    recorder.stopRecording();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(recordingPath, { recursive: true, force: true });
+  });
+
+  it('should start, report and stop a recording', async () => {
+    expect((await fetch(`${baseUrl}/current`)).status).toBe(404);
+
+    const started = await post('/start', { sessionType: 'Qualifying' });
+    expect(started.status).toBe(201);
+    const { filename } = (await started.json()) as { filename: string };
+
+    const current = await fetch(`${baseUrl}/current`);
+    await expect(current.json()).resolves.toMatchObject({
+      filename,
+      metadata: { sessionType: 'Qualifying' },
+    });
+
+    // A second start must not replace the running recording
+    const again = await post('/start');
+    expect(again.status).toBe(409);
+    await expect(again.json()).resolves.toMatchObject({ filename });
+
+    const stopped = await post('/stop');
+    expect(stopped.status).toBe(200);
+    await expect(stopped.json()).resolves.toMatchObject({ filename });
+    expect((await post('/stop')).status).toBe(409);
+  });
+
+  it('should refuse to start while recording is disabled', async () => {
+    const app = express();
+    app.use(
+      '/recordings',
+      createRecordingsRouter(createClient(createRecorder({ enabled: false })))
+    );
+    const disabled = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    const { port } = disabled.address() as AddressInfo;
+
+    const response = await fetch(`http://127.0.0.1:${port}/recordings/start`, {
+      method: 'POST',
+    });
+    expect(response.status).toBe(409);
+    await new Promise((resolve) => disabled.close(resolve));
+  });
+
+  it('should list recordings and parse each file only once', async () => {
+    const jsonRecorder = createRecorder({ format: 'json' });
+    const filename = record(jsonRecorder);
+    const readFile = jest.spyOn(fs.promises, 'readFile');
+
+    for (let i = 0; i < 2; i++) {
+      const response = await fetch(baseUrl);
+      await expect(response.json()).resolves.toMatchObject({
+        recording: false,
+        recordings: [
+          {
+            filename,
+            active: false,
+            size: fs.statSync(path.join(recordingPath, filename)).size,
+            metadata: { sessionType: 'Race', messageCount: 2 },
+          },
+        ],
+      });
+    }
+    expect(readFile).toHaveBeenCalledTimes(1);
+    readFile.mockRestore();
+  });
+
+  it('should skip recordings deleted while listing', async () => {
+    const filename = record();
+    // The file disappears between listing the directory and reading it
+    jest
+      .spyOn(recorder, 'listRecordings')
+      .mockReturnValue([filename, 'deleted.ndjson']);
+    jest
+      .spyOn(recorder, 'resolveRecordingPath')
+      .mockImplementation((name) => path.join(recordingPath, name));
+
+    const response = await fetch(baseUrl);
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      recordings: [{ filename, metadata: { messageCount: 2 } }],
+    });
+  });
+
+  it('should download recordings, optionally gzipped', async () => {
+    const filename = record();
+    const content = fs.readFileSync(path.join(recordingPath, filename));
+
+    const plain = await fetch(`${baseUrl}/${filename}`);
+    expect(plain.headers.get('content-type')).toBe('application/x-ndjson');
+    expect(Buffer.from(await plain.arrayBuffer())).toEqual(content);
+
+    const gzipped = await fetch(`${baseUrl}/${filename}?compress=gzip`);
+    expect(gzipped.headers.get('content-disposition')).toBe(
+      `attachment; filename="${filename}.gz"`
+    );
+    // fetch does not decode, the body is a gzip file download
+    expect(zlib.gunzipSync(Buffer.from(await gzipped.arrayBuffer()))).toEqual(
+      content
+    );
+  });
+
+  it('should delete recordings but not the active one', async () => {
+    const filename = record();
+    recorder.startRecording();
+    const active = recorder.getCurrentRecordingFilename() as string;
+
+    const activeDelete = await fetch(`${baseUrl}/${active}`, {
+      method: 'DELETE',
+    });
+    expect(activeDelete.status).toBe(409);
+
+    const deleted = await fetch(`${baseUrl}/${filename}`, { method: 'DELETE' });
+    expect(deleted.status).toBe(204);
+    expect(fs.existsSync(path.join(recordingPath, filename))).toBe(false);
+    expect(
+      (await fetch(`${baseUrl}/${filename}`, { method: 'DELETE' })).status
+    ).toBe(404);
+  });
+
+  it('should reject paths outside the recording directory', async () => {
+    fs.writeFileSync(
+      path.join(path.dirname(recordingPath), 'outside.ndjson'),
+      'secret'
+    );
+
+    for (const name of ['..%2Foutside.ndjson', '..%5Coutside.ndjson']) {
+      expect((await fetch(`${baseUrl}/${name}`)).status).toBe(404);
+      expect(
+        (await fetch(`${baseUrl}/${name}`, { method: 'DELETE' })).status
+      ).toBe(404);
+    }
+    expect((await fetch(`${baseUrl}/notes.txt`)).status).toBe(404);
+    fs.rmSync(path.join(path.dirname(recordingPath), 'outside.ndjson'));
+  });
+});
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SessionRecorder,
+  SessionRecorderConfig,
+} from '../services/session-recorder';
+
+jest.mock('../utils/logger');
+
+describe('SessionRecorder', () => {
+  let recordingPath: string;
+
+  const createRecorder = (
+    overrides: Partial<SessionRecorderConfig> = {}
+  ): SessionRecorder =>
+    new SessionRecorder({
+      enabled: true,
+      mode: 'raw',
+      format: 'ndjson',
+      gzip: false,
+      recordingPath,
+      maxRecordingSize: 1024 * 1024,
+      autoStart: false,
+      sessionDetectionTimeout: 30000,
+      filterKeepAliveMessages: true,
+      ...overrides,
+    });
+
+  const record = (recorder: SessionRecorder, count: number): void => {
+    recorder.startRecording({ sessionType: 'Race' });
+    for (let i = 0; i < count; i++) {
+      recorder.recordMessage(`{"M":[${i}]}`, 'incoming', 'HUB_MESSAGE');
+    }
+  };
+
+  beforeEach(() => {
+    recordingPath = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(recordingPath, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['ndjson', false, '.ndjson'],
+    ['ndjson', true, '.ndjson.gz'],
+    ['json', false, '.json'],
+  ] as const)(
+    'should write and load %s recordings (gzip: %s)',
+    (format, gzip, extension) => {
+      const recorder = createRecorder({ format, gzip });
+      record(recorder, 3);
+      recorder.stopRecording();
+
+      const [filename] = recorder.listRecordings();
+      expect(filename?.endsWith(extension)).toBe(true);
+
+      const recording = recorder.loadRecording(filename as string);
+      expect(recording?.metadata.messageCount).toBe(3);
+      expect(recording?.messages.map((m) => m.rawMessage)).toEqual([
+        '{"M":[0]}',
+        '{"M":[1]}',
+        '{"M":[2]}',
+      ]);
+    }
+  );
+
+  it('should recover a truncated ndjson recording', () => {
+    const recorder = createRecorder();
+    record(recorder, 2);
+    recorder.stopRecording();
+
+    const [filename] = recorder.listRecordings();
+    const filePath = path.join(recordingPath, filename as string);
+    const lines = fs.readFileSync(filePath, 'utf8').trimEnd().split('\n');
+    // Drop the footer and cut the last message in half
+    const lastMessage = lines[lines.length - 2] as string;
+    const truncated = [...lines.slice(0, -2), lastMessage.slice(0, 20)];
+    fs.writeFileSync(filePath, truncated.join('\n'));
+
+    const recording = recorder.loadRecording(filename as string);
+    expect(recording?.messages).toHaveLength(1);
+    expect(recording?.metadata.messageCount).toBe(1);
+    expect(recording?.metadata.sessionType).toBe('Race');
+  });
+
+  it('should only resolve recordings inside the recording path', () => {
+    const recorder = createRecorder();
+    record(recorder, 1);
+    recorder.stopRecording();
+    fs.writeFileSync(path.join(recordingPath, 'notes.txt'), 'x');
+
+    const [filename] = recorder.listRecordings();
+    expect(recorder.resolveRecordingPath(filename as string)).toBe(
+      path.join(recordingPath, filename as string)
+    );
+    expect(recorder.resolveRecordingPath('notes.txt')).toBeNull();
+    expect(recorder.resolveRecordingPath('../x.json')).toBeNull();
+    expect(recorder.resolveRecordingPath('missing.ndjson')).toBeNull();
+  });
+
+  it('should read metadata from the footer and delete recordings', async () => {
+    const recorder = createRecorder();
+    record(recorder, 2);
+    recorder.stopRecording();
+
+    const [filename] = recorder.listRecordings() as [string];
+    const metadata = await recorder.getRecordingMetadata(filename);
+    expect(metadata?.messageCount).toBe(2);
+
+    expect(recorder.deleteRecording(filename)).toBe(true);
+    expect(recorder.listRecordings()).toEqual([]);
+  });
+
+  it('should not delete the active recording', () => {
+    const recorder = createRecorder();
+    record(recorder, 1);
+
+    const filename = recorder.getCurrentRecordingFilename() as string;
+    expect(recorder.deleteRecording(filename)).toBe(false);
+    recorder.stopRecording();
+  });
+});
@@ -0,0 +1,135 @@
+import { SessionReplay } from '../services/session-replay';
+import { SessionMessage, SessionRecording } from '../services/session-recorder';
+
+jest.mock('../utils/logger');
+
+const createMessage = (
+  relativeTime: number,
+  rawMessage: string,
+  direction: SessionMessage['direction'] = 'incoming'
+): SessionMessage => ({
+  timestamp: new Date(relativeTime).toISOString(),
+  relativeTime,
+  messageType: 'HUB_MESSAGE',
+  direction,
+  rawMessage,
+  dataSize: rawMessage.length,
+});
+
+const createRecording = (messages: SessionMessage[]): SessionRecording => ({
+  metadata: {
+    sessionId: 'test',
+    sessionType: 'Race',
+    sessionName: 'Test Race',
+    location: 'Test',
+    startTime: new Date(0).toISOString(),
+    recordingVersion: '1.0',
+    recordingMode: 'structured',
+    messageCount: messages.length,
+    totalSize: 0,
+  },
+  messages,
+});
+
+describe('SessionReplay', () => {
+  let received: string[];
+
+  const createReplay = (
+    options: { speed?: number; loop?: boolean } = {}
+  ): SessionReplay => {
+    const replay = new SessionReplay(
+      createRecording([
+        createMessage(2000, 'c'),
+        createMessage(0, 'a'),
+        createMessage(500, 'subscribe', 'outgoing'),
+        createMessage(1000, 'b'),
+      ]),
+      options
+    );
+    replay.on('message', (rawMessage: string) => received.push(rawMessage));
+    return replay;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    received = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should emit incoming messages on their recorded schedule', () => {
+    const replay = createReplay();
+    replay.start();
+
+    jest.advanceTimersByTime(0);
+    expect(received).toEqual(['a']);
+
+    jest.advanceTimersByTime(1000);
+    expect(received).toEqual(['a', 'b']);
+
+    jest.advanceTimersByTime(1000);
+    expect(received).toEqual(['a', 'b', 'c']);
+    expect(replay.getStatus().state).toBe('finished');
+  });
+
+  it('should scale delays by the replay speed', () => {
+    const replay = createReplay({ speed: 4 });
+    replay.start();
+
+    jest.advanceTimersByTime(500);
+    expect(received).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should not emit messages while paused', () => {
+    const replay = createReplay();
+    replay.start();
+    jest.advanceTimersByTime(0);
+
+    replay.pause();
+    jest.advanceTimersByTime(5000);
+    expect(received).toEqual(['a']);
+
+    replay.resume();
+    jest.advanceTimersByTime(1000);
+    expect(received).toEqual(['a', 'b']);
+  });
+
+  it('should fast-forward skipped messages when seeking', () => {
+    const replay = createReplay();
+    const fastForwarded: string[] = [];
+    replay.on(
+      'message',
+      (rawMessage: string, { fastForward }: { fastForward: boolean }) => {
+        if (fastForward) fastForwarded.push(rawMessage);
+      }
+    );
+
+    const seeked = jest.fn(() => expect(fastForwarded).toEqual(['b']));
+    replay.on('seeked', seeked);
+
+    replay.start();
+    jest.advanceTimersByTime(0);
+    replay.seek(1500);
+
+    expect(seeked).toHaveBeenCalledWith(1500);
+    expect(replay.getStatus().position).toBe(1500);
+
+    jest.advanceTimersByTime(500);
+    expect(received).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should reset and start over when looping', () => {
+    const replay = createReplay({ loop: true });
+    const reset = jest.fn();
+    replay.on('reset', reset);
+
+    replay.start();
+    jest.advanceTimersByTime(2001);
+
+    expect(reset).toHaveBeenCalledTimes(1);
+    expect(received).toEqual(['a', 'b', 'c', 'a']);
+    replay.stop();
+  });
+});
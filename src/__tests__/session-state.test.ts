@@ -0,0 +1,112 @@
+import { mergeF1Delta, SessionStateStore } from '../services/session-state';
+
+jest.mock('../utils/logger');
+
+describe('mergeF1Delta', () => {
+  it('should deep-merge nested objects', () => {
+    const state = { Lines: { '44': { Position: '1', GapToLeader: '' } } };
+    const delta = { Lines: { '44': { GapToLeader: 'LAP 2' } } };
+
+    expect(mergeF1Delta(state, delta)).toEqual({
+      Lines: { '44': { Position: '1', GapToLeader: 'LAP 2' } },
+    });
+  });
+
+  it('should update arrays through index-keyed objects', () => {
+    const state = {
+      Sectors: [{ Value: '28.1' }, { Value: '' }, { Value: '' }],
+    };
+    const delta = { Sectors: { '1': { Value: '31.4' } } };
+
+    expect(mergeF1Delta(state, delta)).toEqual({
+      Sectors: [{ Value: '28.1' }, { Value: '31.4' }, { Value: '' }],
+    });
+  });
+
+  it('should append new array entries by index', () => {
+    const state = { Messages: [{ Message: 'GREEN LIGHT' }] };
+    const delta = {
+      Messages: { '1': { Message: 'YELLOW IN TRACK SECTOR 4' } },
+    };
+
+    const merged = mergeF1Delta(state, delta) as {
+      Messages: { Message: string }[];
+    };
+
+    expect(merged.Messages).toHaveLength(2);
+    expect(merged.Messages[1]?.Message).toBe('YELLOW IN TRACK SECTOR 4');
+  });
+
+  it('should remove keys listed in _deleted', () => {
+    const state = {
+      Lines: { '1': { Position: '1' }, '44': { Position: '2' } },
+    };
+    const delta = { Lines: { _deleted: ['1'] } };
+
+    expect(mergeF1Delta(state, delta)).toEqual({
+      Lines: { '44': { Position: '2' } },
+    });
+  });
+
+  it('should apply array index updates before removals', () => {
+    const state = { Messages: [{ Id: 'a' }, { Id: 'b' }, { Id: 'c' }] };
+    const delta = { Messages: { _deleted: [1], '2': { Flag: 'CLEAR' } } };
+
+    expect(mergeF1Delta(state, delta)).toEqual({
+      Messages: [{ Id: 'a' }, { Id: 'c', Flag: 'CLEAR' }],
+    });
+  });
+
+  it('should drop keyframe markers', () => {
+    expect(mergeF1Delta({}, { Status: '1', _kf: true })).toEqual({
+      Status: '1',
+    });
+  });
+
+  it('should not mutate the previous state', () => {
+    const state = { Lines: { '44': { Position: '1' } } };
+
+    mergeF1Delta(state, { Lines: { '44': { Position: '2' } } });
+
+    expect(state.Lines['44'].Position).toBe('1');
+  });
+});
+
+describe('SessionStateStore', () => {
+  let store: SessionStateStore;
+
+  beforeEach(() => {
+    store = new SessionStateStore();
+  });
+
+  it('should merge deltas into the snapshot of a stream', () => {
+    store.applySnapshot('LapCount', { CurrentLap: 1, TotalLaps: 57 });
+    const state = store.applyDelta('LapCount', { CurrentLap: 2 });
+
+    expect(state).toEqual({ CurrentLap: 2, TotalLaps: 57 });
+    expect(store.getStream('LapCount')).toEqual(state);
+  });
+
+  it('should start from an empty state when no snapshot was received', () => {
+    expect(store.applyDelta('TrackStatus', { Status: '2' })).toEqual({
+      Status: '2',
+    });
+  });
+
+  it('should replace the state when a new snapshot arrives', () => {
+    store.applySnapshot('TrackStatus', { Status: '4', Message: 'SCDeployed' });
+    store.applySnapshot('TrackStatus', { Status: '1', Message: 'AllClear' });
+
+    expect(store.getStream('TrackStatus')).toEqual({
+      Status: '1',
+      Message: 'AllClear',
+    });
+  });
+
+  it('should ignore non-object payloads', () => {
+    expect(
+      store.applySnapshot('CarData.z', 'eJyVz0EKwjAQBdC7')
+    ).toBeUndefined();
+    expect(store.getStreamNames()).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { StatusTracker } from '../services/status-tracker';
+import { AnalyzerMessage, F1Event } from '../types';
+import { formatDuration } from '../utils/timing';
+
+jest.mock('../utils/logger');
+
+const event = (
+  streamName: string,
+  data: Record<string, unknown>,
+  timestamp: string,
+  snapshot = false
+): F1Event => ({
+  eventType: streamName.toLowerCase(),
+  timestamp,
+  data,
+  streamName,
+  ...(snapshot && { snapshot }),
+});
+
+describe('StatusTracker', () => {
+  let tracker: StatusTracker;
+
+  const trackStatus = (
+    status: string,
+    timestamp: string,
+    snapshot = false
+  ): AnalyzerMessage[] =>
+    tracker.handleEvent(
+      event('TrackStatus', { Status: status }, timestamp, snapshot)
+    );
+
+  const lapCount = (lap: number): void => {
+    tracker.handleEvent(
+      event('LapCount', { CurrentLap: lap }, '2024-07-07T14:00:00.000Z')
+    );
+  };
+
+  beforeEach(() => {
+    tracker = new StatusTracker();
+  });
+
+  it('should publish the retained track state without a transition at first', () => {
+    const messages = trackStatus('1', '2024-07-07T14:00:00.000Z', true);
+
+    expect(messages).toEqual([
+      {
+        topic: 'track/state',
+        eventType: 'track_state',
+        data: {
+          state: 'GREEN',
+          raw: '1',
+          since: '2024-07-07T14:00:00.000Z',
+          sinceLap: null,
+        },
+        retain: true,
+      },
+    ]);
+  });
+
+  it('should publish transitions with duration in laps and time', () => {
+    lapCount(10);
+    trackStatus('1', '2024-07-07T14:00:00.000Z');
+    trackStatus('4', '2024-07-07T14:10:00.000Z');
+    lapCount(14);
+    const messages = trackStatus('1', '2024-07-07T14:16:12.000Z');
+
+    expect(messages.map((message) => message.topic)).toEqual([
+      'track/state',
+      'track/transitions',
+    ]);
+    expect(messages[1]).toMatchObject({
+      eventType: 'track_transition',
+      retain: false,
+      data: {
+        from: 'SC',
+        to: 'GREEN',
+        durationMs: 372000,
+        duration: '6m12s',
+        durationLaps: 4,
+        summary: 'SC lasted 4 laps / 6m12s',
+      },
+    });
+  });
+
+  it('should time transitions by the F1 message time when present', () => {
+    const replayed = (status: string, utc: string): AnalyzerMessage[] =>
+      tracker.handleEvent({
+        ...event('TrackStatus', { Status: status }, new Date().toISOString()),
+        utc,
+      });
+
+    replayed('1', '2024-07-07T14:00:00.1234567Z');
+    replayed('6', '2024-07-07T14:02:00.1234567Z');
+    const messages = replayed('1', '2024-07-07T14:03:30.1234567Z');
+
+    expect(messages[0]?.data).toMatchObject({
+      since: '2024-07-07T14:03:30.123Z',
+    });
+    expect(messages[1]?.data).toMatchObject({
+      from: 'VSC',
+      startedAt: '2024-07-07T14:02:00.123Z',
+      durationMs: 90000,
+    });
+  });
+
+  it('should ignore repeated states and snapshots after a reconnect', () => {
+    trackStatus('6', '2024-07-07T14:00:00.000Z');
+
+    expect(trackStatus('6', '2024-07-07T14:00:05.000Z')).toEqual([]);
+    expect(
+      trackStatus('7', '2024-07-07T14:01:00.000Z', true).map(
+        (message) => message.topic
+      )
+    ).toEqual(['track/state']);
+    expect(tracker.getTrackState()?.state).toBe('VSC_ENDING');
+  });
+
+  it('should follow the session phase from SessionData.StatusSeries', () => {
+    tracker.handleEvent(
+      event(
+        'SessionData',
+        {
+          StatusSeries: [
+            { Utc: '2024-07-07T13:00:00', SessionStatus: 'Inactive' },
+            { Utc: '2024-07-07T13:03:00', TrackStatus: 'AllClear' },
+          ],
+        },
+        '2024-07-07T13:00:00.000Z',
+        true
+      )
+    );
+    expect(tracker.getSessionState()?.state).toBe('pre-session');
+
+    const messages = tracker.handleEvent(
+      event(
+        'SessionData',
+        { StatusSeries: { '2': { SessionStatus: 'Started' } } },
+        '2024-07-07T14:00:00.000Z'
+      )
+    );
+
+    expect(messages[0]).toMatchObject({
+      topic: 'session/state',
+      data: { state: 'running', raw: 'Started' },
+    });
+    expect(messages[1]).toMatchObject({
+      topic: 'session/transitions',
+      data: {
+        from: 'pre-session',
+        to: 'running',
+        summary: 'pre-session lasted 1h00m00s',
+      },
+    });
+  });
+
+  it('should forget the state on reset', () => {
+    trackStatus('5', '2024-07-07T14:00:00.000Z');
+    tracker.reset();
+
+    expect(tracker.getTrackState()).toBeNull();
+    expect(
+      trackStatus('1', '2024-07-07T14:30:00.000Z').map(
+        (message) => message.topic
+      )
+    ).toEqual(['track/state']);
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format seconds, minutes and hours', () => {
+    expect(formatDuration(45000)).toBe('45s');
+    expect(formatDuration(372000)).toBe('6m12s');
+    expect(formatDuration(3723000)).toBe('1h02m03s');
+  });
+});
@@ -0,0 +1,136 @@
+import { StintTracker } from '../services/stint-tracker';
+import { mergeF1Delta } from '../services/session-state';
+import { AnalyzerMessage, F1Event } from '../types';
+
+jest.mock('../utils/logger');
+
+describe('StintTracker', () => {
+  let tracker: StintTracker;
+  let appState: Record<string, unknown>;
+
+  const timingApp = (
+    lines: Record<string, unknown>,
+    snapshot = false
+  ): AnalyzerMessage[] => {
+    const data = { Lines: lines };
+    appState = mergeF1Delta(appState, data) as Record<string, unknown>;
+    return tracker.handleEvent({
+      eventType: 'timingappdata',
+      timestamp: '2024-07-07T14:00:00.000Z',
+      data,
+      streamName: 'TimingAppData',
+      state: appState,
+      ...(snapshot && { snapshot }),
+    });
+  };
+
+  const pitTime = (
+    driverNumber: string,
+    lap: string,
+    duration: string,
+    snapshot = false
+  ): AnalyzerMessage[] => {
+    const event: F1Event = {
+      eventType: 'pitlanetimecollection',
+      timestamp: '2024-07-07T14:20:00.000Z',
+      data: {
+        PitTimes: {
+          [driverNumber]: {
+            RacingNumber: driverNumber,
+            Duration: duration,
+            Lap: lap,
+          },
+        },
+      },
+      streamName: 'PitLaneTimeCollection',
+      ...(snapshot && { snapshot }),
+    };
+    return tracker.handleEvent(event);
+  };
+
+  beforeEach(() => {
+    tracker = new StintTracker();
+    appState = {};
+    timingApp(
+      {
+        '44': {
+          Stints: [
+            { Compound: 'MEDIUM', New: 'true', StartLaps: 0, TotalLaps: 0 },
+          ],
+        },
+      },
+      true
+    );
+  });
+
+  it('should publish stints with tyre age and laps per stint', () => {
+    const messages = timingApp({
+      '44': { Stints: { '0': { TotalLaps: 18 } } },
+    });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({
+      topic: 'drivers/44/stints',
+      retain: true,
+    });
+    expect(tracker.getStints('44')?.current).toEqual({
+      stint: 1,
+      compound: 'MEDIUM',
+      new: true,
+      startTyreAge: 0,
+      tyreAge: 18,
+      laps: 18,
+    });
+  });
+
+  it('should record pit stops with the compound change', () => {
+    timingApp({
+      '44': {
+        Stints: {
+          '1': { Compound: 'HARD', New: 'false', StartLaps: 3, TotalLaps: 3 },
+        },
+      },
+    });
+    const messages = pitTime('44', '19', '22.456');
+
+    expect(messages).toEqual([
+      {
+        topic: 'pitstops',
+        eventType: 'pitstop',
+        data: {
+          driverNumber: '44',
+          stopNumber: 1,
+          lap: 19,
+          pitLaneTime: 22.456,
+          fromCompound: 'MEDIUM',
+          toCompound: 'HARD',
+          tyreChange: true,
+          timestamp: '2024-07-07T14:20:00.000Z',
+        },
+        retain: false,
+      },
+    ]);
+    expect(tracker.getStints('44')?.current).toMatchObject({
+      stint: 2,
+      new: false,
+      startTyreAge: 3,
+      laps: 0,
+    });
+  });
+
+  it('should record stops without a tyre change', () => {
+    pitTime('44', '10', '30.100');
+
+    expect(tracker.getPitStops('44')[0]).toMatchObject({
+      fromCompound: 'MEDIUM',
+      toCompound: 'MEDIUM',
+      tyreChange: false,
+    });
+  });
+
+  it('should not publish snapshot or repeated pit times', () => {
+    expect(pitTime('44', '10', '22.000', true)).toEqual([]);
+    expect(pitTime('44', '10', '22.000')).toEqual([]);
+    expect(tracker.getPitStops()).toHaveLength(1);
+  });
+});
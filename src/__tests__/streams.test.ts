@@ -0,0 +1,137 @@
+import {
+  F1Stream,
+  F1_STREAM_SETS,
+  getStreamEventType,
+  resolveStreamSelection,
+} from '../config/streams';
+import { splitEventByDriver } from '../services/driver-topics';
+import { F1Event } from '../types';
+
+describe('F1 streams', () => {
+  it('should map stream names to event types', () => {
+    expect(getStreamEventType(F1Stream.CHAMPIONSHIP_PREDICTION)).toBe(
+      'championship_prediction'
+    );
+    expect(getStreamEventType(F1Stream.TEAM_RADIO)).toBe('team_radio');
+    // Existing streams keep their topics
+    expect(getStreamEventType(F1Stream.TIMING_APP_DATA)).toBe('timingappdata');
+    expect(getStreamEventType(F1Stream.CAR_DATA)).toBe('cardata_z');
+  });
+
+  it('should subscribe the race streams with the full sets', () => {
+    for (const set of [F1_STREAM_SETS.FULL, F1_STREAM_SETS.FULL_TELEMETRY]) {
+      expect(set).toEqual(
+        expect.arrayContaining([
+          F1Stream.SESSION_STATUS,
+          F1Stream.TEAM_RADIO,
+          F1Stream.PIT_LANE_TIME_COLLECTION,
+          F1Stream.DRIVER_RACE_INFO,
+        ])
+      );
+      expect(set).not.toContain(F1Stream.TIMING_DATA_F1);
+    }
+    expect(F1_STREAM_SETS.ALL).toContain(F1Stream.CONTENT_STREAMS);
+  });
+});
+
+describe('resolveStreamSelection', () => {
+  it('should use the default preset when nothing is set', () => {
+    expect(resolveStreamSelection({}, 'BASIC')).toEqual(F1_STREAM_SETS.BASIC);
+  });
+
+  it('should accept preset names in any case', () => {
+    expect(resolveStreamSelection({ set: 'full_telemetry' })).toEqual(
+      F1_STREAM_SETS.FULL_TELEMETRY
+    );
+  });
+
+  it('should accept a comma-separated list of streams', () => {
+    expect(
+      resolveStreamSelection({ set: 'TimingData, trackstatus,TimingData' })
+    ).toEqual([F1Stream.TIMING_DATA, F1Stream.TRACK_STATUS]);
+    expect(resolveStreamSelection({ set: 'WeatherData' })).toEqual([
+      F1Stream.WEATHER_DATA,
+    ]);
+  });
+
+  it('should apply include and exclude lists', () => {
+    const streams = resolveStreamSelection({
+      set: 'BASIC',
+      include: 'CarData.z',
+      exclude: 'SessionStatus,SessionData',
+    });
+
+    expect(streams).toContain(F1Stream.CAR_DATA);
+    expect(streams).not.toContain(F1Stream.SESSION_STATUS);
+    expect(streams).not.toContain(F1Stream.SESSION_DATA);
+  });
+
+  it('should reject unknown presets and streams', () => {
+    expect(() => resolveStreamSelection({ set: 'MINIMAL' })).toThrow(
+      /Invalid SIGNALR_STREAM_SET "MINIMAL": expected one of BASIC/
+    );
+    expect(() =>
+      resolveStreamSelection({ set: 'TimingData,TimeData' })
+    ).toThrow(/unknown streams TimeData/);
+    expect(() => resolveStreamSelection({ exclude: 'Telemetry' })).toThrow(
+      /Invalid SIGNALR_STREAMS_EXCLUDE: unknown streams Telemetry/
+    );
+    expect(() =>
+      resolveStreamSelection({ set: 'TrackStatus', exclude: 'TrackStatus' })
+    ).toThrow(/selects no streams/);
+  });
+});
+
+describe('splitEventByDriver', () => {
+  const event = (
+    streamName: string,
+    data: Record<string, unknown>
+  ): F1Event => ({
+    eventType: getStreamEventType(streamName),
+    timestamp: '2024-07-07T14:00:00.000Z',
+    data,
+    streamName,
+  });
+
+  it('should split streams keyed by racing number', () => {
+    const messages = splitEventByDriver(
+      event('DriverRaceInfo', {
+        '1': { Position: '1', PitStops: 1 },
+        '44': { Gap: '+4.1' },
+      })
+    );
+
+    expect(messages.map((message) => message.topic)).toEqual([
+      'drivers/1/raceinfo',
+      'drivers/44/raceinfo',
+    ]);
+  });
+
+  it('should split drivers below a container key', () => {
+    const [message] = splitEventByDriver(
+      event('PitLaneTimeCollection', {
+        PitTimes: { '44': { Duration: '22.4', Lap: '19' } },
+      })
+    );
+
+    expect(message).toEqual({
+      driverNumber: '44',
+      topic: 'drivers/44/pittime',
+      data: { Duration: '22.4', Lap: '19' },
+    });
+  });
+
+  it('should publish the latest team radio capture per driver', () => {
+    const messages = splitEventByDriver(
+      event('TeamRadio', {
+        Captures: [
+          { RacingNumber: '1', Path: 'TeamRadio/a.mp3' },
+          { RacingNumber: '1', Path: 'TeamRadio/b.mp3' },
+        ],
+      })
+    );
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]?.data.Path).toBe('TeamRadio/b.mp3');
+  });
+});
@@ -0,0 +1,109 @@
+import zlib from 'zlib';
+import {
+  decodeCarData,
+  decodePosition,
+  inflateStreamPayload,
+} from '../services/telemetry-decoder';
+
+const compress = (data: unknown): string =>
+  zlib.deflateRawSync(Buffer.from(JSON.stringify(data))).toString('base64');
+
+describe('Telemetry Decoder', () => {
+  it('should inflate base64 raw-deflate payloads', () => {
+    expect(inflateStreamPayload(compress({ hello: 'world' }))).toEqual({
+      hello: 'world',
+    });
+  });
+
+  it('should decode car data into per-driver samples', () => {
+    const payload = compress({
+      Entries: [
+        {
+          Utc: '2024-03-02T15:03:12.123Z',
+          Cars: {
+            '1': {
+              Channels: {
+                '0': 11250,
+                '2': 302,
+                '3': 8,
+                '4': 100,
+                '5': 0,
+                '45': 12,
+              },
+            },
+            '44': {
+              Channels: {
+                '0': 9800,
+                '2': 145,
+                '3': 3,
+                '4': 0,
+                '5': 100,
+                '45': 8,
+              },
+            },
+          },
+        },
+        {
+          Utc: '2024-03-02T15:03:12.403Z',
+          Cars: {
+            '1': {
+              Channels: {
+                '0': 11300,
+                '2': 304,
+                '3': 8,
+                '4': 100,
+                '5': 0,
+                '45': 12,
+              },
+            },
+          },
+        },
+      ],
+    });
+
+    const samples = decodeCarData(payload);
+
+    expect(samples).toHaveLength(3);
+    expect(samples[0]).toEqual({
+      utc: '2024-03-02T15:03:12.123Z',
+      driverNumber: '1',
+      speed: 302,
+      rpm: 11250,
+      gear: 8,
+      throttle: 100,
+      brake: 0,
+      drs: 12,
+      drsOpen: true,
+    });
+    expect(samples[1]?.drsOpen).toBe(false);
+    expect(samples[2]?.utc).toBe('2024-03-02T15:03:12.403Z');
+  });
+
+  it('should decode positions into per-driver samples', () => {
+    const payload = compress({
+      Position: [
+        {
+          Timestamp: '2024-03-02T15:03:12.123Z',
+          Entries: {
+            '16': { Status: 'OnTrack', X: -1234, Y: 567, Z: 89 },
+          },
+        },
+      ],
+    });
+
+    expect(decodePosition(payload)).toEqual([
+      {
+        utc: '2024-03-02T15:03:12.123Z',
+        driverNumber: '16',
+        x: -1234,
+        y: 567,
+        z: 89,
+        status: 'OnTrack',
+      },
+    ]);
+  });
+
+  it('should throw on corrupt payloads', () => {
+    expect(() => decodeCarData('not-compressed')).toThrow();
+  });
+});
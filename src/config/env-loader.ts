@@ -2,6 +2,9 @@ import dotenv from 'dotenv';
 import path from 'path';
 import fs from 'fs';
 
+// Variables set before any .env file was loaded, e.g. by Docker
+const processEnvironment: NodeJS.ProcessEnv = { ...process.env };
+
 /**
  * Load environment variables with hierarchy support
  *
@@ -41,5 +44,22 @@ export function loadEnvironmentConfig(): void {
   });
 }
 
+/**
+ * Read the environment again with the same hierarchy, for config reloads.
+ * Process variables win over .env, .env.local wins over both.
+ */
+export function readEnvironment(): NodeJS.ProcessEnv {
+  const readEnvFile = (envFile: string): Record<string, string> => {
+    const envPath = path.resolve(process.cwd(), envFile);
+    return fs.existsSync(envPath) ? dotenv.parse(fs.readFileSync(envPath)) : {};
+  };
+
+  return {
+    ...readEnvFile('.env'),
+    ...processEnvironment,
+    ...readEnvFile('.env.local'),
+  };
+}
+
 // Load configuration immediately when this module is imported
 loadEnvironmentConfig();
@@ -1,4 +1,19 @@
-import { AppConfig, SessionRecordingMode } from '../types';
+import fs from 'fs';
+import {
+  AppConfig,
+  ConfigFile,
+  EmbeddedBrokerConfig,
+  MqttBrokerConfig,
+  MqttConfig,
+  OfflineQueueDropPolicy,
+  SessionRecordingFormat,
+  SessionRecordingMode,
+  StreamPublishMode,
+} from '../types';
+import { parseStreamNames, resolveStreamSelection } from './streams';
+import { ConfigError, loadConfigFile } from './config-file';
+
+export { ConfigError, redactConfig } from './config-file';
 
 // Default configuration values
 const DEFAULT_VALUES = {
@@ -7,13 +22,10 @@ const DEFAULT_VALUES = {
     HUB_NAME: 'f1TimingHub',
     AUTOMATIC_RECONNECT: true,
     RECONNECT_DELAYS: [0, 2000, 10000, 30000] as number[],
+    STREAM_SET: 'FULL' as const,
     // F1 Live Timing API endpoints - configurable via environment
-    NEGOTIATE_URL:
-      process.env.F1_NEGOTIATE_URL ||
-      'https://livetiming.formula1.com/signalr/negotiate',
-    CONNECT_URL:
-      process.env.F1_CONNECT_URL ||
-      'wss://livetiming.formula1.com/signalr/connect',
+    NEGOTIATE_URL: 'https://livetiming.formula1.com/signalr/negotiate',
+    CONNECT_URL: 'wss://livetiming.formula1.com/signalr/connect',
   },
   MQTT: {
     BROKER_URL: 'mqtt://localhost:1883',
@@ -28,15 +40,40 @@ const DEFAULT_VALUES = {
     SESSION_EXPIRY_INTERVAL: 3600,
     BIRTH_MESSAGE: 'online',
     WILL_MESSAGE: 'offline',
+    TLS_REJECT_UNAUTHORIZED: true,
     // Default retained topic patterns (MQTT standard wildcards)
     RETAINED_TOPICS: [
       'sessioninfo',
       'sessiondata',
       'trackstatus',
       'weatherdata',
+      'session_status',
+      'championship_prediction',
       '+/status',
       '+/discovery',
+      'drivers/+/info',
+      'drivers/+/timing',
+      'drivers/+/tyres',
+      'drivers/+/stats',
+      'drivers/+/raceinfo',
+      'drivers/+/prediction',
     ],
+    DRIVER_TOPICS: true,
+    // Anyone who can publish to the broker could control the bridge
+    COMMANDS_ENABLED: false,
+    OFFLINE_QUEUE: {
+      ENABLED: true,
+      MAX_SIZE: 1000,
+      DROP_POLICY: 'latest-per-topic' as const,
+    },
+  },
+  EMBEDDED_BROKER: {
+    ENABLED: false,
+    // Other hosts on the network need credentials, see buildEmbeddedBroker
+    HOST: '127.0.0.1',
+    PORT: 1883,
+    WS_PORT: 9001,
+    PERSIST_PATH: './data/embedded-broker-retained.json',
   },
   LOGGING: {
     LEVEL: 'info' as const,
@@ -53,12 +90,29 @@ const DEFAULT_VALUES = {
   SESSION_RECORDING: {
     ENABLED: false,
     MODE: 'structured' as const, // 'disabled' | 'raw' | 'structured' | 'hybrid'
+    FORMAT: 'ndjson' as const, // 'json' | 'ndjson'
+    GZIP: false,
     RECORDING_PATH: './recordings',
     MAX_RECORDING_SIZE: 100 * 1024 * 1024, // 100MB
     AUTO_START: false,
     SESSION_DETECTION_TIMEOUT: 30000, // 30 seconds
     FILTER_KEEP_ALIVE_MESSAGES: true, // Filter out empty keep-alive messages
   },
+  SESSION_STATE: {
+    PUBLISH_MODE: 'delta' as const, // 'delta' | 'state'
+  },
+  ANALYTICS: {
+    LAP_HISTORY: true,
+    RACE_CONTROL: true,
+    STATUS_TRACKER: true,
+    LEADERBOARD: true,
+    LEADERBOARD_TOP_N: 10,
+    STINT_TRACKER: true,
+  },
+  REPLAY: {
+    SPEED: 1,
+    LOOP: false,
+  },
   SERVER: {
     PORT: 3000,
     HEALTH_ENDPOINT: '/health',
@@ -69,228 +123,930 @@ const DEFAULT_VALUES = {
   },
 } as const;
 
-// Utility functions for configuration
-const parseSessionRecordingMode = (
-  value: string | undefined,
-  defaultValue: SessionRecordingMode
-): SessionRecordingMode => {
-  if (!value) return defaultValue;
-  const validModes: SessionRecordingMode[] = [
-    'disabled',
-    'raw',
-    'structured',
-    'hybrid',
-  ];
-  return validModes.includes(value as SessionRecordingMode)
-    ? (value as SessionRecordingMode)
-    : defaultValue;
-};
+/**
+ * Reads environment variables and collects readable errors instead of
+ * returning NaN or unchecked values
+ */
+class EnvReader {
+  readonly errors: string[] = [];
 
-const generateClientId = (prefix: string): string => {
-  const timestamp = Date.now();
-  const randomId = Math.random().toString(36).substr(2, 9);
-  return `${prefix}-${timestamp}-${randomId}`;
-};
+  constructor(private readonly env: NodeJS.ProcessEnv) {}
 
-const buildTopicWithPrefix = (prefix: string, suffix: string): string => {
-  return `${prefix}/${suffix}`;
+  raw(name: string): string | undefined {
+    const value = this.env[name]?.trim();
+    return value ? value : undefined;
+  }
+
+  string<T extends string | undefined>(name: string, fallback: T): string | T {
+    return this.raw(name) ?? fallback;
+  }
+
+  /**
+   * Read a secret from NAME or from the file named by NAME_FILE (Docker
+   * secrets), falling back to the config file value or file path
+   */
+  secret(
+    name: string,
+    fileValue?: string,
+    filePath?: { key: string; path: string | undefined }
+  ): string | undefined {
+    const value = this.raw(name);
+    if (value !== undefined) return value;
+
+    const envPath = this.raw(`${name}_FILE`);
+    if (envPath) return this.readFile(`${name}_FILE`, envPath);
+    return this.fileSecret(fileValue, filePath);
+  }
+
+  /**
+   * Read a secret given only in the config file, inline or as a file path
+   */
+  fileSecret(
+    fileValue?: string,
+    filePath?: { key: string; path: string | undefined }
+  ): string | undefined {
+    if (fileValue !== undefined) return fileValue;
+    if (filePath?.path) return this.readFile(filePath.key, filePath.path);
+    return undefined;
+  }
+
+  private readFile(name: string, filePath: string): string | undefined {
+    try {
+      return fs.readFileSync(filePath, 'utf8').trim();
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code ?? 'read error';
+      this.errors.push(`${name}: cannot read "${filePath}" (${code})`);
+      return undefined;
+    }
+  }
+
+  int(
+    name: string,
+    fallback: number,
+    { min, max }: { min?: number; max?: number } = {}
+  ): number {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed)) {
+      this.errors.push(`${name}: "${value}" is not a whole number`);
+      return fallback;
+    }
+    if (
+      (min !== undefined && parsed < min) ||
+      (max !== undefined && parsed > max)
+    ) {
+      this.errors.push(
+        `${name}: ${parsed} is out of range (${min ?? '-∞'} to ${max ?? '∞'})`
+      );
+      return fallback;
+    }
+    return parsed;
+  }
+
+  float(name: string, fallback: number): number {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      this.errors.push(`${name}: "${value}" is not a number`);
+      return fallback;
+    }
+    return parsed;
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const value = this.raw(name)?.toLowerCase();
+    if (value === undefined) return fallback;
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+
+    this.errors.push(`${name}: "${this.raw(name)}" must be true or false`);
+    return fallback;
+  }
+
+  oneOf<T extends string | number>(
+    name: string,
+    allowed: readonly T[],
+    fallback: T
+  ): T {
+    const value = this.raw(name);
+    if (value === undefined) return fallback;
+
+    const match = allowed.find(
+      (option) => String(option).toLowerCase() === value.toLowerCase()
+    );
+    if (match === undefined) {
+      this.errors.push(
+        `${name}: "${value}" must be one of ${allowed.join(', ')}`
+      );
+      return fallback;
+    }
+    return match;
+  }
+}
+
+const SESSION_RECORDING_MODES: SessionRecordingMode[] = [
+  'disabled',
+  'raw',
+  'structured',
+  'hybrid',
+];
+const SESSION_RECORDING_FORMATS: SessionRecordingFormat[] = ['json', 'ndjson'];
+const STREAM_PUBLISH_MODES: StreamPublishMode[] = ['delta', 'state'];
+const OFFLINE_QUEUE_DROP_POLICIES: OfflineQueueDropPolicy[] = [
+  'drop-oldest',
+  'latest-per-topic',
+];
+const LOG_LEVELS: AppConfig['logging']['level'][] = [
+  'debug',
+  'info',
+  'warn',
+  'error',
+];
+
+// Parse per-stream publish modes, e.g. "TimingData:state,CarData.z:delta",
+// on top of the modes from the config file
+const parseStreamPublishModes = (
+  reader: EnvReader,
+  fileModes: Partial<Record<string, StreamPublishMode>> = {}
+): Record<string, StreamPublishMode> => {
+  const envValue = reader.raw('SESSION_STATE_STREAM_MODES');
+  const modes: Record<string, StreamPublishMode> = {};
+  for (const [streamName, mode] of Object.entries(fileModes)) {
+    if (mode) modes[streamName] = mode;
+  }
+  if (!envValue) return modes;
+
+  for (const entry of envValue.split(',')) {
+    const [streamName, mode] = entry.split(':').map((part) => part.trim());
+    if (!streamName || (mode !== 'delta' && mode !== 'state')) {
+      reader.errors.push(
+        `SESSION_STATE_STREAM_MODES: invalid entry "${entry.trim()}", expected <Stream>:<delta|state>`
+      );
+      continue;
+    }
+    modes[streamName] = mode;
+  }
+
+  return modes;
 };
 
-// Helper functions for environment variable parsing
-const parseIntWithDefault = (
-  envValue: string | undefined,
-  defaultValue: number
-): number => {
-  return envValue ? parseInt(envValue) : defaultValue;
+// Parse a comma-separated list of MQTT topic patterns
+const parseTopicList = (value: string): string[] =>
+  value
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.length > 0);
+
+// Key stream topics by the canonical stream name, e.g. timingdata -> TimingData
+const normalizeStreamTopics = (
+  reader: EnvReader,
+  streamTopics: Partial<Record<string, string>> = {}
+): Record<string, string> => {
+  const topics: Record<string, string> = {};
+  for (const [streamName, topic] of Object.entries(streamTopics)) {
+    const [stream] = parseStreamNames([streamName]).streams;
+    if (!stream) {
+      reader.errors.push(`mqtt.streamTopics: unknown stream "${streamName}"`);
+    } else if (topic) {
+      topics[stream] = topic;
+    }
+  }
+  return topics;
 };
 
-const parseBooleanWithDefault = (
-  envValue: string | undefined,
-  defaultValue: boolean
-): boolean => {
-  if (envValue === undefined) return defaultValue;
-  return envValue === 'true';
+const BROKER_PROTOCOLS = ['mqtt', 'mqtts', 'tcp', 'tls', 'ssl', 'ws', 'wss'];
+
+// Check the broker URL scheme so typos fail at startup, not on connect
+const validateBrokerUrl = (
+  reader: EnvReader,
+  brokerUrl: string,
+  key = 'MQTT_BROKER_URL'
+): void => {
+  const protocol = /^([a-z][a-z0-9+.-]*):\/\//i.exec(brokerUrl)?.[1];
+  if (!protocol || !BROKER_PROTOCOLS.includes(protocol.toLowerCase())) {
+    reader.errors.push(
+      `${key}: "${brokerUrl}" must start with one of ${BROKER_PROTOCOLS.map(
+        (option) => `${option}://`
+      ).join(', ')}`
+    );
+  }
 };
 
-// Parse retained topics configuration from environment
-const parseRetainedTopics = (): string[] => {
-  const envValue = process.env.MQTT_RETAINED_TOPICS;
+// Parse extra WebSocket headers from a JSON object, e.g. {"X-Api-Key":"..."}
+const parseWsHeaders = (
+  reader: EnvReader,
+  fileHeaders: Partial<Record<string, string>> = {},
+  readEnv = true
+): Record<string, string> => {
+  const envValue = readEnv ? reader.raw('MQTT_WS_HEADERS') : undefined;
   if (!envValue) {
-    return [...DEFAULT_VALUES.MQTT.RETAINED_TOPICS]; // Convert readonly to mutable array
+    return Object.fromEntries(
+      Object.entries(fileHeaders).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined
+      )
+    );
   }
 
   try {
-    // Parse comma-separated list of MQTT patterns
-    return envValue
-      .split(',')
-      .map((pattern) => pattern.trim())
-      .filter((pattern) => pattern.length > 0);
-  } catch (error) {
-    console.warn(
-      'Invalid MQTT_RETAINED_TOPICS configuration, using defaults:',
-      error
-    );
+    const headers: unknown = JSON.parse(envValue);
+    if (
+      typeof headers === 'object' &&
+      headers !== null &&
+      !Array.isArray(headers) &&
+      Object.values(headers).every((value) => typeof value === 'string')
+    ) {
+      return headers as Record<string, string>;
+    }
+  } catch {
+    // Reported below
   }
+  reader.errors.push(
+    'MQTT_WS_HEADERS: expected a JSON object of strings, e.g. {"X-Api-Key":"secret"}'
+  );
+  return {};
+};
+
+type ConfigFileBrokers = NonNullable<
+  NonNullable<ConfigFile['mqtt']>['brokers']
+>;
 
-  return [...DEFAULT_VALUES.MQTT.RETAINED_TOPICS];
+// Resolve stream filters of an additional broker to canonical stream names
+const parseBrokerStreams = (
+  reader: EnvReader,
+  key: string,
+  names: string[] | undefined
+): string[] | undefined => {
+  if (!names) return undefined;
+  const { streams, unknown } = parseStreamNames(names);
+  if (unknown.length > 0) {
+    reader.errors.push(`${key}: unknown streams ${unknown.join(', ')}`);
+  }
+  return streams;
 };
 
-const config: AppConfig = {
-  signalR: {
-    hubUrl: process.env.SIGNALR_HUB_URL || DEFAULT_VALUES.SIGNALR.HUB_URL,
-    hubName: process.env.SIGNALR_HUB_NAME || DEFAULT_VALUES.SIGNALR.HUB_NAME,
-    ...(process.env.SIGNALR_ACCESS_TOKEN && {
-      accessToken: process.env.SIGNALR_ACCESS_TOKEN,
-    }),
-    automaticReconnect: DEFAULT_VALUES.SIGNALR.AUTOMATIC_RECONNECT,
-    reconnectDelays: DEFAULT_VALUES.SIGNALR.RECONNECT_DELAYS,
-    // F1 Live Timing API endpoints - configurable for development
-    negotiateUrl: DEFAULT_VALUES.SIGNALR.NEGOTIATE_URL,
-    connectUrl: DEFAULT_VALUES.SIGNALR.CONNECT_URL,
-  },
-  mqtt: {
-    brokerUrl: process.env.MQTT_BROKER_URL || DEFAULT_VALUES.MQTT.BROKER_URL,
-    ...(process.env.MQTT_USERNAME && { username: process.env.MQTT_USERNAME }),
-    ...(process.env.MQTT_PASSWORD && { password: process.env.MQTT_PASSWORD }),
-    clientId: process.env.MQTT_CLIENT_ID
-      ? generateClientId(process.env.MQTT_CLIENT_ID)
-      : generateClientId('f1-mqtt-bridge'),
-    topicPrefix:
-      process.env.MQTT_TOPIC_PREFIX || DEFAULT_VALUES.MQTT.TOPIC_PREFIX,
-    qos: parseIntWithDefault(process.env.MQTT_QOS, DEFAULT_VALUES.MQTT.QOS) as
-      | 0
-      | 1
-      | 2,
-    retain: parseBooleanWithDefault(
-      process.env.MQTT_RETAIN,
-      DEFAULT_VALUES.MQTT.RETAIN
-    ),
-    protocolVersion: parseIntWithDefault(
-      process.env.MQTT_PROTOCOL_VERSION,
-      DEFAULT_VALUES.MQTT.PROTOCOL_VERSION
-    ) as 3 | 4 | 5,
-    connectTimeout: parseIntWithDefault(
-      process.env.MQTT_CONNECT_TIMEOUT,
-      DEFAULT_VALUES.MQTT.CONNECT_TIMEOUT
-    ),
-    reconnectPeriod: parseIntWithDefault(
-      process.env.MQTT_RECONNECT_PERIOD,
-      DEFAULT_VALUES.MQTT.RECONNECT_PERIOD
-    ),
-    keepalive: parseIntWithDefault(
-      process.env.MQTT_KEEPALIVE,
-      DEFAULT_VALUES.MQTT.KEEPALIVE
-    ),
-    cleanSession: parseBooleanWithDefault(
-      process.env.MQTT_CLEAN_SESSION,
-      DEFAULT_VALUES.MQTT.CLEAN_SESSION
-    ),
-    sessionExpiryInterval: parseIntWithDefault(
-      process.env.MQTT_SESSION_EXPIRY_INTERVAL,
-      DEFAULT_VALUES.MQTT.SESSION_EXPIRY_INTERVAL
-    ),
-    birthTopic:
-      process.env.MQTT_BIRTH_TOPIC ||
-      buildTopicWithPrefix(
-        process.env.MQTT_TOPIC_PREFIX || DEFAULT_VALUES.MQTT.TOPIC_PREFIX,
-        'status'
-      ),
-    birthMessage:
-      process.env.MQTT_BIRTH_MESSAGE || DEFAULT_VALUES.MQTT.BIRTH_MESSAGE,
-    willTopic:
-      process.env.MQTT_WILL_TOPIC ||
-      buildTopicWithPrefix(
-        process.env.MQTT_TOPIC_PREFIX || DEFAULT_VALUES.MQTT.TOPIC_PREFIX,
-        'status'
-      ),
-    willMessage:
-      process.env.MQTT_WILL_MESSAGE || DEFAULT_VALUES.MQTT.WILL_MESSAGE,
-    // Retained topics configuration
-    retainedTopics: parseRetainedTopics(),
-  },
-  logging: {
-    level:
-      (process.env.LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error') ||
-      DEFAULT_VALUES.LOGGING.LEVEL,
-    enableConsole: parseBooleanWithDefault(
-      process.env.LOG_CONSOLE,
-      DEFAULT_VALUES.LOGGING.ENABLE_CONSOLE
-    ),
-    enableFile: parseBooleanWithDefault(
-      process.env.LOG_FILE,
-      DEFAULT_VALUES.LOGGING.ENABLE_FILE
-    ),
-    filePath: process.env.LOG_FILE_PATH || DEFAULT_VALUES.LOGGING.FILE_PATH,
-  },
-  signalRMessageLogging: {
-    enabled: parseBooleanWithDefault(
-      process.env.SIGNALR_MESSAGE_LOGGING,
-      DEFAULT_VALUES.SIGNALR_MESSAGE_LOGGING.ENABLED
-    ),
-    filePath:
-      process.env.SIGNALR_LOG_FILE_PATH ||
-      DEFAULT_VALUES.SIGNALR_MESSAGE_LOGGING.FILE_PATH,
-    maxFileSize: parseIntWithDefault(
-      process.env.SIGNALR_LOG_MAX_FILE_SIZE,
-      DEFAULT_VALUES.SIGNALR_MESSAGE_LOGGING.MAX_FILE_SIZE
-    ),
-    maxFiles: parseIntWithDefault(
-      process.env.SIGNALR_LOG_MAX_FILES,
-      DEFAULT_VALUES.SIGNALR_MESSAGE_LOGGING.MAX_FILES
-    ),
-  },
-  sessionRecording: {
-    enabled: parseBooleanWithDefault(
-      process.env.SESSION_RECORDING_ENABLED,
-      DEFAULT_VALUES.SESSION_RECORDING.ENABLED
-    ),
-    mode: parseSessionRecordingMode(
-      process.env.SESSION_RECORDING_MODE,
-      DEFAULT_VALUES.SESSION_RECORDING.MODE
-    ),
-    recordingPath:
-      process.env.SESSION_RECORDING_PATH ||
-      DEFAULT_VALUES.SESSION_RECORDING.RECORDING_PATH,
-    maxRecordingSize: parseIntWithDefault(
-      process.env.SESSION_RECORDING_MAX_SIZE,
-      DEFAULT_VALUES.SESSION_RECORDING.MAX_RECORDING_SIZE
-    ),
-    autoStart: parseBooleanWithDefault(
-      process.env.SESSION_RECORDING_AUTO_START,
-      DEFAULT_VALUES.SESSION_RECORDING.AUTO_START
-    ),
-    sessionDetectionTimeout: parseIntWithDefault(
-      process.env.SESSION_DETECTION_TIMEOUT,
-      DEFAULT_VALUES.SESSION_RECORDING.SESSION_DETECTION_TIMEOUT
-    ),
-    filterKeepAliveMessages: parseBooleanWithDefault(
-      process.env.SESSION_RECORDING_FILTER_KEEP_ALIVE,
-      DEFAULT_VALUES.SESSION_RECORDING.FILTER_KEEP_ALIVE_MESSAGES
+/**
+ * Build the additional broker targets. They inherit topic and session
+ * settings from the primary broker, but never its credentials, TLS files or
+ * offline queue file.
+ */
+const buildBrokers = (
+  reader: EnvReader,
+  brokers: ConfigFileBrokers,
+  primary: MqttConfig
+): MqttBrokerConfig[] => {
+  const names = new Set(['primary']);
+
+  return brokers.map((broker, index) => {
+    const key = `mqtt.brokers[${index}]`;
+    if (names.has(broker.name)) {
+      reader.errors.push(`${key}.name: "${broker.name}" is already in use`);
+    }
+    names.add(broker.name);
+    validateBrokerUrl(reader, broker.brokerUrl, `${key}.brokerUrl`);
+
+    const topicPrefix = broker.topicPrefix ?? primary.topicPrefix ?? 'f1';
+    const password = reader.fileSecret(broker.password, {
+      key: `${key}.passwordFile`,
+      path: broker.passwordFile,
+    });
+    const ca = reader.fileSecret(broker.tls?.ca, {
+      key: `${key}.tls.caFile`,
+      path: broker.tls?.caFile,
+    });
+    const cert = reader.fileSecret(broker.tls?.cert, {
+      key: `${key}.tls.certFile`,
+      path: broker.tls?.certFile,
+    });
+    const tlsKey = reader.fileSecret(broker.tls?.key, {
+      key: `${key}.tls.keyFile`,
+      path: broker.tls?.keyFile,
+    });
+    const passphrase = reader.fileSecret(broker.tls?.passphrase, {
+      key: `${key}.tls.passphraseFile`,
+      path: broker.tls?.passphraseFile,
+    });
+    const streamsInclude = parseBrokerStreams(
+      reader,
+      `${key}.streamsInclude`,
+      broker.streamsInclude
+    );
+    const streamsExclude = parseBrokerStreams(
+      reader,
+      `${key}.streamsExclude`,
+      broker.streamsExclude
+    );
+
+    return {
+      name: broker.name,
+      brokerUrl: broker.brokerUrl,
+      ...(broker.username && { username: broker.username }),
+      ...(password && { password }),
+      clientId: generateClientId(
+        broker.clientId ?? `f1-mqtt-bridge-${broker.name}`
+      ),
+      topicPrefix,
+      qos: broker.qos ?? primary.qos ?? DEFAULT_VALUES.MQTT.QOS,
+      retain: broker.retain ?? primary.retain ?? DEFAULT_VALUES.MQTT.RETAIN,
+      protocolVersion:
+        broker.protocolVersion ??
+        primary.protocolVersion ??
+        DEFAULT_VALUES.MQTT.PROTOCOL_VERSION,
+      connectTimeout:
+        broker.connectTimeout ??
+        primary.connectTimeout ??
+        DEFAULT_VALUES.MQTT.CONNECT_TIMEOUT,
+      reconnectPeriod:
+        broker.reconnectPeriod ??
+        primary.reconnectPeriod ??
+        DEFAULT_VALUES.MQTT.RECONNECT_PERIOD,
+      keepalive:
+        broker.keepalive ?? primary.keepalive ?? DEFAULT_VALUES.MQTT.KEEPALIVE,
+      cleanSession:
+        broker.cleanSession ??
+        primary.cleanSession ??
+        DEFAULT_VALUES.MQTT.CLEAN_SESSION,
+      sessionExpiryInterval:
+        broker.sessionExpiryInterval ??
+        primary.sessionExpiryInterval ??
+        DEFAULT_VALUES.MQTT.SESSION_EXPIRY_INTERVAL,
+      birthTopic:
+        broker.birthTopic ?? buildTopicWithPrefix(topicPrefix, 'status'),
+      birthMessage:
+        broker.birthMessage ??
+        primary.birthMessage ??
+        DEFAULT_VALUES.MQTT.BIRTH_MESSAGE,
+      willTopic:
+        broker.willTopic ?? buildTopicWithPrefix(topicPrefix, 'status'),
+      willMessage:
+        broker.willMessage ??
+        primary.willMessage ??
+        DEFAULT_VALUES.MQTT.WILL_MESSAGE,
+      tls: {
+        ...(ca && { ca }),
+        ...(cert && { cert }),
+        ...(tlsKey && { key: tlsKey }),
+        ...(passphrase && { passphrase }),
+        rejectUnauthorized:
+          broker.tls?.rejectUnauthorized ??
+          DEFAULT_VALUES.MQTT.TLS_REJECT_UNAUTHORIZED,
+        ...(broker.tls?.servername && { servername: broker.tls.servername }),
+      },
+      wsHeaders: parseWsHeaders(reader, broker.wsHeaders, false),
+      retainedTopics: broker.retainedTopics ?? [
+        ...(primary.retainedTopics ?? []),
+      ],
+      // Commands are only accepted on the primary broker
+      commandsEnabled: false,
+      offlineQueue: {
+        enabled:
+          broker.offlineQueue?.enabled ??
+          primary.offlineQueue?.enabled ??
+          DEFAULT_VALUES.MQTT.OFFLINE_QUEUE.ENABLED,
+        maxSize:
+          broker.offlineQueue?.maxSize ??
+          primary.offlineQueue?.maxSize ??
+          DEFAULT_VALUES.MQTT.OFFLINE_QUEUE.MAX_SIZE,
+        dropPolicy:
+          broker.offlineQueue?.dropPolicy ??
+          primary.offlineQueue?.dropPolicy ??
+          DEFAULT_VALUES.MQTT.OFFLINE_QUEUE.DROP_POLICY,
+        ...(broker.offlineQueue?.persistPath && {
+          persistPath: broker.offlineQueue.persistPath,
+        }),
+      },
+      ...(streamsInclude && { streamsInclude }),
+      ...(streamsExclude && { streamsExclude }),
+    };
+  });
+};
+
+const isLoopbackHost = (host: string): boolean =>
+  host === 'localhost' || host === '::1' || /^127\./.test(host);
+
+/**
+ * Build the embedded broker settings. Credentials must be set together, and
+ * are required when the broker listens beyond the loopback interface.
+ */
+const buildEmbeddedBroker = (
+  reader: EnvReader,
+  broker: NonNullable<ConfigFile['embeddedBroker']> = {}
+): EmbeddedBrokerConfig => {
+  const enabled = reader.boolean(
+    'EMBEDDED_BROKER_ENABLED',
+    broker.enabled ?? DEFAULT_VALUES.EMBEDDED_BROKER.ENABLED
+  );
+  const port = reader.int(
+    'EMBEDDED_BROKER_PORT',
+    broker.port ?? DEFAULT_VALUES.EMBEDDED_BROKER.PORT,
+    { min: 1, max: 65535 }
+  );
+  const wsPort = reader.int(
+    'EMBEDDED_BROKER_WS_PORT',
+    broker.wsPort ?? DEFAULT_VALUES.EMBEDDED_BROKER.WS_PORT,
+    { min: 0, max: 65535 }
+  );
+  const username = reader.string('EMBEDDED_BROKER_USERNAME', broker.username);
+  const password = reader.secret('EMBEDDED_BROKER_PASSWORD', broker.password, {
+    key: 'embeddedBroker.passwordFile',
+    path: broker.passwordFile,
+  });
+
+  if (enabled && Boolean(username) !== Boolean(password)) {
+    reader.errors.push(
+      'EMBEDDED_BROKER_USERNAME and EMBEDDED_BROKER_PASSWORD: must be set together'
+    );
+  }
+  if (enabled && wsPort === port) {
+    reader.errors.push(
+      `EMBEDDED_BROKER_WS_PORT: ${wsPort} is already the TCP port`
+    );
+  }
+  const host = reader.string(
+    'EMBEDDED_BROKER_HOST',
+    broker.host ?? DEFAULT_VALUES.EMBEDDED_BROKER.HOST
+  );
+  if (enabled && !isLoopbackHost(host) && !username) {
+    reader.errors.push(
+      `EMBEDDED_BROKER_HOST: "${host}" is reachable from the network, set EMBEDDED_BROKER_USERNAME and EMBEDDED_BROKER_PASSWORD`
+    );
+  }
+
+  return {
+    enabled,
+    host,
+    port,
+    wsPort,
+    ...(username && { username }),
+    ...(password && { password }),
+    persistPath: reader.string(
+      'EMBEDDED_BROKER_PERSIST_PATH',
+      broker.persistPath ?? DEFAULT_VALUES.EMBEDDED_BROKER.PERSIST_PATH
     ),
-  },
-  server: {
-    port: parseIntWithDefault(process.env.PORT, DEFAULT_VALUES.SERVER.PORT),
-    healthCheckEndpoint:
-      process.env.HEALTH_ENDPOINT || DEFAULT_VALUES.SERVER.HEALTH_ENDPOINT,
-  },
-  homeAssistant: {
-    discoveryPrefix:
-      process.env.HA_DISCOVERY_PREFIX ||
-      DEFAULT_VALUES.HOME_ASSISTANT.DISCOVERY_PREFIX,
-    nodeId: process.env.HA_NODE_ID || DEFAULT_VALUES.HOME_ASSISTANT.NODE_ID,
-  },
+  };
 };
 
-// Export the main configuration
-export default config;
+// mqtt:// URL the bridge uses to reach its own embedded broker
+const embeddedBrokerUrl = ({ host, port }: EmbeddedBrokerConfig): string => {
+  const localHost = host === '0.0.0.0' || host === '::' ? '127.0.0.1' : host;
+  return `mqtt://${localHost.includes(':') ? `[${localHost}]` : localHost}:${port}`;
+};
 
-// Export constants for external use (e.g., documentation, tests)
-export { DEFAULT_VALUES };
+const toCommaList = (
+  value: string | string[] | undefined
+): string | undefined => (Array.isArray(value) ? value.join(',') : value);
 
-// Export utility functions for configuration helpers
-export {
-  generateClientId,
-  buildTopicWithPrefix,
-  parseIntWithDefault,
-  parseBooleanWithDefault,
+// Generated once per process so reloading the config keeps the client ids
+const CLIENT_ID_SUFFIX = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const generateClientId = (prefix: string): string => {
+  return `${prefix}-${CLIENT_ID_SUFFIX}`;
 };
+
+const buildTopicWithPrefix = (prefix: string, suffix: string): string => {
+  return `${prefix}/${suffix}`;
+};
+
+/**
+ * Build the configuration from defaults, the config file and environment
+ * variables, in increasing priority
+ * @throws ConfigError listing every invalid setting
+ */
+export function buildConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  file: ConfigFile = {}
+): AppConfig {
+  const reader = new EnvReader(env);
+  const embeddedBroker = buildEmbeddedBroker(reader, file.embeddedBroker);
+  // Without a broker of its own the bridge publishes to the embedded one
+  const useEmbeddedBroker =
+    embeddedBroker.enabled &&
+    !reader.raw('MQTT_BROKER_URL') &&
+    !file.mqtt?.brokerUrl;
+  const topicPrefix = reader.string(
+    'MQTT_TOPIC_PREFIX',
+    file.mqtt?.topicPrefix ?? DEFAULT_VALUES.MQTT.TOPIC_PREFIX
+  );
+  const accessToken = reader.secret(
+    'SIGNALR_ACCESS_TOKEN',
+    file.signalR?.accessToken
+  );
+  const username = reader.string(
+    'MQTT_USERNAME',
+    file.mqtt?.username ??
+      (useEmbeddedBroker ? embeddedBroker.username : undefined)
+  );
+  const password =
+    reader.secret('MQTT_PASSWORD', file.mqtt?.password, {
+      key: 'mqtt.passwordFile',
+      path: file.mqtt?.passwordFile,
+    }) ?? (useEmbeddedBroker ? embeddedBroker.password : undefined);
+  const fileTls = file.mqtt?.tls;
+  const tlsCa = reader.secret('MQTT_TLS_CA', fileTls?.ca, {
+    key: 'mqtt.tls.caFile',
+    path: fileTls?.caFile,
+  });
+  const tlsCert = reader.secret('MQTT_TLS_CERT', fileTls?.cert, {
+    key: 'mqtt.tls.certFile',
+    path: fileTls?.certFile,
+  });
+  const tlsKey = reader.secret('MQTT_TLS_KEY', fileTls?.key, {
+    key: 'mqtt.tls.keyFile',
+    path: fileTls?.keyFile,
+  });
+  const tlsPassphrase = reader.secret(
+    'MQTT_TLS_KEY_PASSPHRASE',
+    fileTls?.passphrase,
+    { key: 'mqtt.tls.passphraseFile', path: fileTls?.passphraseFile }
+  );
+  const tlsServername = reader.string(
+    'MQTT_TLS_SERVERNAME',
+    fileTls?.servername
+  );
+  const persistPath = reader.string(
+    'MQTT_OFFLINE_QUEUE_PATH',
+    file.mqtt?.offlineQueue?.persistPath
+  );
+  const replayFile = reader.string('REPLAY_FILE', file.replay?.file);
+  const retainedTopics = reader.raw('MQTT_RETAINED_TOPICS');
+
+  let streams: string[] = [];
+  try {
+    streams = resolveStreamSelection(
+      {
+        set:
+          reader.raw('SIGNALR_STREAM_SET') ??
+          toCommaList(file.signalR?.streamSet),
+        include:
+          reader.raw('SIGNALR_STREAMS_INCLUDE') ??
+          toCommaList(file.signalR?.streamsInclude),
+        exclude:
+          reader.raw('SIGNALR_STREAMS_EXCLUDE') ??
+          toCommaList(file.signalR?.streamsExclude),
+      },
+      DEFAULT_VALUES.SIGNALR.STREAM_SET
+    );
+  } catch (error) {
+    reader.errors.push((error as Error).message);
+  }
+
+  const config: AppConfig = {
+    signalR: {
+      hubUrl: reader.string(
+        'SIGNALR_HUB_URL',
+        file.signalR?.hubUrl ?? DEFAULT_VALUES.SIGNALR.HUB_URL
+      ),
+      hubName: reader.string(
+        'SIGNALR_HUB_NAME',
+        file.signalR?.hubName ?? DEFAULT_VALUES.SIGNALR.HUB_NAME
+      ),
+      ...(accessToken && { accessToken }),
+      automaticReconnect:
+        file.signalR?.automaticReconnect ??
+        DEFAULT_VALUES.SIGNALR.AUTOMATIC_RECONNECT,
+      reconnectDelays:
+        file.signalR?.reconnectDelays ??
+        DEFAULT_VALUES.SIGNALR.RECONNECT_DELAYS,
+      // F1 Live Timing API endpoints - configurable for development
+      negotiateUrl: reader.string(
+        'F1_NEGOTIATE_URL',
+        file.signalR?.negotiateUrl ?? DEFAULT_VALUES.SIGNALR.NEGOTIATE_URL
+      ),
+      connectUrl: reader.string(
+        'F1_CONNECT_URL',
+        file.signalR?.connectUrl ?? DEFAULT_VALUES.SIGNALR.CONNECT_URL
+      ),
+      streams,
+    },
+    mqtt: {
+      brokerUrl: useEmbeddedBroker
+        ? embeddedBrokerUrl(embeddedBroker)
+        : reader.string(
+            'MQTT_BROKER_URL',
+            file.mqtt?.brokerUrl ?? DEFAULT_VALUES.MQTT.BROKER_URL
+          ),
+      ...(username && { username }),
+      ...(password && { password }),
+      clientId: generateClientId(
+        reader.string('MQTT_CLIENT_ID', file.mqtt?.clientId ?? 'f1-mqtt-bridge')
+      ),
+      topicPrefix,
+      qos: reader.oneOf(
+        'MQTT_QOS',
+        [0, 1, 2],
+        file.mqtt?.qos ?? DEFAULT_VALUES.MQTT.QOS
+      ),
+      retain: reader.boolean(
+        'MQTT_RETAIN',
+        file.mqtt?.retain ?? DEFAULT_VALUES.MQTT.RETAIN
+      ),
+      protocolVersion: reader.oneOf(
+        'MQTT_PROTOCOL_VERSION',
+        [3, 4, 5],
+        file.mqtt?.protocolVersion ?? DEFAULT_VALUES.MQTT.PROTOCOL_VERSION
+      ),
+      connectTimeout: reader.int(
+        'MQTT_CONNECT_TIMEOUT',
+        file.mqtt?.connectTimeout ?? DEFAULT_VALUES.MQTT.CONNECT_TIMEOUT,
+        { min: 0 }
+      ),
+      reconnectPeriod: reader.int(
+        'MQTT_RECONNECT_PERIOD',
+        file.mqtt?.reconnectPeriod ?? DEFAULT_VALUES.MQTT.RECONNECT_PERIOD,
+        { min: 0 }
+      ),
+      keepalive: reader.int(
+        'MQTT_KEEPALIVE',
+        file.mqtt?.keepalive ?? DEFAULT_VALUES.MQTT.KEEPALIVE,
+        { min: 0 }
+      ),
+      cleanSession: reader.boolean(
+        'MQTT_CLEAN_SESSION',
+        file.mqtt?.cleanSession ?? DEFAULT_VALUES.MQTT.CLEAN_SESSION
+      ),
+      sessionExpiryInterval: reader.int(
+        'MQTT_SESSION_EXPIRY_INTERVAL',
+        file.mqtt?.sessionExpiryInterval ??
+          DEFAULT_VALUES.MQTT.SESSION_EXPIRY_INTERVAL,
+        { min: 0 }
+      ),
+      birthTopic: reader.string(
+        'MQTT_BIRTH_TOPIC',
+        file.mqtt?.birthTopic ?? buildTopicWithPrefix(topicPrefix, 'status')
+      ),
+      birthMessage: reader.string(
+        'MQTT_BIRTH_MESSAGE',
+        file.mqtt?.birthMessage ?? DEFAULT_VALUES.MQTT.BIRTH_MESSAGE
+      ),
+      willTopic: reader.string(
+        'MQTT_WILL_TOPIC',
+        file.mqtt?.willTopic ?? buildTopicWithPrefix(topicPrefix, 'status')
+      ),
+      willMessage: reader.string(
+        'MQTT_WILL_MESSAGE',
+        file.mqtt?.willMessage ?? DEFAULT_VALUES.MQTT.WILL_MESSAGE
+      ),
+      tls: {
+        ...(tlsCa && { ca: tlsCa }),
+        ...(tlsCert && { cert: tlsCert }),
+        ...(tlsKey && { key: tlsKey }),
+        ...(tlsPassphrase && { passphrase: tlsPassphrase }),
+        rejectUnauthorized: reader.boolean(
+          'MQTT_TLS_REJECT_UNAUTHORIZED',
+          fileTls?.rejectUnauthorized ??
+            DEFAULT_VALUES.MQTT.TLS_REJECT_UNAUTHORIZED
+        ),
+        ...(tlsServername && { servername: tlsServername }),
+      },
+      wsHeaders: parseWsHeaders(reader, file.mqtt?.wsHeaders),
+      // Retained topics configuration
+      retainedTopics: retainedTopics
+        ? parseTopicList(retainedTopics)
+        : (file.mqtt?.retainedTopics ?? [
+            ...DEFAULT_VALUES.MQTT.RETAINED_TOPICS,
+          ]),
+      streamTopics: normalizeStreamTopics(reader, file.mqtt?.streamTopics),
+      driverTopics: reader.boolean(
+        'MQTT_DRIVER_TOPICS',
+        file.mqtt?.driverTopics ?? DEFAULT_VALUES.MQTT.DRIVER_TOPICS
+      ),
+      commandsEnabled: reader.boolean(
+        'MQTT_COMMANDS_ENABLED',
+        file.mqtt?.commandsEnabled ?? DEFAULT_VALUES.MQTT.COMMANDS_ENABLED
+      ),
+      offlineQueue: {
+        enabled: reader.boolean(
+          'MQTT_OFFLINE_QUEUE_ENABLED',
+          file.mqtt?.offlineQueue?.enabled ??
+            DEFAULT_VALUES.MQTT.OFFLINE_QUEUE.ENABLED
+        ),
+        maxSize: reader.int(
+          'MQTT_OFFLINE_QUEUE_MAX_SIZE',
+          file.mqtt?.offlineQueue?.maxSize ??
+            DEFAULT_VALUES.MQTT.OFFLINE_QUEUE.MAX_SIZE,
+          { min: 1 }
+        ),
+        dropPolicy: reader.oneOf(
+          'MQTT_OFFLINE_QUEUE_POLICY',
+          OFFLINE_QUEUE_DROP_POLICIES,
+          file.mqtt?.offlineQueue?.dropPolicy ??
+            DEFAULT_VALUES.MQTT.OFFLINE_QUEUE.DROP_POLICY
+        ),
+        ...(persistPath && { persistPath }),
+      },
+    },
+    embeddedBroker,
+    logging: {
+      level: reader.oneOf(
+        'LOG_LEVEL',
+        LOG_LEVELS,
+        file.logging?.level ?? DEFAULT_VALUES.LOGGING.LEVEL
+      ),
+      enableConsole: reader.boolean(
+        'LOG_CONSOLE',
+        file.logging?.enableConsole ?? DEFAULT_VALUES.LOGGING.ENABLE_CONSOLE
+      ),
+      enableFile: reader.boolean(
+        'LOG_FILE',
+        file.logging?.enableFile ?? DEFAULT_VALUES.LOGGING.ENABLE_FILE
+      ),
+      filePath: reader.string(
+        'LOG_FILE_PATH',
+        file.logging?.filePath ?? DEFAULT_VALUES.LOGGING.FILE_PATH
+      ),
+    },
+    signalRMessageLogging: {
+      enabled: reader.boolean(
+        'SIGNALR_MESSAGE_LOGGING',
+        file.signalRMessageLogging?.enabled ??
+          DEFAULT_VALUES.SIGNALR_MESSAGE_LOGGING.ENABLED
+      ),
+      filePath: reader.string(
+        'SIGNALR_LOG_FILE_PATH',
+        file.signalRMessageLogging?.filePath ??
+          DEFAULT_VALUES.SIGNALR_MESSAGE_LOGGING.FILE_PATH
+      ),
+      maxFileSize: reader.int(
+        'SIGNALR_LOG_MAX_FILE_SIZE',
+        file.signalRMessageLogging?.maxFileSize ??
+          DEFAULT_VALUES.SIGNALR_MESSAGE_LOGGING.MAX_FILE_SIZE,
+        { min: 1 }
+      ),
+      maxFiles: reader.int(
+        'SIGNALR_LOG_MAX_FILES',
+        file.signalRMessageLogging?.maxFiles ??
+          DEFAULT_VALUES.SIGNALR_MESSAGE_LOGGING.MAX_FILES,
+        { min: 1 }
+      ),
+    },
+    sessionRecording: {
+      enabled: reader.boolean(
+        'SESSION_RECORDING_ENABLED',
+        file.sessionRecording?.enabled ??
+          DEFAULT_VALUES.SESSION_RECORDING.ENABLED
+      ),
+      mode: reader.oneOf(
+        'SESSION_RECORDING_MODE',
+        SESSION_RECORDING_MODES,
+        file.sessionRecording?.mode ?? DEFAULT_VALUES.SESSION_RECORDING.MODE
+      ),
+      format: reader.oneOf(
+        'SESSION_RECORDING_FORMAT',
+        SESSION_RECORDING_FORMATS,
+        file.sessionRecording?.format ?? DEFAULT_VALUES.SESSION_RECORDING.FORMAT
+      ),
+      gzip: reader.boolean(
+        'SESSION_RECORDING_GZIP',
+        file.sessionRecording?.gzip ?? DEFAULT_VALUES.SESSION_RECORDING.GZIP
+      ),
+      recordingPath: reader.string(
+        'SESSION_RECORDING_PATH',
+        file.sessionRecording?.recordingPath ??
+          DEFAULT_VALUES.SESSION_RECORDING.RECORDING_PATH
+      ),
+      maxRecordingSize: reader.int(
+        'SESSION_RECORDING_MAX_SIZE',
+        file.sessionRecording?.maxRecordingSize ??
+          DEFAULT_VALUES.SESSION_RECORDING.MAX_RECORDING_SIZE,
+        { min: 1 }
+      ),
+      autoStart: reader.boolean(
+        'SESSION_RECORDING_AUTO_START',
+        file.sessionRecording?.autoStart ??
+          DEFAULT_VALUES.SESSION_RECORDING.AUTO_START
+      ),
+      sessionDetectionTimeout: reader.int(
+        'SESSION_DETECTION_TIMEOUT',
+        file.sessionRecording?.sessionDetectionTimeout ??
+          DEFAULT_VALUES.SESSION_RECORDING.SESSION_DETECTION_TIMEOUT,
+        { min: 0 }
+      ),
+      filterKeepAliveMessages: reader.boolean(
+        'SESSION_RECORDING_FILTER_KEEP_ALIVE',
+        file.sessionRecording?.filterKeepAliveMessages ??
+          DEFAULT_VALUES.SESSION_RECORDING.FILTER_KEEP_ALIVE_MESSAGES
+      ),
+    },
+    sessionState: {
+      publishMode: reader.oneOf(
+        'SESSION_STATE_PUBLISH_MODE',
+        STREAM_PUBLISH_MODES,
+        file.sessionState?.publishMode ??
+          DEFAULT_VALUES.SESSION_STATE.PUBLISH_MODE
+      ),
+      streamPublishModes: parseStreamPublishModes(
+        reader,
+        file.sessionState?.streamPublishModes
+      ),
+    },
+    analytics: {
+      lapHistory: reader.boolean(
+        'LAP_HISTORY_ENABLED',
+        file.analytics?.lapHistory ?? DEFAULT_VALUES.ANALYTICS.LAP_HISTORY
+      ),
+      raceControl: reader.boolean(
+        'RACE_CONTROL_ENABLED',
+        file.analytics?.raceControl ?? DEFAULT_VALUES.ANALYTICS.RACE_CONTROL
+      ),
+      statusTracker: reader.boolean(
+        'STATUS_TRACKER_ENABLED',
+        file.analytics?.statusTracker ?? DEFAULT_VALUES.ANALYTICS.STATUS_TRACKER
+      ),
+      leaderboard: reader.boolean(
+        'LEADERBOARD_ENABLED',
+        file.analytics?.leaderboard ?? DEFAULT_VALUES.ANALYTICS.LEADERBOARD
+      ),
+      leaderboardTopN: reader.int(
+        'LEADERBOARD_TOP_N',
+        file.analytics?.leaderboardTopN ??
+          DEFAULT_VALUES.ANALYTICS.LEADERBOARD_TOP_N,
+        { min: 0 }
+      ),
+      stintTracker: reader.boolean(
+        'STINT_TRACKER_ENABLED',
+        file.analytics?.stintTracker ?? DEFAULT_VALUES.ANALYTICS.STINT_TRACKER
+      ),
+    },
+    replay: {
+      ...(replayFile && { file: replayFile }),
+      speed: reader.float(
+        'REPLAY_SPEED',
+        file.replay?.speed ?? DEFAULT_VALUES.REPLAY.SPEED
+      ),
+      loop: reader.boolean(
+        'REPLAY_LOOP',
+        file.replay?.loop ?? DEFAULT_VALUES.REPLAY.LOOP
+      ),
+    },
+    server: {
+      port: reader.int(
+        'PORT',
+        file.server?.port ?? DEFAULT_VALUES.SERVER.PORT,
+        {
+          min: 1,
+          max: 65535,
+        }
+      ),
+      healthCheckEndpoint: reader.string(
+        'HEALTH_ENDPOINT',
+        file.server?.healthCheckEndpoint ??
+          DEFAULT_VALUES.SERVER.HEALTH_ENDPOINT
+      ),
+    },
+    homeAssistant: {
+      discoveryPrefix: reader.string(
+        'HA_DISCOVERY_PREFIX',
+        file.homeAssistant?.discoveryPrefix ??
+          DEFAULT_VALUES.HOME_ASSISTANT.DISCOVERY_PREFIX
+      ),
+      nodeId: reader.string(
+        'HA_NODE_ID',
+        file.homeAssistant?.nodeId ?? DEFAULT_VALUES.HOME_ASSISTANT.NODE_ID
+      ),
+    },
+  };
+
+  config.mqtt.brokers = buildBrokers(
+    reader,
+    file.mqtt?.brokers ?? [],
+    config.mqtt
+  );
+  validateBrokerUrl(reader, config.mqtt.brokerUrl);
+  if (Boolean(config.mqtt.tls?.cert) !== Boolean(config.mqtt.tls?.key)) {
+    reader.errors.push(
+      'MQTT_TLS_CERT and MQTT_TLS_KEY: client certificate and key must be set together'
+    );
+  }
+  if (config.replay.speed <= 0) {
+    reader.errors.push(`REPLAY_SPEED: ${config.replay.speed} must be above 0`);
+  }
+
+  if (reader.errors.length > 0) {
+    throw new ConfigError(reader.errors);
+  }
+
+  return config;
+}
+
+/**
+ * Load the configuration, reading the config file named by CONFIG_FILE
+ * @throws ConfigError for an unreadable or invalid file or invalid settings
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const configFile = env.CONFIG_FILE?.trim();
+  return buildConfig(env, configFile ? loadConfigFile(configFile) : {});
+}
+
+let config: AppConfig | null = null;
+
+/**
+ * The configuration of this process, loaded on first use
+ * @throws ConfigError for an unreadable or invalid file or invalid settings
+ */
+export function getConfig(): AppConfig {
+  config ??= loadConfig();
+  return config;
+}
@@ -0,0 +1,235 @@
+/**
+ * F1 Live Timing Stream Types
+ *
+ * Enumeration of all available F1 Live Timing data streams.
+ * Each stream provides different types of real-time race data.
+ *
+ * Kept apart from the SignalR client so the configuration can validate
+ * stream names without importing the client.
+ */
+export enum F1Stream {
+  // Race Control and Status
+  RACE_CONTROL_MESSAGES = 'RaceControlMessages',
+  TRACK_STATUS = 'TrackStatus',
+  SESSION_INFO = 'SessionInfo',
+  SESSION_DATA = 'SessionData',
+  SESSION_STATUS = 'SessionStatus',
+  HEARTBEAT = 'Heartbeat',
+
+  // Timing and Position Data
+  TIMING_DATA = 'TimingData',
+  TIMING_DATA_F1 = 'TimingDataF1',
+  CAR_DATA = 'CarData.z',
+  POSITION = 'Position.z',
+  EXTRAPOLATED_CLOCK = 'ExtrapolatedClock',
+  LAP_COUNT = 'LapCount',
+  DRIVER_RACE_INFO = 'DriverRaceInfo',
+
+  // Statistics and Analysis
+  TOP_THREE = 'TopThree',
+  RCM_SERIES = 'RcmSeries',
+  TIMING_STATS = 'TimingStats',
+  TIMING_APP_DATA = 'TimingAppData',
+  PIT_LANE_TIME_COLLECTION = 'PitLaneTimeCollection',
+  TYRE_STINT_SERIES = 'TyreStintSeries',
+  LAP_SERIES = 'LapSeries',
+  CHAMPIONSHIP_PREDICTION = 'ChampionshipPrediction',
+
+  // Additional Data
+  WEATHER_DATA = 'WeatherData',
+  DRIVER_LIST = 'DriverList',
+  TEAM_RADIO = 'TeamRadio',
+  AUDIO_STREAMS = 'AudioStreams',
+  CONTENT_STREAMS = 'ContentStreams',
+}
+
+// The compressed telemetry streams are only added by FULL_TELEMETRY
+const FULL_STREAMS = [
+  F1Stream.RACE_CONTROL_MESSAGES,
+  F1Stream.TIMING_DATA,
+  F1Stream.EXTRAPOLATED_CLOCK,
+  F1Stream.TOP_THREE,
+  F1Stream.RCM_SERIES,
+  F1Stream.TIMING_STATS,
+  F1Stream.TIMING_APP_DATA,
+  F1Stream.PIT_LANE_TIME_COLLECTION,
+  F1Stream.TYRE_STINT_SERIES,
+  F1Stream.LAP_SERIES,
+  F1Stream.DRIVER_RACE_INFO,
+  F1Stream.CHAMPIONSHIP_PREDICTION,
+  F1Stream.TEAM_RADIO,
+  F1Stream.WEATHER_DATA,
+  F1Stream.TRACK_STATUS,
+  F1Stream.DRIVER_LIST,
+  F1Stream.SESSION_INFO,
+  F1Stream.SESSION_DATA,
+  F1Stream.SESSION_STATUS,
+  F1Stream.HEARTBEAT,
+  F1Stream.LAP_COUNT,
+] as const;
+
+/**
+ * Predefined stream sets for different use cases
+ *
+ * BASIC: Minimal set for basic race monitoring
+ * ESSENTIAL: Essential race data for timing and position
+ * FULL: Complete data set with all available streams (default)
+ * FULL_TELEMETRY: FULL plus decoded car telemetry and car positions
+ * ALL: All available streams
+ */
+export const F1_STREAM_SETS = {
+  // Minimal set for basic race monitoring
+  BASIC: [
+    F1Stream.RACE_CONTROL_MESSAGES,
+    F1Stream.TRACK_STATUS,
+    F1Stream.SESSION_DATA,
+    F1Stream.SESSION_INFO,
+    F1Stream.SESSION_STATUS,
+  ],
+
+  // Essential race data
+  ESSENTIAL: [
+    F1Stream.RACE_CONTROL_MESSAGES,
+    F1Stream.TRACK_STATUS,
+    // F1Stream.TIMING_DATA,
+    // F1Stream.POSITION,
+    F1Stream.SESSION_DATA,
+    F1Stream.SESSION_INFO,
+    F1Stream.SESSION_STATUS,
+  ],
+
+  // Full data set
+  FULL: FULL_STREAMS,
+
+  // Full data set including compressed telemetry streams
+  FULL_TELEMETRY: [...FULL_STREAMS, F1Stream.CAR_DATA, F1Stream.POSITION],
+
+  // All available streams
+  ALL: Object.values(F1Stream),
+} as const;
+
+/**
+ * Event types (and so MQTT topics) of streams whose lowercased name would be
+ * hard to read, e.g. 'championship_prediction' instead of
+ * 'championshipprediction'. Other streams keep the lowercased stream name.
+ */
+export const F1_STREAM_EVENT_TYPES: Partial<Record<string, string>> = {
+  [F1Stream.SESSION_STATUS]: 'session_status',
+  [F1Stream.TIMING_DATA_F1]: 'timing_data_f1',
+  [F1Stream.DRIVER_RACE_INFO]: 'driver_race_info',
+  [F1Stream.PIT_LANE_TIME_COLLECTION]: 'pit_lane_times',
+  [F1Stream.TYRE_STINT_SERIES]: 'tyre_stints',
+  [F1Stream.LAP_SERIES]: 'lap_series',
+  [F1Stream.CHAMPIONSHIP_PREDICTION]: 'championship_prediction',
+  [F1Stream.TEAM_RADIO]: 'team_radio',
+  [F1Stream.AUDIO_STREAMS]: 'audio_streams',
+  [F1Stream.CONTENT_STREAMS]: 'content_streams',
+};
+
+export const getStreamEventType = (streamName: string): string =>
+  F1_STREAM_EVENT_TYPES[streamName] ??
+  streamName.toLowerCase().replace(/[^a-z0-9]/g, '_');
+
+export type F1StreamSetName = keyof typeof F1_STREAM_SETS;
+
+export interface StreamSelection {
+  // Preset name or comma-separated stream names
+  set?: string | undefined;
+  // Comma-separated stream names added to / removed from the set
+  include?: string | undefined;
+  exclude?: string | undefined;
+}
+
+const splitList = (value: string | undefined): string[] =>
+  (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+/**
+ * Match stream names against F1Stream, case-insensitive
+ */
+export function parseStreamNames(names: readonly string[]): {
+  streams: F1Stream[];
+  unknown: string[];
+} {
+  const knownStreams = Object.values(F1Stream);
+  const streams: F1Stream[] = [];
+  const unknown: string[] = [];
+
+  for (const name of names) {
+    const stream = knownStreams.find(
+      (known) => known.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (!stream) {
+      unknown.push(name);
+    } else if (!streams.includes(stream)) {
+      streams.push(stream);
+    }
+  }
+
+  return { streams, unknown };
+}
+
+const parseStreamList = (variable: string, value: string): F1Stream[] => {
+  const { streams, unknown } = parseStreamNames(splitList(value));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid ${variable}: unknown streams ${unknown.join(', ')}. ` +
+        `Valid streams: ${Object.values(F1Stream).join(', ')}`
+    );
+  }
+  return streams;
+};
+
+/**
+ * Resolve the streams to subscribe from SIGNALR_STREAM_SET,
+ * SIGNALR_STREAMS_INCLUDE and SIGNALR_STREAMS_EXCLUDE
+ * @throws Error naming the unknown streams and the valid names
+ */
+export function resolveStreamSelection(
+  selection: StreamSelection,
+  defaultSet: F1StreamSetName = 'FULL'
+): F1Stream[] {
+  const set = selection.set?.trim() || defaultSet;
+  const preset = set.toUpperCase();
+
+  let streams: F1Stream[];
+  if (preset in F1_STREAM_SETS) {
+    streams = [...F1_STREAM_SETS[preset as F1StreamSetName]];
+  } else if (
+    set.includes(',') ||
+    parseStreamNames([set]).unknown.length === 0
+  ) {
+    streams = parseStreamList('SIGNALR_STREAM_SET', set);
+  } else {
+    throw new Error(
+      `Invalid SIGNALR_STREAM_SET "${set}": expected one of ` +
+        `${Object.keys(F1_STREAM_SETS).join(', ')} or a comma-separated ` +
+        `list of streams (${Object.values(F1Stream).join(', ')})`
+    );
+  }
+
+  if (selection.include) {
+    for (const stream of parseStreamList(
+      'SIGNALR_STREAMS_INCLUDE',
+      selection.include
+    )) {
+      if (!streams.includes(stream)) streams.push(stream);
+    }
+  }
+
+  if (selection.exclude) {
+    const excluded = parseStreamList(
+      'SIGNALR_STREAMS_EXCLUDE',
+      selection.exclude
+    );
+    streams = streams.filter((stream) => !excluded.includes(stream));
+  }
+
+  if (streams.length === 0) {
+    throw new Error('SIGNALR_STREAM_SET selects no streams');
+  }
+
+  return streams;
+}
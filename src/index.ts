@@ -1,12 +1,28 @@
 // Load environment variables with .env.local support
-import './config/env-loader';
+import { readEnvironment } from './config/env-loader';
 
+import path from 'path';
 import { SignalRClient } from './services/signalr-client';
 import { MqttPublisher } from './services/mqtt-publisher';
-import { EventProcessor } from './services/event-processor';
+import { BrokerTarget, EventProcessor } from './services/event-processor';
 import { HealthServer } from './services/health-server';
+import { createRecordingsRouter } from './services/recordings-router';
+import { createApiRouter } from './services/api-router';
+import { createDashboardRouter } from './services/dashboard-router';
+import { HomeAssistantDiscovery } from './services/homeassistant-discovery';
+import { CommandHandler } from './services/command-handler';
+import { LapHistory } from './services/lap-history';
+import { RaceControl } from './services/race-control';
+import { StatusTracker } from './services/status-tracker';
+import { Leaderboard } from './services/leaderboard';
+import { StintTracker } from './services/stint-tracker';
+import { ConfigReloader } from './services/config-reloader';
+import { EmbeddedBroker } from './services/embedded-broker';
+import { LiveStream } from './services/live-stream';
+import { BridgeMetrics } from './services/bridge-metrics';
 import { logger } from './utils/logger';
-import config from './config';
+import { ConfigError, getConfig, loadConfig, redactConfig } from './config';
+import { AppConfig, EventAnalyzer } from './types';
 
 // Memory leak detection and monitoring
 class MemoryMonitor {
@@ -73,10 +89,22 @@ class F1MqttBridge {
   private mqttPublisher: MqttPublisher;
   private eventProcessor: EventProcessor;
   private healthServer: HealthServer;
+  private homeAssistantDiscovery: HomeAssistantDiscovery | null = null;
+  private commandHandler: CommandHandler;
+  private lapHistory: LapHistory | null = null;
+  private raceControl: RaceControl | null = null;
+  private statusTracker: StatusTracker | null = null;
+  private leaderboard: Leaderboard | null = null;
+  private stintTracker: StintTracker | null = null;
+  private configReloader: ConfigReloader;
+  private embeddedBroker: EmbeddedBroker | null = null;
+  private liveStream: LiveStream;
   private memoryMonitor: MemoryMonitor;
+  private config: AppConfig;
   private isShuttingDown = false;
 
-  constructor() {
+  constructor(config: AppConfig = getConfig()) {
+    this.config = config;
     // Initialize memory monitoring
     this.memoryMonitor = new MemoryMonitor();
     // Initialize logger with configuration
@@ -91,16 +119,138 @@ class F1MqttBridge {
     Object.assign(logger, loggerInstance);
 
     // Initialize services
+    if (config.embeddedBroker.enabled) {
+      // Only the bridge's own clients may publish to its topics
+      const publishers = [config.mqtt, ...(config.mqtt.brokers ?? [])];
+      this.embeddedBroker = new EmbeddedBroker(config.embeddedBroker, {
+        topicPrefixes: publishers.map((mqtt) => mqtt.topicPrefix || 'f1'),
+        bridgeClientIds: publishers.flatMap((mqtt) =>
+          mqtt.clientId ? [mqtt.clientId] : []
+        ),
+      });
+    }
     this.signalRClient = new SignalRClient(config.signalR);
     this.mqttPublisher = new MqttPublisher(config.mqtt);
+    const brokers: BrokerTarget[] = (config.mqtt.brokers ?? []).map(
+      (broker) => ({
+        name: broker.name,
+        publisher: new MqttPublisher(broker),
+        ...(broker.streamsInclude && { streamsInclude: broker.streamsInclude }),
+        ...(broker.streamsExclude && { streamsExclude: broker.streamsExclude }),
+      })
+    );
+
+    const analyzers: EventAnalyzer[] = [];
+    if (config.analytics.lapHistory) {
+      this.lapHistory = new LapHistory();
+      analyzers.push(this.lapHistory);
+    }
+    if (config.analytics.raceControl) {
+      this.raceControl = new RaceControl();
+      analyzers.push(this.raceControl);
+    }
+    if (config.analytics.statusTracker) {
+      this.statusTracker = new StatusTracker();
+      analyzers.push(this.statusTracker);
+    }
+    if (config.analytics.leaderboard) {
+      this.leaderboard = new Leaderboard(config.analytics.leaderboardTopN);
+      analyzers.push(this.leaderboard);
+    }
+    if (config.analytics.stintTracker) {
+      this.stintTracker = new StintTracker();
+      analyzers.push(this.stintTracker);
+    }
+
     this.eventProcessor = new EventProcessor(
       this.signalRClient,
-      this.mqttPublisher
+      this.mqttPublisher,
+      {
+        publishMode: config.sessionState.publishMode,
+        streamPublishModes: config.sessionState.streamPublishModes,
+        driverTopics: config.mqtt.driverTopics ?? true,
+        analyzers,
+        streamTopics: config.mqtt.streamTopics ?? {},
+        brokers,
+      }
     );
     this.healthServer = new HealthServer(
       this.eventProcessor,
       config.server.port,
-      config.server.healthCheckEndpoint
+      config.server.healthCheckEndpoint,
+      () => redactConfig(config)
+    );
+    this.healthServer.mountRouter(
+      '/recordings',
+      createRecordingsRouter(this.signalRClient)
+    );
+    this.healthServer.mountRouter(
+      '/api',
+      createApiRouter({
+        sessionState: this.signalRClient.getSessionState(),
+        leaderboard: this.leaderboard,
+        lapHistory: this.lapHistory,
+        raceControl: this.raceControl,
+        statusTracker: this.statusTracker,
+        stintTracker: this.stintTracker,
+      })
+    );
+    this.liveStream = new LiveStream(
+      this.eventProcessor,
+      this.signalRClient.getSessionState()
+    );
+    this.healthServer.mountRouter('/stream', this.liveStream.createSseRouter());
+    this.healthServer.mountWebSocket(
+      '/ws',
+      this.liveStream.getWebSocketServer()
+    );
+    this.healthServer.mountRouter('/ui', createDashboardRouter());
+    const metrics = new BridgeMetrics(this.signalRClient, this.eventProcessor, [
+      { name: 'primary', publisher: this.mqttPublisher },
+      ...brokers,
+    ]);
+    this.healthServer.addMetrics(() => metrics.render());
+
+    this.commandHandler = new CommandHandler(
+      this.signalRClient,
+      this.eventProcessor,
+      this.mqttPublisher
+    );
+
+    if (config.homeAssistant) {
+      this.homeAssistantDiscovery = new HomeAssistantDiscovery(
+        this.mqttPublisher,
+        this.signalRClient.getSessionState(),
+        {
+          discoveryPrefix: config.homeAssistant.discoveryPrefix,
+          nodeId: config.homeAssistant.nodeId,
+          topicPrefix: config.mqtt.topicPrefix || 'f1',
+          swVersion: process.env.npm_package_version || '1.0.0',
+        }
+      );
+    }
+
+    this.configReloader = new ConfigReloader(
+      config,
+      {
+        setRetainedTopics: (retainedTopics): void =>
+          this.mqttPublisher.setRetainedTopics(retainedTopics),
+        setLogLevel: (level): void => logger.setLevel(level),
+        setStreams: async (streams): Promise<void> => {
+          this.signalRClient.setStreamSet(streams);
+          if (this.signalRClient.isConnected()) {
+            await this.signalRClient.resubscribe();
+          }
+        },
+        setRecordingMode: (mode): void =>
+          this.signalRClient.setRecordingMode(mode),
+      },
+      {
+        load: (): AppConfig => loadConfig(readEnvironment()),
+        watchFiles: [process.env.CONFIG_FILE, '.env', '.env.local']
+          .filter((file): file is string => !!file?.trim())
+          .map((file) => path.resolve(file.trim())),
+      }
     );
 
     this.setupEventHandlers();
@@ -129,6 +279,13 @@ class F1MqttBridge {
 
     this.eventProcessor.on('event-published', (event: any) => {
       logger.debug('Event published to MQTT', { eventType: event.eventType });
+
+      this.homeAssistantDiscovery?.handleEvent(event).catch((error: Error) => {
+        logger.warn('Failed to update Home Assistant entities', {
+          error: error.message,
+          eventType: event.eventType,
+        });
+      });
     });
 
     this.eventProcessor.on('event-error', (error: Error, event: any) => {
@@ -203,25 +360,29 @@ class F1MqttBridge {
       // Start memory monitoring
       this.memoryMonitor.start();
 
+      // Apply runtime-safe config changes on SIGHUP or file changes
+      this.configReloader.start();
+
       // Start health server first
       await this.healthServer.start();
       logger.info('Health server started', {
-        port: config.server.port,
-        healthEndpoint: config.server.healthCheckEndpoint,
+        port: this.config.server.port,
+        healthEndpoint: this.config.server.healthCheckEndpoint,
       });
 
+      // The publisher may connect to the embedded broker, start it first
+      await this.embeddedBroker?.start();
+
       // Start event processor (which will connect SignalR and MQTT)
       await this.eventProcessor.start();
 
       // Publish Home Assistant discovery messages if configured
-      if (config.homeAssistant) {
-        await this.setupHomeAssistantDiscovery();
-      }
+      await this.setupHomeAssistantDiscovery();
 
       logger.info('F1 MQTT Bridge started successfully', {
-        signalR: config.signalR.hubUrl,
-        mqtt: config.mqtt.brokerUrl,
-        topicPrefix: config.mqtt.topicPrefix,
+        signalR: this.config.signalR.hubUrl,
+        mqtt: this.config.mqtt.brokerUrl,
+        topicPrefix: this.config.mqtt.topicPrefix,
       });
     } catch (error) {
       logger.error('Failed to start F1 MQTT Bridge', {
@@ -232,30 +393,11 @@ class F1MqttBridge {
   }
 
   private async setupHomeAssistantDiscovery(): Promise<void> {
+    if (!this.homeAssistantDiscovery) return;
+
     try {
       logger.info('Setting up Home Assistant discovery...');
-
-      const deviceConfig = {
-        device: {
-          identifiers: [`${config.homeAssistant?.nodeId}`],
-          name: 'F1 Telemetry',
-          model: 'F1 MQTT Bridge',
-          manufacturer: 'Custom',
-          sw_version: process.env.npm_package_version || '1.0.0',
-        },
-        availability: {
-          topic: `${config.mqtt.topicPrefix}/status`,
-          payload_available: 'online',
-          payload_not_available: 'offline',
-        },
-        state_topic: `${config.mqtt.topicPrefix}/state`,
-        json_attributes_topic: `${config.mqtt.topicPrefix}/attributes`,
-        name: 'F1 Session Data',
-        unique_id: `${config.homeAssistant?.nodeId}_session_data`,
-      };
-
-      await this.mqttPublisher.publishHomeAssistantDiscovery(deviceConfig);
-      logger.info('Home Assistant discovery configuration published');
+      await this.homeAssistantDiscovery.publishDiscovery();
     } catch (error) {
       logger.error('Failed to setup Home Assistant discovery', {
         error: (error as Error).message,
@@ -274,18 +416,23 @@ class F1MqttBridge {
     try {
       // Stop memory monitoring
       this.memoryMonitor.stop();
+      this.configReloader.stop();
 
       // Publish offline status for Home Assistant
-      if (config.homeAssistant) {
-        await this.mqttPublisher.publish({
-          topic: `${config.mqtt.topicPrefix}/status`,
-          payload: 'offline',
-          retain: true,
-        });
+      if (this.config.homeAssistant) {
+        try {
+          await this.mqttPublisher.publishWillMessage();
+        } catch (error) {
+          logger.warn('Failed to publish offline status', {
+            error: (error as Error).message,
+          });
+        }
       }
 
       // Stop services in reverse order
       await this.eventProcessor.stop();
+      await this.embeddedBroker?.stop();
+      this.liveStream.stop();
       await this.healthServer.stop();
 
       logger.info('F1 MQTT Bridge shutdown complete');
@@ -302,23 +449,33 @@ class F1MqttBridge {
       version: process.env.npm_package_version || '1.0.0',
       uptime: process.uptime(),
       processor: this.eventProcessor.getStatus(),
+      embeddedBroker: this.embeddedBroker?.getStatus() ?? null,
       config: {
         signalR: {
-          hubUrl: config.signalR.hubUrl,
-          hubName: config.signalR.hubName,
+          hubUrl: this.config.signalR.hubUrl,
+          hubName: this.config.signalR.hubName,
         },
         mqtt: {
-          brokerUrl: config.mqtt.brokerUrl,
-          topicPrefix: config.mqtt.topicPrefix,
+          brokerUrl: this.config.mqtt.brokerUrl,
+          topicPrefix: this.config.mqtt.topicPrefix,
         },
       },
     };
   }
 }
 
-// Start the application if this file is run directly
-if (require.main === module) {
-  const bridge = new F1MqttBridge();
+function main(): void {
+  let bridge: F1MqttBridge;
+  try {
+    bridge = new F1MqttBridge();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      // Readable startup error instead of a stack trace
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
 
   bridge.start().catch((error) => {
     logger.error('Failed to start application', { error: error.message });
@@ -326,4 +483,9 @@ if (require.main === module) {
   });
 }
 
+// Start the application if this file is run directly
+if (require.main === module) {
+  main();
+}
+
 export default F1MqttBridge;
@@ -0,0 +1,237 @@
+import express, { Request, Response, Router } from 'express';
+import { createHash } from 'crypto';
+import { SessionStateStore } from './session-state';
+import { Leaderboard } from './leaderboard';
+import { LapHistory } from './lap-history';
+import { parseRaceControlMessage, RaceControl } from './race-control';
+import { StatusTracker } from './status-tracker';
+import { StintTracker } from './stint-tracker';
+import { parseUtcTime, toIndexedList } from '../utils/timing';
+
+/**
+ * Live data behind the API. Analyzers are null when disabled in the
+ * configuration, their fields are null then.
+ */
+export interface ApiSources {
+  sessionState: SessionStateStore;
+  leaderboard: Leaderboard | null;
+  lapHistory: LapHistory | null;
+  raceControl: RaceControl | null;
+  statusTracker: StatusTracker | null;
+  stintTracker: StintTracker | null;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+
+const toStringOrNull = (value: unknown): string | null =>
+  typeof value === 'string' && value !== '' ? value : null;
+
+const toNumberOrNull = (value: unknown): number | null => {
+  const parsed = Number(value);
+  return value !== undefined &&
+    value !== null &&
+    value !== '' &&
+    Number.isFinite(parsed)
+    ? parsed
+    : null;
+};
+
+/**
+ * Send JSON with a strong ETag, answering 304 when the client has it already
+ */
+function sendWithETag(req: Request, res: Response, body: unknown): void {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`;
+
+  res.setHeader('ETag', etag);
+  // Clients must revalidate, the data changes with every message
+  res.setHeader('Cache-Control', 'no-cache');
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (
+    ifNoneMatch &&
+    ifNoneMatch.split(',').some((tag) => tag.trim() === etag)
+  ) {
+    res.status(304).end();
+    return;
+  }
+
+  res.type('application/json').send(json);
+}
+
+/**
+ * Read-only query API over the live session state
+ *
+ * GET /session                 session, status, lap count and clock
+ * GET /drivers                 drivers ordered by position
+ * GET /drivers/:number         timing, laps, stints and penalties of a driver
+ * GET /leaderboard             standings table
+ * GET /weather                 latest weather data
+ * GET /racecontrol?since=<iso> race control messages, optionally newer than
+ * GET /trackstatus             track status and how long it has been active
+ *
+ * Responses carry an ETag, polling clients get a 304 while nothing changed.
+ */
+export function createApiRouter(sources: ApiSources): Router {
+  const router = express.Router();
+  const { sessionState } = sources;
+  const stream = (name: string): Record<string, unknown> | undefined =>
+    sessionState.getStream(name);
+
+  const driverSummary = (
+    driverNumber: string
+  ): Record<string, unknown> & { position: number | null } => {
+    const driver = asRecord(stream('DriverList')?.[driverNumber]) ?? {};
+    const timing =
+      asRecord(asRecord(stream('TimingData')?.Lines)?.[driverNumber]) ?? {};
+    return {
+      driverNumber,
+      tla: toStringOrNull(driver.Tla),
+      name: toStringOrNull(driver.FullName),
+      broadcastName: toStringOrNull(driver.BroadcastName),
+      team: toStringOrNull(driver.TeamName),
+      teamColour: toStringOrNull(driver.TeamColour),
+      headshotUrl: toStringOrNull(driver.HeadshotUrl),
+      position: toNumberOrNull(timing.Position) ?? toNumberOrNull(driver.Line),
+    };
+  };
+
+  // Drivers from DriverList, plus any only seen in TimingData so far
+  const driverNumbers = (): string[] =>
+    [
+      ...new Set([
+        ...Object.keys(stream('DriverList') ?? {}),
+        ...Object.keys(asRecord(stream('TimingData')?.Lines) ?? {}),
+      ]),
+    ].filter((key) => /^\d+$/.test(key));
+
+  router.get('/session', (req: Request, res: Response) => {
+    const info = stream('SessionInfo');
+    if (!info) {
+      res.status(404).json({ error: 'No session information received yet' });
+      return;
+    }
+
+    const meeting = asRecord(info.Meeting) ?? {};
+    const lapCount = stream('LapCount') ?? {};
+    const clock = stream('ExtrapolatedClock') ?? {};
+    sendWithETag(req, res, {
+      key: info.Key ?? null,
+      name: toStringOrNull(info.Name),
+      type: toStringOrNull(info.Type),
+      meeting: toStringOrNull(meeting.Name),
+      circuit: toStringOrNull(asRecord(meeting.Circuit)?.ShortName),
+      country: toStringOrNull(asRecord(meeting.Country)?.Name),
+      startDate: toStringOrNull(info.StartDate),
+      endDate: toStringOrNull(info.EndDate),
+      gmtOffset: toStringOrNull(info.GmtOffset),
+      status:
+        toStringOrNull(stream('SessionStatus')?.Status) ??
+        toStringOrNull(info.SessionStatus),
+      phase: sources.statusTracker?.getSessionState() ?? null,
+      currentLap: toNumberOrNull(lapCount.CurrentLap),
+      totalLaps: toNumberOrNull(lapCount.TotalLaps),
+      remaining: toStringOrNull(clock.Remaining),
+      clockRunning: clock.Extrapolating === true,
+    });
+  });
+
+  router.get('/drivers', (req: Request, res: Response) => {
+    const drivers = driverNumbers()
+      .map(driverSummary)
+      .sort(
+        (a, b) =>
+          (a.position ?? Number.MAX_SAFE_INTEGER) -
+            (b.position ?? Number.MAX_SAFE_INTEGER) ||
+          Number(a.driverNumber) - Number(b.driverNumber)
+      );
+    sendWithETag(req, res, drivers);
+  });
+
+  router.get('/drivers/:number', (req: Request, res: Response) => {
+    const driverNumber = req.params.number ?? '';
+    if (!driverNumbers().includes(driverNumber)) {
+      res.status(404).json({ error: `Driver not found: ${driverNumber}` });
+      return;
+    }
+
+    sendWithETag(req, res, {
+      ...driverSummary(driverNumber),
+      timing:
+        asRecord(asRecord(stream('TimingData')?.Lines)?.[driverNumber]) ?? null,
+      leaderboard: sources.leaderboard?.getEntry(driverNumber) ?? null,
+      lapStats: sources.lapHistory?.getStats(driverNumber) ?? null,
+      laps: sources.lapHistory?.getLaps(driverNumber) ?? null,
+      stints: sources.stintTracker?.getStints(driverNumber) ?? null,
+      pitStops: sources.stintTracker?.getPitStops(driverNumber) ?? null,
+      penalties: sources.raceControl?.getPenalties(driverNumber) ?? null,
+      trackLimits: sources.raceControl?.getTrackLimits(driverNumber) ?? null,
+    });
+  });
+
+  router.get('/leaderboard', (req: Request, res: Response) => {
+    if (!sources.leaderboard) {
+      res.status(404).json({ error: 'Leaderboard is disabled' });
+      return;
+    }
+    sendWithETag(req, res, { entries: sources.leaderboard.getEntries() });
+  });
+
+  router.get('/weather', (req: Request, res: Response) => {
+    const weather = stream('WeatherData');
+    if (!weather) {
+      res.status(404).json({ error: 'No weather data received yet' });
+      return;
+    }
+
+    sendWithETag(req, res, {
+      airTemp: toNumberOrNull(weather.AirTemp),
+      trackTemp: toNumberOrNull(weather.TrackTemp),
+      humidity: toNumberOrNull(weather.Humidity),
+      pressure: toNumberOrNull(weather.Pressure),
+      rainfall: toNumberOrNull(weather.Rainfall) === 1,
+      windDirection: toNumberOrNull(weather.WindDirection),
+      windSpeed: toNumberOrNull(weather.WindSpeed),
+    });
+  });
+
+  router.get('/racecontrol', (req: Request, res: Response) => {
+    const since =
+      typeof req.query.since === 'string' ? req.query.since : undefined;
+    const sinceTime = since !== undefined ? parseUtcTime(since) : undefined;
+    if (sinceTime !== undefined && Number.isNaN(sinceTime)) {
+      res
+        .status(400)
+        .json({ error: `Invalid since "${since}", expected an ISO time` });
+      return;
+    }
+
+    const messages = toIndexedList(stream('RaceControlMessages')?.Messages)
+      .map(parseRaceControlMessage)
+      .filter(
+        (message) =>
+          sinceTime === undefined ||
+          (message.utc !== null && parseUtcTime(message.utc) > sinceTime)
+      );
+    sendWithETag(req, res, messages);
+  });
+
+  router.get('/trackstatus', (req: Request, res: Response) => {
+    const trackStatus = stream('TrackStatus');
+    if (!trackStatus) {
+      res.status(404).json({ error: 'No track status received yet' });
+      return;
+    }
+
+    sendWithETag(req, res, {
+      status: toStringOrNull(trackStatus.Status),
+      message: toStringOrNull(trackStatus.Message),
+      state: sources.statusTracker?.getTrackState() ?? null,
+    });
+  });
+
+  return router;
+}
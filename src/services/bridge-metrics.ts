@@ -0,0 +1,214 @@
+import fs from 'fs';
+import { EventProcessor } from './event-processor';
+import { MqttPublisher } from './mqtt-publisher';
+import { SignalRClient } from './signalr-client';
+import { F1Event } from '../types';
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../utils/metrics';
+import { parseUtcTime } from '../utils/timing';
+
+export interface MetricsPublisher {
+  name: string;
+  publisher: MqttPublisher;
+}
+
+// Seconds from the F1 message time until the broker acknowledged the publish
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60];
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = Number(value);
+  return value !== undefined &&
+    value !== null &&
+    value !== '' &&
+    Number.isFinite(parsed)
+    ? parsed
+    : undefined;
+};
+
+/**
+ * Topic label with a bounded set of values: driver numbers, laps and other
+ * numeric segments collapse to +, topics outside the bridge prefix such as
+ * MQTT 5 command response topics are counted as other
+ */
+export const toTopicLabel = (topic: string, topicPrefix: string): string => {
+  if (!topic.startsWith(`${topicPrefix}/`)) return 'other';
+  const segments = topic
+    .slice(topicPrefix.length + 1)
+    .split('/')
+    .map((segment) => (/\d/.test(segment) ? '+' : segment));
+  return [topicPrefix, ...segments].join('/');
+};
+
+/**
+ * Per-stream and per-topic metrics for /metrics, counted from the events of
+ * the SignalR client, the event processor and the MQTT publishers. Session
+ * gauges are read from the stream state on every scrape.
+ */
+export class BridgeMetrics {
+  private registry = new MetricsRegistry();
+  private signalRClient: SignalRClient;
+  private primaryPublisher: MqttPublisher | undefined;
+
+  readonly signalRMessages = this.registry.register(
+    new Counter(
+      'f1_mqtt_signalr_messages_total',
+      'SignalR messages received per stream'
+    )
+  );
+  readonly signalRBytes = this.registry.register(
+    new Counter(
+      'f1_mqtt_signalr_bytes_total',
+      'Bytes of SignalR stream data received per stream'
+    )
+  );
+  readonly lastMessage = this.registry.register(
+    new Gauge(
+      'f1_mqtt_signalr_last_message_timestamp_seconds',
+      'Time of the last SignalR message per stream, for stalled stream alerts'
+    )
+  );
+  readonly parseErrors = this.registry.register(
+    new Counter(
+      'f1_mqtt_signalr_parse_errors_total',
+      'SignalR messages that could not be parsed or decompressed'
+    )
+  );
+  readonly published = this.registry.register(
+    new Counter(
+      'f1_mqtt_events_published_total',
+      'Messages acknowledged per MQTT broker and topic pattern'
+    )
+  );
+  readonly publishErrors = this.registry.register(
+    new Counter(
+      'f1_mqtt_publish_failures_total',
+      'Failed publishes per MQTT broker and topic pattern'
+    )
+  );
+  readonly reconnects = this.registry.register(
+    new Counter(
+      'f1_mqtt_broker_reconnects_total',
+      'Reconnect attempts per MQTT broker'
+    )
+  );
+  readonly latency = this.registry.register(
+    new Histogram(
+      'f1_mqtt_event_latency_seconds',
+      'Time from the F1 message timestamp until the primary broker acknowledged the event',
+      LATENCY_BUCKETS
+    )
+  );
+
+  constructor(
+    signalRClient: SignalRClient,
+    eventProcessor: EventProcessor,
+    publishers: MetricsPublisher[]
+  ) {
+    this.signalRClient = signalRClient;
+    this.primaryPublisher = publishers[0]?.publisher;
+
+    this.registry.register(
+      new Gauge('f1_mqtt_session_lap', 'Current lap of the session', () =>
+        this.collectStream('LapCount', 'CurrentLap')
+      )
+    );
+    this.registry.register(
+      new Gauge(
+        'f1_mqtt_track_status',
+        'F1 track status code (1=green, 2=yellow, 4=SC, 5=red, 6=VSC, 7=VSC ending)',
+        () => this.collectStream('TrackStatus', 'Status')
+      )
+    );
+    this.registry.register(
+      new Gauge(
+        'f1_mqtt_recording_active',
+        'Session recording status (1=recording, 0=idle)',
+        () => [[{}, this.signalRClient.isRecordingSession() ? 1 : 0]]
+      )
+    );
+    this.registry.register(
+      new Gauge(
+        'f1_mqtt_recording_size_bytes',
+        'Size of the active session recording file',
+        () => [[{}, this.getRecordingSize()]]
+      )
+    );
+
+    signalRClient.on('stream-message', (stream: string, bytes: number) => {
+      this.signalRMessages.inc({ stream });
+      this.signalRBytes.inc({ stream }, bytes);
+      this.lastMessage.set({ stream }, Date.now() / 1000);
+    });
+    signalRClient.on('parse-error', (stream: string | null) => {
+      this.parseErrors.inc({ stream: stream ?? 'unknown' });
+    });
+
+    for (const { name, publisher } of publishers) {
+      const topicPrefix = publisher.getTopicPrefix();
+      publisher.on('published', (topic: string) => {
+        this.published.inc({
+          broker: name,
+          topic: toTopicLabel(topic, topicPrefix),
+        });
+      });
+      publisher.on('publish-failed', (topic: string) => {
+        this.publishErrors.inc({
+          broker: name,
+          topic: toTopicLabel(topic, topicPrefix),
+        });
+      });
+      publisher.on('reconnecting', () => {
+        this.reconnects.inc({ broker: name });
+      });
+    }
+
+    eventProcessor.on('event-published', (event: F1Event) =>
+      this.observeLatency(event)
+    );
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+
+  private observeLatency(event: F1Event): void {
+    // Replayed messages carry their original time, queued ones are not acked
+    if (
+      !event.utc ||
+      this.signalRClient.getReplay() ||
+      !this.primaryPublisher?.getConnectionStatus()
+    ) {
+      return;
+    }
+
+    const sent = parseUtcTime(event.utc);
+    if (Number.isNaN(sent)) return;
+
+    // Clamp small clock differences between F1 and this host
+    this.latency.observe(
+      { stream: event.streamName ?? event.eventType },
+      Math.max(0, (Date.now() - sent) / 1000)
+    );
+  }
+
+  private collectStream(
+    streamName: string,
+    field: string
+  ): [Record<string, string>, number][] {
+    const value = toNumber(
+      this.signalRClient.getSessionState().getStream(streamName)?.[field]
+    );
+    return value === undefined ? [] : [[{}, value]];
+  }
+
+  private getRecordingSize(): number {
+    const filename = this.signalRClient.getCurrentRecordingFilename();
+    const filePath = filename
+      ? this.signalRClient.getSessionRecordingPath(filename)
+      : null;
+    try {
+      return filePath ? fs.statSync(filePath).size : 0;
+    } catch {
+      return 0;
+    }
+  }
+}
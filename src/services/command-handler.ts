@@ -0,0 +1,187 @@
+import { SignalRClient } from './signalr-client';
+import { resolveStreamSelection } from '../config/streams';
+import { MqttPublisher } from './mqtt-publisher';
+import { EventProcessor } from './event-processor';
+import { MqttCommand, MqttCommandResult } from '../types';
+import { logger } from '../utils/logger';
+
+type CommandResult = Omit<MqttCommandResult, 'command' | 'timestamp'>;
+
+/**
+ * MQTT Command Handler
+ *
+ * Executes commands received on <topicPrefix>/cmd/<name>:
+ * - streamset: change the subscribed stream set (preset name, JSON array or
+ *   comma-separated stream names) and resubscribe
+ * - recording/start: start a session recording (optional JSON session info)
+ * - recording/stop: stop the current session recording
+ * - republish: publish the merged state of all streams again
+ * - reconnect: reconnect to the F1 SignalR service (restarts a replay)
+ * - replay/pause, replay/resume: pause or resume the session replay
+ * - replay/seek: jump to a position in ms from the recording start
+ * - replay/speed: change the replay speed (1 = real time)
+ */
+export class CommandHandler {
+  private signalRClient: SignalRClient;
+  private eventProcessor: EventProcessor;
+  private mqttPublisher: MqttPublisher;
+
+  constructor(
+    signalRClient: SignalRClient,
+    eventProcessor: EventProcessor,
+    mqttPublisher: MqttPublisher
+  ) {
+    this.signalRClient = signalRClient;
+    this.eventProcessor = eventProcessor;
+    this.mqttPublisher = mqttPublisher;
+
+    this.mqttPublisher.on('command', (command: MqttCommand) => {
+      this.handleCommand(command);
+    });
+  }
+
+  async handleCommand(command: MqttCommand): Promise<void> {
+    let result: CommandResult;
+
+    try {
+      result = await this.execute(command);
+    } catch (error) {
+      result = { success: false, message: (error as Error).message };
+    }
+
+    logger.info('MQTT command executed', {
+      command: command.name,
+      success: result.success,
+      message: result.message,
+    });
+
+    try {
+      await this.mqttPublisher.publishCommandResult(command, {
+        command: command.name,
+        ...result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Failed to publish command result', {
+        command: command.name,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private async execute(command: MqttCommand): Promise<CommandResult> {
+    switch (command.name) {
+      case 'streamset':
+        return this.changeStreamSet(command.payload);
+
+      case 'recording/start': {
+        const sessionInfo = command.payload.trim()
+          ? (JSON.parse(command.payload) as Record<string, string>)
+          : undefined;
+        this.signalRClient.startSessionRecording(sessionInfo);
+        const metadata = this.signalRClient.getCurrentSessionMetadata();
+        return metadata
+          ? {
+              success: true,
+              message: 'Recording started',
+              data: { ...metadata },
+            }
+          : { success: false, message: 'Session recording is disabled' };
+      }
+
+      case 'recording/stop': {
+        const recording = this.signalRClient.stopSessionRecording();
+        return recording
+          ? {
+              success: true,
+              message: 'Recording stopped',
+              data: { ...recording.metadata },
+            }
+          : { success: false, message: 'No active recording to stop' };
+      }
+
+      case 'republish': {
+        const streamCount = this.eventProcessor.republishState();
+        return {
+          success: true,
+          message: 'Session state republished',
+          data: { streamCount },
+        };
+      }
+
+      case 'reconnect':
+        await this.signalRClient.reconnect();
+        return { success: true, message: 'Reconnected to F1 SignalR service' };
+
+      case 'replay/pause':
+      case 'replay/resume':
+      case 'replay/seek':
+      case 'replay/speed':
+        return this.controlReplay(command);
+
+      default:
+        return { success: false, message: `Unknown command: ${command.name}` };
+    }
+  }
+
+  private async changeStreamSet(payload: string): Promise<CommandResult> {
+    const value = payload.trim();
+    if (!value) {
+      return { success: false, message: 'Stream set is required' };
+    }
+
+    // Presets are matched case-insensitively, JSON arrays are stream lists
+    const set = value.startsWith('[')
+      ? (JSON.parse(value) as string[]).join(',')
+      : value;
+
+    try {
+      this.signalRClient.setStreamSet(resolveStreamSelection({ set }));
+    } catch (error) {
+      return { success: false, message: (error as Error).message };
+    }
+
+    if (this.signalRClient.isConnected()) {
+      await this.signalRClient.resubscribe();
+    }
+
+    return {
+      success: true,
+      message: 'Stream set updated',
+      data: { streams: [...this.signalRClient.getCurrentStreamSet()] },
+    };
+  }
+
+  private controlReplay(command: MqttCommand): CommandResult {
+    const replay = this.signalRClient.getReplay();
+    if (!replay) {
+      return { success: false, message: 'No session replay active' };
+    }
+
+    const value = Number(command.payload.trim());
+
+    switch (command.name) {
+      case 'replay/pause':
+        replay.pause();
+        break;
+      case 'replay/resume':
+        replay.resume();
+        break;
+      case 'replay/seek':
+        if (!command.payload.trim() || !Number.isFinite(value)) {
+          return { success: false, message: 'Seek position (ms) is required' };
+        }
+        replay.seek(value);
+        break;
+      case 'replay/speed':
+        replay.setSpeed(value);
+        break;
+    }
+
+    return {
+      success: true,
+      message: 'Replay updated',
+      data: { ...replay.getStatus() },
+    };
+  }
+}
@@ -0,0 +1,233 @@
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import { AppConfig, SessionRecordingMode } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Settings that can change without a restart
+ */
+export const RELOADABLE_SETTINGS = [
+  'mqtt.retainedTopics',
+  'logging.level',
+  'signalR.streams',
+  'sessionRecording.mode',
+] as const;
+
+export type ReloadableSetting = (typeof RELOADABLE_SETTINGS)[number];
+
+export interface ConfigChanges {
+  // Applied without a restart
+  applied: ReloadableSetting[];
+  // Changed, but only take effect after a restart (ignored until then)
+  restartRequired: string[];
+}
+
+/**
+ * Services updated when a reloadable setting changes
+ */
+export interface ReloadTargets {
+  setRetainedTopics(retainedTopics: string[]): void;
+  setLogLevel(level: AppConfig['logging']['level']): void;
+  setStreams(streams: readonly string[]): Promise<void>;
+  setRecordingMode(mode: SessionRecordingMode): void;
+}
+
+export interface ConfigReloaderOptions {
+  // Load the configuration again, throws for invalid settings
+  load: () => AppConfig;
+  // Files watched for changes, e.g. CONFIG_FILE and .env.local
+  watchFiles?: string[];
+  // Signal triggering a reload, SIGHUP by default, null to disable
+  reloadSignal?: NodeJS.Signals | null;
+  watchInterval?: number;
+}
+
+// Flatten to 'mqtt.offlineQueue.maxSize' -> JSON value, arrays are one setting
+const flattenConfig = (
+  value: unknown,
+  prefix = '',
+  settings = new Map<string, string>()
+): Map<string, string> => {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenConfig(child, prefix ? `${prefix}.${key}` : key, settings);
+    }
+  } else {
+    settings.set(prefix, JSON.stringify(value));
+  }
+  return settings;
+};
+
+/**
+ * Compare two configurations and sort the changed settings into those that
+ * can be applied live and those that need a restart
+ */
+export function diffConfig(current: AppConfig, next: AppConfig): ConfigChanges {
+  const before = flattenConfig(current);
+  const after = flattenConfig(next);
+  const keys = new Set([...before.keys(), ...after.keys()]);
+
+  const changes: ConfigChanges = { applied: [], restartRequired: [] };
+  for (const key of keys) {
+    if (before.get(key) === after.get(key)) {
+      continue;
+    }
+
+    if ((RELOADABLE_SETTINGS as readonly string[]).includes(key)) {
+      changes.applied.push(key as ReloadableSetting);
+    } else {
+      changes.restartRequired.push(key);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Reloads the configuration on SIGHUP or when a config file changes and
+ * applies runtime-safe settings to the running services. The current config
+ * object is updated in place so everything reading it sees the new values.
+ */
+export class ConfigReloader extends EventEmitter {
+  private config: AppConfig;
+  private targets: ReloadTargets;
+  private options: ConfigReloaderOptions;
+  private reloadSignal: NodeJS.Signals | null;
+  private watchedFiles: string[] = [];
+  private signalHandler: (() => void) | null = null;
+  private reloading: Promise<ConfigChanges | null> | null = null;
+
+  constructor(
+    config: AppConfig,
+    targets: ReloadTargets,
+    options: ConfigReloaderOptions
+  ) {
+    super();
+    this.config = config;
+    this.targets = targets;
+    this.options = options;
+    this.reloadSignal =
+      options.reloadSignal === undefined ? 'SIGHUP' : options.reloadSignal;
+  }
+
+  /**
+   * Start watching the config files and listening for the reload signal
+   */
+  start(): void {
+    const reloadSignal = this.reloadSignal;
+    if (reloadSignal) {
+      this.signalHandler = (): void => {
+        logger.info('Received reload signal', { signal: reloadSignal });
+        void this.reload();
+      };
+      process.on(reloadSignal, this.signalHandler);
+    }
+
+    for (const file of this.options.watchFiles ?? []) {
+      fs.watchFile(
+        file,
+        { interval: this.options.watchInterval ?? 2000, persistent: false },
+        (current, previous) => {
+          if (current.mtimeMs === previous.mtimeMs) return;
+          logger.info('Config file changed', { file });
+          void this.reload();
+        }
+      );
+      this.watchedFiles.push(file);
+    }
+
+    logger.info('Config reload enabled', {
+      signal: reloadSignal || 'none',
+      watchedFiles: this.watchedFiles,
+    });
+  }
+
+  stop(): void {
+    if (this.reloadSignal && this.signalHandler) {
+      process.off(this.reloadSignal, this.signalHandler);
+      this.signalHandler = null;
+    }
+
+    for (const file of this.watchedFiles) {
+      fs.unwatchFile(file);
+    }
+    this.watchedFiles = [];
+  }
+
+  /**
+   * Load the configuration again and apply the runtime-safe changes
+   * @returns The changes, or null when the new configuration is invalid
+   */
+  async reload(): Promise<ConfigChanges | null> {
+    // Coalesce a signal and a file change arriving together
+    if (!this.reloading) {
+      this.reloading = this.applyReload().finally(() => {
+        this.reloading = null;
+      });
+    }
+    return this.reloading;
+  }
+
+  private async applyReload(): Promise<ConfigChanges | null> {
+    let next: AppConfig;
+    try {
+      next = this.options.load();
+    } catch (error) {
+      logger.error('Config reload rejected, keeping the current settings', {
+        error: (error as Error).message,
+      });
+      this.emit('reload-error', error);
+      return null;
+    }
+
+    const changes = diffConfig(this.config, next);
+
+    for (const setting of changes.restartRequired) {
+      logger.warn('Config change needs a restart, ignored until then', {
+        setting,
+      });
+    }
+
+    for (const setting of changes.applied) {
+      try {
+        await this.applySetting(setting, next);
+        logger.info('Config change applied', { setting });
+      } catch (error) {
+        logger.error('Failed to apply config change', {
+          setting,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (changes.applied.length === 0 && changes.restartRequired.length === 0) {
+      logger.info('Config reloaded, nothing changed');
+    }
+
+    this.emit('reloaded', changes);
+    return changes;
+  }
+
+  private async applySetting(
+    setting: ReloadableSetting,
+    next: AppConfig
+  ): Promise<void> {
+    switch (setting) {
+      case 'mqtt.retainedTopics':
+        this.config.mqtt.retainedTopics = next.mqtt.retainedTopics ?? [];
+        this.targets.setRetainedTopics([...this.config.mqtt.retainedTopics]);
+        break;
+      case 'logging.level':
+        this.config.logging.level = next.logging.level;
+        this.targets.setLogLevel(next.logging.level);
+        break;
+      case 'signalR.streams':
+        this.config.signalR.streams = next.signalR.streams ?? [];
+        await this.targets.setStreams(this.config.signalR.streams);
+        break;
+      case 'sessionRecording.mode':
+        this.config.sessionRecording.mode = next.sessionRecording.mode;
+        this.targets.setRecordingMode(next.sessionRecording.mode);
+        break;
+    }
+  }
+}
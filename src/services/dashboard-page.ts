@@ -0,0 +1,465 @@
+/**
+ * Single-page dashboard served at /ui. Kept inline, without external assets,
+ * so it works on networks without internet access and ships with tsc.
+ */
+
+export const DASHBOARD_STYLE = `
+:root {
+  color-scheme: dark;
+  --bg: #15151e;
+  --panel: #1f1f2b;
+  --border: #33334a;
+  --text: #e8e8f0;
+  --muted: #9090a8;
+  --ok: #2ecc71;
+  --bad: #e74c3c;
+  --accent: #e10600;
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  font: 14px/1.4 system-ui, -apple-system, 'Segoe UI', sans-serif;
+  background: var(--bg);
+  color: var(--text);
+}
+header {
+  display: flex;
+  align-items: center;
+  gap: 16px;
+  padding: 12px 20px;
+  border-bottom: 3px solid var(--accent);
+  background: var(--panel);
+}
+header h1 { margin: 0; font-size: 18px; }
+header .session { color: var(--muted); }
+main {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(340px, 1fr));
+  gap: 16px;
+  padding: 16px 20px;
+}
+section {
+  background: var(--panel);
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  padding: 12px 16px;
+  min-width: 0;
+}
+section.wide { grid-column: 1 / -1; }
+h2 {
+  margin: 0 0 8px;
+  font-size: 13px;
+  text-transform: uppercase;
+  letter-spacing: 0.06em;
+  color: var(--muted);
+}
+table { width: 100%; border-collapse: collapse; }
+th, td {
+  padding: 4px 6px;
+  text-align: left;
+  border-bottom: 1px solid var(--border);
+  white-space: nowrap;
+}
+th { color: var(--muted); font-weight: normal; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+.empty { color: var(--muted); font-style: italic; }
+.dot {
+  display: inline-block;
+  width: 9px;
+  height: 9px;
+  margin-right: 6px;
+  border-radius: 50%;
+  background: var(--bad);
+}
+.dot.ok { background: var(--ok); }
+.track {
+  display: inline-block;
+  padding: 6px 14px;
+  border-radius: 4px;
+  font-size: 20px;
+  font-weight: bold;
+  background: var(--border);
+}
+.track.GREEN { background: #1e8449; }
+.track.YELLOW, .track.VSC, .track.VSC_ENDING { background: #b7950b; color: #000; }
+.track.SC { background: #d68910; color: #000; }
+.track.RED { background: #a93226; }
+.muted { color: var(--muted); }
+.messages { max-height: 320px; overflow-y: auto; }
+.messages td:last-child { white-space: normal; }
+button {
+  padding: 6px 14px;
+  border: 1px solid var(--border);
+  border-radius: 4px;
+  background: var(--bg);
+  color: var(--text);
+  cursor: pointer;
+}
+button:disabled { opacity: 0.5; cursor: default; }
+.error { color: var(--bad); }
+`;
+
+export const DASHBOARD_SCRIPT = `
+(function () {
+  'use strict';
+
+  var POLL_INTERVAL = 2000;
+  var RATE_WINDOW = 10000;
+  var MAX_MESSAGES = 50;
+
+  // Resolve endpoints next to /ui, also behind a reverse proxy path prefix
+  var root = location.pathname.replace(/[^/]*\\/?$/, '');
+  var endpoint = function (path) {
+    return root + path;
+  };
+
+  var streams = {};
+  var socket = null;
+  var reconnectDelay = 1000;
+
+  var byId = function (id) {
+    return document.getElementById(id);
+  };
+
+  var element = function (tag, text, className) {
+    var node = document.createElement(tag);
+    if (text !== undefined && text !== null) node.textContent = String(text);
+    if (className) node.className = className;
+    return node;
+  };
+
+  var row = function (cells, numeric) {
+    var tr = element('tr');
+    cells.forEach(function (cell, index) {
+      var td = element('td', cell === null || cell === undefined ? '' : cell);
+      if (numeric && numeric.indexOf(index) !== -1) td.className = 'num';
+      tr.appendChild(td);
+    });
+    return tr;
+  };
+
+  var fill = function (id, rows, emptyText) {
+    var body = byId(id);
+    body.replaceChildren();
+    if (rows.length === 0) {
+      var td = element('td', emptyText, 'empty');
+      td.colSpan = 99;
+      var tr = element('tr');
+      tr.appendChild(td);
+      body.appendChild(tr);
+      return;
+    }
+    rows.forEach(function (tr) {
+      body.appendChild(tr);
+    });
+  };
+
+  var state = function (label, connected, detail) {
+    var tr = element('tr');
+    var name = element('td');
+    name.appendChild(element('span', null, connected ? 'dot ok' : 'dot'));
+    name.appendChild(document.createTextNode(label));
+    tr.appendChild(name);
+    tr.appendChild(element('td', connected ? 'connected' : 'disconnected'));
+    tr.appendChild(element('td', detail || '', 'muted'));
+    return tr;
+  };
+
+  // null when the endpoint has no data yet (404) or is unreachable
+  var getJson = function (path) {
+    return fetch(endpoint(path), { cache: 'no-cache' })
+      .then(function (response) {
+        return response.ok ? response.json() : null;
+      })
+      .catch(function () {
+        return null;
+      });
+  };
+
+  var formatTime = function (value) {
+    if (!value) return '';
+    var date = new Date(/(Z|[+-]\\d\\d:?\\d\\d)$/.test(value) ? value : value + 'Z');
+    return isNaN(date.getTime()) ? value : date.toLocaleTimeString();
+  };
+
+  var renderStatus = function (status) {
+    if (!status) {
+      fill('connections', [state('Bridge', false, 'unreachable')], '');
+      return;
+    }
+    var services = status.services || {};
+    var rows = [
+      state('SignalR', services.signalR && services.signalR.connected, 'F1 live timing'),
+    ];
+    (services.brokers || []).forEach(function (broker) {
+      rows.push(
+        state(
+          'MQTT ' + broker.name,
+          broker.connected,
+          broker.published + ' published, ' + broker.failed + ' failed' +
+            (broker.offlineQueueSize ? ', ' + broker.offlineQueueSize + ' queued' : '')
+        )
+      );
+    });
+    rows.push(
+      state(
+        'Live stream',
+        socket !== null && socket.readyState === WebSocket.OPEN,
+        'this dashboard'
+      )
+    );
+    fill('connections', rows, '');
+  };
+
+  var renderSession = function (session) {
+    var parts = [];
+    if (session) {
+      [session.meeting, session.name, session.status].forEach(function (part) {
+        if (part) parts.push(part);
+      });
+      if (session.currentLap !== null) {
+        parts.push(
+          'Lap ' + session.currentLap +
+            (session.totalLaps !== null ? '/' + session.totalLaps : '')
+        );
+      }
+      if (session.remaining) parts.push(session.remaining);
+    }
+    byId('session').textContent = parts.length > 0 ? parts.join(' \\u00b7 ') : 'No session';
+  };
+
+  var renderTrackStatus = function (trackStatus) {
+    var badge = byId('track-status');
+    var since = byId('track-since');
+    if (!trackStatus) {
+      badge.textContent = 'No data';
+      badge.className = 'track';
+      since.textContent = '';
+      return;
+    }
+    var current = trackStatus.state ? trackStatus.state.state : trackStatus.status;
+    badge.textContent = trackStatus.message || current || 'Unknown';
+    badge.className = 'track ' + (current || '');
+    since.textContent = trackStatus.state
+      ? 'since ' + formatTime(trackStatus.state.since) +
+        (trackStatus.state.sinceLap !== null ? ', lap ' + trackStatus.state.sinceLap : '')
+      : '';
+  };
+
+  var renderLeaderboard = function (leaderboard) {
+    var entries = leaderboard ? leaderboard.entries : [];
+    fill(
+      'leaderboard',
+      entries.map(function (entry) {
+        return row(
+          [
+            entry.position,
+            entry.tla || entry.driverNumber,
+            entry.team,
+            entry.gapToLeader,
+            entry.interval,
+            entry.laps,
+            entry.compound
+              ? entry.compound + (entry.tyreAge !== null ? ' (' + entry.tyreAge + ')' : '')
+              : '',
+            entry.lastLapTime,
+            entry.bestLapTime,
+            entry.status === 'running' ? '' : entry.status,
+          ],
+          [0, 3, 4, 5, 7, 8]
+        );
+      }),
+      leaderboard ? 'No timing data yet' : 'Leaderboard disabled or no data yet'
+    );
+  };
+
+  var renderRaceControl = function (messages) {
+    var recent = (messages || []).slice(-MAX_MESSAGES).reverse();
+    fill(
+      'race-control',
+      recent.map(function (message) {
+        return row([formatTime(message.utc), message.lap, message.kind, message.message], [1]);
+      }),
+      'No race control messages'
+    );
+  };
+
+  var renderRecording = function (recording) {
+    var active = recording !== null;
+    byId('recording-state').replaceChildren(
+      element('span', null, active ? 'dot ok' : 'dot'),
+      document.createTextNode(active ? recording.filename : 'Not recording')
+    );
+    byId('recording-start').disabled = active;
+    byId('recording-stop').disabled = !active;
+  };
+
+  var renderRates = function () {
+    var now = Date.now();
+    var names = Object.keys(streams).sort();
+    fill(
+      'rates',
+      names.map(function (name) {
+        var stream = streams[name];
+        stream.recent = stream.recent.filter(function (time) {
+          return now - time < RATE_WINDOW;
+        });
+        return row(
+          [
+            name,
+            (stream.recent.length / (RATE_WINDOW / 1000)).toFixed(1),
+            stream.total,
+            new Date(stream.last).toLocaleTimeString(),
+          ],
+          [1, 2]
+        );
+      }),
+      'No messages since the dashboard was opened'
+    );
+  };
+
+  var refresh = function () {
+    Promise.all([
+      getJson('status'),
+      getJson('api/session'),
+      getJson('api/trackstatus'),
+      getJson('api/leaderboard'),
+      getJson('api/racecontrol'),
+      getJson('recordings/current'),
+    ]).then(function (results) {
+      renderStatus(results[0]);
+      renderSession(results[1]);
+      renderTrackStatus(results[2]);
+      renderLeaderboard(results[3]);
+      renderRaceControl(results[4]);
+      renderRecording(results[5]);
+      renderRates();
+    });
+  };
+
+  var connect = function () {
+    var url = new URL(endpoint('ws'), location.href);
+    url.protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+    socket = new WebSocket(url.toString());
+    socket.onopen = function () {
+      reconnectDelay = 1000;
+    };
+    socket.onmessage = function (message) {
+      var data;
+      try {
+        data = JSON.parse(message.data);
+      } catch (error) {
+        return;
+      }
+      // Rates per F1 stream, driver topics and analyzers have no stream
+      if (data.type !== 'event' || !data.streamName) return;
+      var name = data.streamName;
+      var stream = streams[name] || (streams[name] = { recent: [], total: 0, last: 0 });
+      stream.total++;
+      stream.last = Date.now();
+      stream.recent.push(stream.last);
+    };
+    socket.onclose = function () {
+      socket = null;
+      setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, 30000);
+    };
+  };
+
+  var record = function (action) {
+    var error = byId('recording-error');
+    error.textContent = '';
+    fetch(endpoint('recordings/' + action), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    })
+      .then(function (response) {
+        return response.json().then(function (body) {
+          if (!response.ok) error.textContent = body.error || response.statusText;
+        });
+      })
+      .catch(function (failure) {
+        error.textContent = failure.message;
+      })
+      .then(refresh);
+  };
+
+  byId('recording-start').addEventListener('click', function () {
+    record('start');
+  });
+  byId('recording-stop').addEventListener('click', function () {
+    record('stop');
+  });
+
+  connect();
+  refresh();
+  setInterval(refresh, POLL_INTERVAL);
+})();
+`;
+
+export const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>F1 MQTT Bridge</title>
+<style>${DASHBOARD_STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>F1 MQTT Bridge</h1>
+  <span class="session" id="session">Loading&hellip;</span>
+</header>
+<main>
+  <section>
+    <h2>Connections</h2>
+    <table><tbody id="connections"></tbody></table>
+  </section>
+  <section>
+    <h2>Track Status</h2>
+    <p><span class="track" id="track-status">No data</span></p>
+    <p class="muted" id="track-since"></p>
+  </section>
+  <section>
+    <h2>Recording</h2>
+    <p id="recording-state"></p>
+    <p>
+      <button id="recording-start" type="button">Start</button>
+      <button id="recording-stop" type="button">Stop</button>
+    </p>
+    <p class="error" id="recording-error"></p>
+  </section>
+  <section class="wide">
+    <h2>Leaderboard</h2>
+    <table>
+      <thead>
+        <tr>
+          <th class="num">Pos</th><th>Driver</th><th>Team</th>
+          <th class="num">Gap</th><th class="num">Int</th><th class="num">Laps</th>
+          <th>Tyre</th><th class="num">Last</th><th class="num">Best</th><th></th>
+        </tr>
+      </thead>
+      <tbody id="leaderboard"></tbody>
+    </table>
+  </section>
+  <section>
+    <h2>Message Rates</h2>
+    <table>
+      <thead>
+        <tr><th>Stream</th><th class="num">msg/s</th><th class="num">Total</th><th>Last</th></tr>
+      </thead>
+      <tbody id="rates"></tbody>
+    </table>
+  </section>
+  <section>
+    <h2>Race Control</h2>
+    <div class="messages">
+      <table><tbody id="race-control"></tbody></table>
+    </div>
+  </section>
+</main>
+<script>${DASHBOARD_SCRIPT}</script>
+</body>
+</html>
+`;
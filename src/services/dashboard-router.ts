@@ -0,0 +1,43 @@
+import express, { Request, Response, Router } from 'express';
+import { createHash } from 'crypto';
+import {
+  DASHBOARD_HTML,
+  DASHBOARD_SCRIPT,
+  DASHBOARD_STYLE,
+} from './dashboard-page';
+
+const sha256 = (content: string): string =>
+  `'sha256-${createHash('sha256').update(content).digest('base64')}'`;
+
+// Only the inline page itself may run, data comes from the bridge only
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  `script-src ${sha256(DASHBOARD_SCRIPT)}`,
+  `style-src ${sha256(DASHBOARD_STYLE)}`,
+  "connect-src 'self'",
+  "img-src 'self' data:",
+  "base-uri 'none'",
+  "form-action 'none'",
+  "frame-ancestors 'self'",
+].join('; ');
+
+/**
+ * Built-in dashboard, mounted at /ui
+ *
+ * GET /   single page with connection states, message rates, leaderboard,
+ *         track status, race control messages and recording controls
+ *
+ * The page reads /status, /api and /recordings and follows /ws, it loads
+ * nothing from outside the bridge.
+ */
+export function createDashboardRouter(): Router {
+  const router = express.Router();
+
+  router.get('/', (req: Request, res: Response) => {
+    res.setHeader('Content-Security-Policy', CONTENT_SECURITY_POLICY);
+    res.setHeader('Cache-Control', 'no-cache');
+    res.type('html').send(DASHBOARD_HTML);
+  });
+
+  return router;
+}
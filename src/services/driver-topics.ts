@@ -0,0 +1,127 @@
+import { F1Event, TeamRadioCapture } from '../types';
+import { toIndexedList } from '../utils/timing';
+
+/**
+ * Per-driver sub topics for streams that carry data keyed by racing number
+ */
+export const DRIVER_TOPIC_STREAMS: Record<string, string> = {
+  TimingData: 'timing',
+  TimingAppData: 'tyres',
+  TimingStats: 'stats',
+  DriverList: 'info',
+  'CarData.z': 'telemetry',
+  DriverRaceInfo: 'raceinfo',
+  PitLaneTimeCollection: 'pittime',
+  LapSeries: 'lapseries',
+  ChampionshipPrediction: 'prediction',
+  TeamRadio: 'teamradio',
+};
+
+/**
+ * Key that holds the drivers of a stream, null when the drivers are keyed at
+ * the top level. Streams not listed here use `Lines`.
+ */
+const DRIVER_CONTAINERS: Record<string, string | null> = {
+  DriverList: null,
+  DriverRaceInfo: null,
+  LapSeries: null,
+  PitLaneTimeCollection: 'PitTimes',
+  ChampionshipPrediction: 'Drivers',
+};
+
+export interface DriverTopicMessage {
+  driverNumber: string;
+  // Topic relative to the MQTT topic prefix, e.g. 'drivers/44/timing'
+  topic: string;
+  data: Record<string, unknown>;
+}
+
+const RACING_NUMBER_PATTERN = /^\d+$/;
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+
+export const buildDriverTopic = (
+  driverNumber: string,
+  subTopic: string
+): string => `drivers/${driverNumber}/${subTopic}`;
+
+/**
+ * Split an event into one message per driver
+ *
+ * Drivers are taken from the event data (the delta), so only drivers that
+ * changed are published. With `useState` the payload for each driver is its
+ * full merged entry instead of the changed fields only.
+ */
+export function splitEventByDriver(
+  event: F1Event,
+  useState = false
+): DriverTopicMessage[] {
+  if (!event.streamName) return [];
+
+  const subTopic = DRIVER_TOPIC_STREAMS[event.streamName];
+  if (!subTopic) return [];
+
+  // Decoded telemetry: publish the latest sample per driver
+  if (event.streamName === 'CarData.z') {
+    const samples = Array.isArray(event.data.samples)
+      ? (event.data.samples as Record<string, unknown>[])
+      : [];
+    const latest = new Map<string, Record<string, unknown>>();
+    for (const sample of samples) {
+      latest.set(String(sample.driverNumber), sample);
+    }
+    return [...latest].map(([driverNumber, data]) => ({
+      driverNumber,
+      topic: buildDriverTopic(driverNumber, subTopic),
+      data,
+    }));
+  }
+
+  // Team radio: publish the latest capture per driver
+  if (event.streamName === 'TeamRadio') {
+    const latest = new Map<string, Record<string, unknown>>();
+    for (const capture of toIndexedList<TeamRadioCapture>(
+      event.data.Captures
+    )) {
+      if (capture.RacingNumber) {
+        latest.set(capture.RacingNumber, { ...capture });
+      }
+    }
+    return [...latest].map(([driverNumber, data]) => ({
+      driverNumber,
+      topic: buildDriverTopic(driverNumber, subTopic),
+      data,
+    }));
+  }
+
+  const container = DRIVER_CONTAINERS[event.streamName];
+  const getLines = (
+    source: Record<string, unknown>
+  ): Record<string, unknown> | undefined =>
+    container === null ? source : asRecord(source[container ?? 'Lines']);
+
+  const deltaLines = getLines(event.data);
+  const stateLines =
+    useState && event.state ? getLines(event.state) : undefined;
+
+  if (!deltaLines) return [];
+
+  const messages: DriverTopicMessage[] = [];
+  for (const [driverNumber, line] of Object.entries(deltaLines)) {
+    if (!RACING_NUMBER_PATTERN.test(driverNumber)) continue;
+
+    const data = asRecord(stateLines?.[driverNumber]) ?? asRecord(line);
+    if (!data) continue;
+
+    messages.push({
+      driverNumber,
+      topic: buildDriverTopic(driverNumber, subTopic),
+      data,
+    });
+  }
+
+  return messages;
+}
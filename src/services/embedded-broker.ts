@@ -0,0 +1,338 @@
+import fs from 'fs';
+import http from 'http';
+import net from 'net';
+import path from 'path';
+import { timingSafeEqual } from 'crypto';
+import Aedes, {
+  AedesPublishPacket,
+  AuthErrorCode,
+  AuthenticateError,
+  Client,
+} from 'aedes';
+import { WebSocketServer, createWebSocketStream } from 'ws';
+import { EmbeddedBrokerConfig } from '../types';
+import { logger } from '../utils/logger';
+
+export interface EmbeddedBrokerStatus {
+  running: boolean;
+  // Bound ports, null while stopped or for a disabled listener
+  port: number | null;
+  wsPort: number | null;
+  clients: number;
+  retainedMessages: number;
+}
+
+/**
+ * Topics only the bridge itself may publish to, so other clients can neither
+ * overwrite its retained state nor send it commands
+ */
+export interface EmbeddedBrokerAccess {
+  // MQTT topic prefixes of the bridge, e.g. 'f1' protects f1/#
+  topicPrefixes: string[];
+  // Client IDs the bridge connects with
+  bridgeClientIds: string[];
+}
+
+interface PersistedRetainedMessage {
+  topic: string;
+  // Base64, payloads are not necessarily text
+  payload: string;
+  qos: 0 | 1 | 2;
+}
+
+const PERSIST_DEBOUNCE_MS = 1000;
+
+const sameSecret = (expected: string, actual: string): boolean => {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+};
+
+const boundPort = (server: net.Server | null): number | null => {
+  const address = server?.address();
+  return address && typeof address === 'object' ? address.port : null;
+};
+
+/**
+ * MQTT broker running inside the bridge, listening on TCP and optionally on
+ * WebSocket. Retained messages are written to a file so Home Assistant and
+ * dashboards get the last state again after a restart.
+ */
+export class EmbeddedBroker {
+  private config: EmbeddedBrokerConfig;
+  private access: EmbeddedBrokerAccess;
+  private aedes: Aedes | null = null;
+  private tcpServer: net.Server | null = null;
+  private httpServer: http.Server | null = null;
+  private wsServer: WebSocketServer | null = null;
+  private retained = new Map<string, PersistedRetainedMessage>();
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: EmbeddedBrokerConfig, access: EmbeddedBrokerAccess) {
+    this.config = config;
+    this.access = access;
+  }
+
+  async start(): Promise<void> {
+    if (this.aedes) return;
+
+    const aedes = new Aedes({
+      authenticate: (client, username, password, done): void =>
+        this.authenticate(client, username, password, done),
+      authorizePublish: (client, packet, done): void =>
+        done(this.authorizePublish(client, packet)),
+    });
+    this.aedes = aedes;
+
+    aedes.on('publish', (packet) => this.trackRetained(packet));
+    aedes.on('client', (client) => {
+      logger.debug('Embedded broker client connected', { clientId: client.id });
+    });
+    aedes.on('clientDisconnect', (client) => {
+      logger.debug('Embedded broker client disconnected', {
+        clientId: client.id,
+      });
+    });
+    aedes.on('clientError', (client, error) => {
+      logger.debug('Embedded broker client error', {
+        clientId: client.id,
+        error: error.message,
+      });
+    });
+
+    try {
+      await this.restoreRetained();
+
+      this.tcpServer = net.createServer(aedes.handle);
+      await this.listen(this.tcpServer, this.config.port);
+
+      if (this.config.wsPort > 0) {
+        const httpServer = http.createServer();
+        this.httpServer = httpServer;
+        this.wsServer = new WebSocketServer({ server: httpServer });
+        this.wsServer.on('connection', (socket, request) => {
+          aedes.handle(createWebSocketStream(socket), request);
+        });
+        await this.listen(httpServer, this.config.wsPort);
+      }
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    logger.info('Embedded MQTT broker started', {
+      host: this.config.host,
+      port: boundPort(this.tcpServer),
+      wsPort: boundPort(this.httpServer),
+      authentication: Boolean(this.config.username),
+      retainedMessages: this.retained.size,
+    });
+  }
+
+  async stop(): Promise<void> {
+    const aedes = this.aedes;
+    if (!aedes) return;
+    this.aedes = null;
+
+    // Stop accepting clients, the servers close once aedes dropped the
+    // connected ones
+    const serversClosed = Promise.all([
+      this.closeServer(this.tcpServer),
+      this.closeServer(this.httpServer),
+    ]);
+    if (this.wsServer) {
+      for (const socket of this.wsServer.clients) {
+        socket.terminate();
+      }
+      this.wsServer.close();
+      this.wsServer = null;
+    }
+    await new Promise<void>((resolve) => aedes.close(() => resolve()));
+    await serversClosed;
+    this.tcpServer = null;
+    this.httpServer = null;
+
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      this.persist();
+    }
+
+    logger.info('Embedded MQTT broker stopped');
+  }
+
+  getStatus(): EmbeddedBrokerStatus {
+    return {
+      running: this.aedes !== null,
+      port: boundPort(this.tcpServer),
+      wsPort: boundPort(this.httpServer),
+      clients: this.aedes?.connectedClients ?? 0,
+      retainedMessages: this.retained.size,
+    };
+  }
+
+  private authenticate(
+    client: Client,
+    username: string | undefined,
+    password: Buffer | undefined,
+    done: (error: AuthenticateError | null, success: boolean | null) => void
+  ): void {
+    const { username: expectedUsername, password: expectedPassword } =
+      this.config;
+    if (!expectedUsername || !expectedPassword) {
+      done(null, true);
+      return;
+    }
+
+    if (
+      username !== undefined &&
+      password !== undefined &&
+      sameSecret(expectedUsername, username) &&
+      sameSecret(expectedPassword, password.toString())
+    ) {
+      done(null, true);
+      return;
+    }
+
+    logger.warn('Embedded broker rejected a login', {
+      clientId: client.id,
+      username,
+    });
+    const error = new Error('Bad username or password') as AuthenticateError;
+    error.returnCode = AuthErrorCode.BAD_USERNAME_OR_PASSWORD;
+    done(error, null);
+  }
+
+  // Only the bridge publishes below its topic prefixes, other clients are
+  // disconnected when they try
+  private authorizePublish(
+    client: Client | null,
+    packet: Pick<AedesPublishPacket, 'topic'>
+  ): Error | null {
+    // Messages published by the broker itself, e.g. restored retained ones
+    if (!client) return null;
+
+    const isBridgeTopic = this.access.topicPrefixes.some(
+      (prefix) =>
+        packet.topic === prefix || packet.topic.startsWith(`${prefix}/`)
+    );
+    if (!isBridgeTopic || this.access.bridgeClientIds.includes(client.id)) {
+      return null;
+    }
+
+    logger.warn('Embedded broker rejected a publish to a bridge topic', {
+      clientId: client.id,
+      topic: packet.topic,
+    });
+    return new Error(`Not authorized to publish to ${packet.topic}`);
+  }
+
+  // Mirror retained messages, an empty retained payload clears the topic
+  private trackRetained(packet: AedesPublishPacket): void {
+    if (!packet.retain || packet.topic.startsWith('$SYS/')) return;
+
+    const payload = Buffer.isBuffer(packet.payload)
+      ? packet.payload
+      : Buffer.from(packet.payload);
+    if (payload.length === 0) {
+      this.retained.delete(packet.topic);
+    } else {
+      this.retained.set(packet.topic, {
+        topic: packet.topic,
+        payload: payload.toString('base64'),
+        qos: packet.qos,
+      });
+    }
+    this.schedulePersist();
+  }
+
+  private async restoreRetained(): Promise<void> {
+    const persistPath = this.config.persistPath;
+    const aedes = this.aedes;
+    if (!aedes || !persistPath || !fs.existsSync(persistPath)) return;
+
+    let messages: PersistedRetainedMessage[];
+    try {
+      messages = JSON.parse(
+        fs.readFileSync(persistPath, 'utf8')
+      ) as PersistedRetainedMessage[];
+    } catch (error) {
+      logger.warn('Failed to restore retained messages, starting empty', {
+        error: (error as Error).message,
+        persistPath,
+      });
+      return;
+    }
+
+    for (const message of messages) {
+      await new Promise<void>((resolve, reject) =>
+        aedes.publish(
+          {
+            cmd: 'publish',
+            topic: message.topic,
+            payload: Buffer.from(message.payload, 'base64'),
+            qos: message.qos,
+            retain: true,
+            dup: false,
+          },
+          (error) => (error ? reject(error) : resolve())
+        )
+      );
+    }
+
+    logger.info('Restored retained MQTT messages', {
+      messageCount: messages.length,
+      persistPath,
+    });
+  }
+
+  private schedulePersist(): void {
+    if (!this.config.persistPath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DEBOUNCE_MS);
+  }
+
+  private persist(): void {
+    const persistPath = this.config.persistPath;
+    if (!persistPath) return;
+
+    try {
+      // Write to a temporary file first so a crash never leaves half a file
+      const tempPath = `${persistPath}.tmp`;
+      fs.mkdirSync(path.dirname(persistPath), { recursive: true });
+      fs.writeFileSync(
+        tempPath,
+        JSON.stringify([...this.retained.values()]),
+        'utf8'
+      );
+      fs.renameSync(tempPath, persistPath);
+    } catch (error) {
+      logger.error('Failed to persist retained messages', {
+        error: (error as Error).message,
+        persistPath,
+      });
+    }
+  }
+
+  private listen(server: net.Server, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = (error: Error): void => reject(error);
+      server.once('error', onError);
+      server.listen(port, this.config.host, () => {
+        server.off('error', onError);
+        resolve();
+      });
+    });
+  }
+
+  private closeServer(server: net.Server | null): Promise<void> {
+    if (!server?.listening) return Promise.resolve();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+}
@@ -1,9 +1,61 @@
 import { EventEmitter } from 'events';
 import { SignalRClient } from './signalr-client';
 import { MqttPublisher } from './mqtt-publisher';
-import { F1Event } from '../types';
+import { DriverTopicMessage, splitEventByDriver } from './driver-topics';
+import { getStreamEventType } from '../config/streams';
+import {
+  AnalyzerMessage,
+  EventAnalyzer,
+  F1Event,
+  StreamPublishMode,
+} from '../types';
 import { logger } from '../utils/logger';
 
+/**
+ * Driver topic or analyzer message published along with an event
+ */
+export interface DerivedMessage {
+  // Topic below the MQTT topic prefix, e.g. 'drivers/44/timing'
+  topic: string;
+  eventType: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Additional MQTT broker receiving the published data
+ */
+export interface BrokerTarget {
+  name: string;
+  publisher: MqttPublisher;
+  // F1 streams published to this broker, all streams when unset
+  streamsInclude?: readonly string[];
+  streamsExclude?: readonly string[];
+}
+
+export interface BrokerStatus {
+  name: string;
+  connected: boolean;
+  offlineQueueSize: number;
+  offlineQueueDropped: number;
+  published: number;
+  failed: number;
+}
+
+export interface EventProcessorOptions {
+  // Default publish mode for all streams
+  publishMode?: StreamPublishMode;
+  // Per-stream overrides keyed by F1 stream name
+  streamPublishModes?: Record<string, StreamPublishMode>;
+  // Fan out driver-keyed streams to drivers/<number>/<subtopic>
+  driverTopics?: boolean;
+  // Analyzers publishing derived topics (lap history, ...)
+  analyzers?: EventAnalyzer[];
+  // Topic below the prefix per F1 stream name, replacing the event type topic
+  streamTopics?: Record<string, string>;
+  // Brokers published to besides the primary one
+  brokers?: BrokerTarget[];
+}
+
 export class EventProcessor extends EventEmitter {
   private signalRClient: SignalRClient;
   private mqttPublisher: MqttPublisher;
@@ -12,11 +64,28 @@ export class EventProcessor extends EventEmitter {
   private batchSize = 10;
   private batchTimeout = 1000; // ms
   private batchTimer: NodeJS.Timeout | null = null;
+  private publishMode: StreamPublishMode;
+  private streamPublishModes: Record<string, StreamPublishMode>;
+  private driverTopics: boolean;
+  private analyzers: EventAnalyzer[];
+  private streamTopics: Record<string, string>;
+  private brokers: BrokerTarget[];
+  private sessionKey: string | null = null;
 
-  constructor(signalRClient: SignalRClient, mqttPublisher: MqttPublisher) {
+  constructor(
+    signalRClient: SignalRClient,
+    mqttPublisher: MqttPublisher,
+    options: EventProcessorOptions = {}
+  ) {
     super();
     this.signalRClient = signalRClient;
     this.mqttPublisher = mqttPublisher;
+    this.publishMode = options.publishMode ?? 'delta';
+    this.streamPublishModes = options.streamPublishModes ?? {};
+    this.driverTopics = options.driverTopics ?? true;
+    this.analyzers = options.analyzers ?? [];
+    this.streamTopics = options.streamTopics ?? {};
+    this.brokers = options.brokers ?? [];
     this.setupEventHandlers();
   }
 
@@ -25,6 +94,16 @@ export class EventProcessor extends EventEmitter {
       this.queueEvent(event);
     });
 
+    this.signalRClient.on('stateReset', () => {
+      this.resetAnalyzers();
+    });
+
+    // A replay seek skips events, rebuild the analyzers from the merged state
+    this.signalRClient.on('stateRestored', () => {
+      this.resetAnalyzers();
+      this.republishState();
+    });
+
     this.signalRClient.on('connected', () => {
       logger.info('SignalR client connected, ready to process events');
       this.emit('signalr-connected');
@@ -44,6 +123,24 @@ export class EventProcessor extends EventEmitter {
       logger.warn('MQTT publisher disconnected');
       this.emit('mqtt-disconnected');
     });
+
+    for (const broker of this.brokers) {
+      broker.publisher.on('connected', () => {
+        logger.info('MQTT broker connected', { broker: broker.name });
+        this.emit('broker-connected', broker.name);
+      });
+
+      broker.publisher.on('disconnected', () => {
+        logger.warn('MQTT broker disconnected', { broker: broker.name });
+        this.emit('broker-disconnected', broker.name);
+      });
+
+      // Already logged by the publisher, a failing broker must not take
+      // the bridge down
+      broker.publisher.on('error', (error: Error) => {
+        this.emit('broker-error', broker.name, error);
+      });
+    }
   }
 
   private queueEvent(event: F1Event): void {
@@ -104,8 +201,8 @@ export class EventProcessor extends EventEmitter {
       });
       this.emit('batch-error', error, batch);
       
-      // Re-queue failed events (optional - could implement retry logic here)
-      // this.eventQueue.unshift(...batch);
+      // Events published while MQTT is offline are buffered by the
+      // publisher's offline queue, so failures here are not retried
     } finally {
       this.processing = false;
 
@@ -119,10 +216,33 @@ export class EventProcessor extends EventEmitter {
   private async processEvents(events: F1Event[]): Promise<void> {
     const publishPromises = events.map(async (event) => {
       try {
+        // Analyzers run before the first await so they see events in order
+        const analyzerMessages = this.runAnalyzers(event);
+        const driverMessages = this.driverTopics
+          ? splitEventByDriver(event, this.getPublishMode(event) === 'state')
+          : [];
         const processedEvent = this.transformEvent(event);
-        await this.mqttPublisher.publishF1Event(
-          processedEvent.eventType,
-          processedEvent.data
+        this.emit('event-processed', processedEvent, this.getEventTopic(event));
+        this.emitDerivedMessages(event, driverMessages, analyzerMessages);
+
+        // Additional brokers are not awaited so a slow or unreachable broker
+        // does not hold back the others
+        for (const broker of this.brokers) {
+          this.publishToBroker(
+            broker,
+            event,
+            processedEvent,
+            driverMessages,
+            analyzerMessages
+          );
+        }
+
+        await this.publishEvent(
+          this.mqttPublisher,
+          event,
+          processedEvent,
+          driverMessages,
+          analyzerMessages
         );
         
         logger.debug('Event published', { eventType: event.eventType });
@@ -140,15 +260,195 @@ export class EventProcessor extends EventEmitter {
     await Promise.all(publishPromises);
   }
 
+  // Driver and analyzer messages for listeners such as the live stream
+  private emitDerivedMessages(
+    event: F1Event,
+    driverMessages: DriverTopicMessage[],
+    analyzerMessages: AnalyzerMessage[]
+  ): void {
+    const messages: DerivedMessage[] = [
+      ...driverMessages.map(({ topic, data }) => ({
+        topic,
+        eventType: event.eventType,
+        data,
+      })),
+      ...analyzerMessages.map(({ topic, eventType, data }) => ({
+        topic,
+        eventType,
+        data,
+      })),
+    ];
+    if (messages.length > 0) {
+      this.emit('messages-processed', event, messages);
+    }
+  }
+
+  /**
+   * Publish an event, its driver topics and the analyzer messages to a broker
+   * @param includeStream - False when the broker filters out the stream,
+   *   analyzer messages are published anyway
+   */
+  private async publishEvent(
+    publisher: MqttPublisher,
+    event: F1Event,
+    processedEvent: F1Event,
+    driverMessages: DriverTopicMessage[],
+    analyzerMessages: AnalyzerMessage[],
+    includeStream = true
+  ): Promise<void> {
+    if (includeStream) {
+      const streamTopic = event.streamName
+        ? this.streamTopics[event.streamName]
+        : undefined;
+      if (streamTopic) {
+        await publisher.publishToTopic(
+          streamTopic,
+          processedEvent.eventType,
+          processedEvent.data
+        );
+      } else {
+        await publisher.publishF1Event(
+          processedEvent.eventType,
+          processedEvent.data
+        );
+      }
+
+      await this.publishDriverTopics(publisher, event, driverMessages);
+    }
+
+    await Promise.all(
+      analyzerMessages.map((message) =>
+        message.raw
+          ? publisher.publishValue(
+              message.topic,
+              message.data.value as string | number | null,
+              message.retain
+            )
+          : publisher.publishToTopic(
+              message.topic,
+              message.eventType,
+              message.data,
+              message.retain
+            )
+      )
+    );
+  }
+
+  private publishToBroker(
+    broker: BrokerTarget,
+    event: F1Event,
+    processedEvent: F1Event,
+    driverMessages: DriverTopicMessage[],
+    analyzerMessages: AnalyzerMessage[]
+  ): void {
+    const streamName = event.streamName;
+    const includeStream =
+      !streamName ||
+      ((!broker.streamsInclude || broker.streamsInclude.includes(streamName)) &&
+        !broker.streamsExclude?.includes(streamName));
+
+    this.publishEvent(
+      broker.publisher,
+      event,
+      processedEvent,
+      driverMessages,
+      analyzerMessages,
+      includeStream
+    ).catch((error: Error) => {
+      logger.warn('Failed to publish event to MQTT broker', {
+        broker: broker.name,
+        eventType: event.eventType,
+        error: error.message,
+      });
+      this.emit('broker-error', broker.name, error);
+    });
+  }
+
+  private async publishDriverTopics(
+    publisher: MqttPublisher,
+    event: F1Event,
+    messages: DriverTopicMessage[]
+  ): Promise<void> {
+    await Promise.all(
+      messages.map((message) =>
+        publisher.publishToTopic(
+          message.topic,
+          event.eventType,
+          message.data
+        )
+      )
+    );
+  }
+
+  /**
+   * Topic below the prefix an event is published to, e.g. 'timingdata'
+   */
+  getEventTopic(event: Pick<F1Event, 'eventType' | 'streamName'>): string {
+    const streamTopic = event.streamName
+      ? this.streamTopics[event.streamName]
+      : undefined;
+    return (
+      streamTopic ?? event.eventType.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase()
+    );
+  }
+
+  private runAnalyzers(event: F1Event): AnalyzerMessage[] {
+    this.detectSessionChange(event);
+
+    const messages: AnalyzerMessage[] = [];
+    for (const analyzer of this.analyzers) {
+      try {
+        messages.push(...analyzer.handleEvent(event));
+      } catch (error) {
+        logger.error('Analyzer failed to handle event', {
+          analyzer: analyzer.name,
+          eventType: event.eventType,
+          error: (error as Error).message,
+        });
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Reset the analyzers when SessionInfo announces a different session
+   */
+  private detectSessionChange(event: F1Event): void {
+    if (event.streamName !== 'SessionInfo' || !event.state) return;
+
+    const sessionKey = String(event.state.Key ?? event.state.Path ?? '');
+    if (!sessionKey) return;
+
+    if (this.sessionKey !== null && this.sessionKey !== sessionKey) {
+      logger.info('New session detected, resetting analyzers', {
+        previousSession: this.sessionKey,
+        session: sessionKey,
+      });
+      this.resetAnalyzers();
+    }
+    this.sessionKey = sessionKey;
+  }
+
+  private resetAnalyzers(): void {
+    for (const analyzer of this.analyzers) {
+      analyzer.reset();
+    }
+  }
+
   private transformEvent(event: F1Event): F1Event {
     // Apply any event transformations here
     // Examples: filtering, data enrichment, format conversion
     
+    const data =
+      this.getPublishMode(event) === 'state' && event.state
+        ? event.state
+        : event.data;
+
     const transformed: F1Event = {
       ...event,
       // Add processing timestamp
       data: {
-        ...event.data,
+        ...data,
         processedAt: new Date().toISOString(),
         // Add metadata for Home Assistant integration
         homeAssistant: {
@@ -161,6 +461,16 @@ export class EventProcessor extends EventEmitter {
     return transformed;
   }
 
+  /**
+   * Resolve whether an event is published as delta or merged state
+   */
+  private getPublishMode(event: F1Event): StreamPublishMode {
+    if (event.streamName && this.streamPublishModes[event.streamName]) {
+      return this.streamPublishModes[event.streamName] as StreamPublishMode;
+    }
+    return this.publishMode;
+  }
+
   private getDeviceClass(eventType: string): string {
     // Map F1 event types to Home Assistant device classes
     switch (eventType) {
@@ -187,11 +497,41 @@ export class EventProcessor extends EventEmitter {
     }
   }
 
+  /**
+   * Publish the merged state of every known stream again
+   */
+  republishState(): number {
+    const snapshot = this.signalRClient.getSessionState().getSnapshot();
+
+    const streamNames = Object.keys(snapshot).filter(
+      // Decoded telemetry only keeps the latest sample, skip it
+      (streamName) => !streamName.endsWith('.z')
+    );
+
+    for (const streamName of streamNames) {
+      const state = snapshot[streamName] as Record<string, unknown>;
+      this.queueEvent({
+        eventType: getStreamEventType(streamName),
+        timestamp: new Date().toISOString(),
+        data: state,
+        streamName,
+        state,
+        snapshot: true,
+      });
+    }
+
+    logger.info('Republishing session state', {
+      streamCount: streamNames.length,
+    });
+    return streamNames.length;
+  }
+
   async start(): Promise<void> {
     logger.info('Starting event processor...');
     
     try {
       await this.mqttPublisher.connect();
+      this.connectBrokers();
       await this.signalRClient.connect();
       
       logger.info('Event processor started successfully');
@@ -202,6 +542,21 @@ export class EventProcessor extends EventEmitter {
     }
   }
 
+  /**
+   * Connect the additional brokers without waiting, an unreachable broker
+   * keeps reconnecting in the background and buffers in its offline queue
+   */
+  private connectBrokers(): void {
+    for (const broker of this.brokers) {
+      broker.publisher.connect().catch((error: Error) => {
+        logger.warn('MQTT broker unavailable, retrying in the background', {
+          broker: broker.name,
+          error: error.message,
+        });
+      });
+    }
+  }
+
   async stop(): Promise<void> {
     logger.info('Stopping event processor...');
     
@@ -220,6 +575,9 @@ export class EventProcessor extends EventEmitter {
 
     await this.signalRClient.disconnect();
     await this.mqttPublisher.disconnect();
+    await Promise.allSettled(
+      this.brokers.map((broker) => broker.publisher.disconnect())
+    );
     
     logger.info('Event processor stopped');
     this.emit('stopped');
@@ -230,12 +588,42 @@ export class EventProcessor extends EventEmitter {
     processing: boolean;
     signalRConnected: boolean;
     mqttConnected: boolean;
+    offlineQueueSize: number;
+    offlineQueueDropped: number;
+    brokers: BrokerStatus[];
   } {
+    const offlineQueue = this.mqttPublisher.getOfflineQueueStatus();
+
     return {
       queueSize: this.eventQueue.length,
       processing: this.processing,
       signalRConnected: this.signalRClient.isConnected(),
       mqttConnected: this.mqttPublisher.getConnectionStatus(),
+      offlineQueueSize: offlineQueue?.size ?? 0,
+      offlineQueueDropped: offlineQueue?.dropped ?? 0,
+      brokers: [
+        this.getBrokerStatus('primary', this.mqttPublisher),
+        ...this.brokers.map((broker) =>
+          this.getBrokerStatus(broker.name, broker.publisher)
+        ),
+      ],
+    };
+  }
+
+  private getBrokerStatus(
+    name: string,
+    publisher: MqttPublisher
+  ): BrokerStatus {
+    const offlineQueue = publisher.getOfflineQueueStatus();
+    const stats = publisher.getPublishStats();
+
+    return {
+      name,
+      connected: publisher.getConnectionStatus(),
+      offlineQueueSize: offlineQueue?.size ?? 0,
+      offlineQueueDropped: offlineQueue?.dropped ?? 0,
+      published: stats?.published ?? 0,
+      failed: stats?.failed ?? 0,
     };
   }
 }
@@ -1,5 +1,7 @@
-import express, { Request, Response } from 'express';
-import { Server } from 'http';
+import express, { Request, Response, Router } from 'express';
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer } from 'ws';
 import { EventProcessor } from './event-processor';
 import { logger } from '../utils/logger';
 
@@ -9,15 +11,24 @@ export class HealthServer {
   private eventProcessor: EventProcessor;
   private port: number;
   private healthEndpoint: string;
+  private mountedEndpoints: string[] = [];
+  // WebSocket servers by upgrade path, e.g. /ws
+  private webSocketServers = new Map<string, WebSocketServer>();
+  // Effective configuration with secrets redacted, served at /config
+  private configProvider: (() => Record<string, unknown>) | undefined;
+  // Additional metrics in the Prometheus text format, appended to /metrics
+  private metricsProviders: (() => string)[] = [];
 
   constructor(
     eventProcessor: EventProcessor,
     port = 3000,
-    healthEndpoint = '/health'
+    healthEndpoint = '/health',
+    configProvider?: () => Record<string, unknown>
   ) {
     this.eventProcessor = eventProcessor;
     this.port = port;
     this.healthEndpoint = healthEndpoint;
+    this.configProvider = configProvider;
     this.app = express();
     this.setupRoutes();
   }
@@ -39,10 +50,21 @@ export class HealthServer {
         services: {
           signalR: status.signalRConnected ? 'connected' : 'disconnected',
           mqtt: status.mqttConnected ? 'connected' : 'disconnected',
+          // Only the primary broker affects the health status
+          brokers: Object.fromEntries(
+            status.brokers.map((broker) => [
+              broker.name,
+              broker.connected ? 'connected' : 'disconnected',
+            ])
+          ),
         },
         queue: {
           size: status.queueSize,
           processing: status.processing,
+          offline: {
+            size: status.offlineQueueSize,
+            dropped: status.offlineQueueDropped,
+          },
         },
         uptime: process.uptime(),
         memory: {
@@ -76,10 +98,12 @@ export class HealthServer {
             connected: status.mqttConnected,
             status: status.mqttConnected ? 'connected' : 'disconnected',
           },
+          brokers: status.brokers,
         },
         eventProcessor: {
           queueSize: status.queueSize,
           processing: status.processing,
+          offlineQueueSize: status.offlineQueueSize,
         },
         system: {
           uptime: process.uptime(),
@@ -105,6 +129,14 @@ export class HealthServer {
         `# TYPE f1_mqtt_queue_size gauge`,
         `f1_mqtt_queue_size ${status.queueSize}`,
         '',
+        `# HELP f1_mqtt_offline_queue_size Messages buffered while the MQTT broker is unreachable`,
+        `# TYPE f1_mqtt_offline_queue_size gauge`,
+        `f1_mqtt_offline_queue_size ${status.offlineQueueSize}`,
+        '',
+        `# HELP f1_mqtt_offline_queue_dropped_total Messages dropped because the offline queue was full`,
+        `# TYPE f1_mqtt_offline_queue_dropped_total counter`,
+        `f1_mqtt_offline_queue_dropped_total ${status.offlineQueueDropped}`,
+        '',
         `# HELP f1_mqtt_signalr_connected SignalR connection status (1=connected, 0=disconnected)`,
         `# TYPE f1_mqtt_signalr_connected gauge`,
         `f1_mqtt_signalr_connected ${status.signalRConnected ? 1 : 0}`,
@@ -113,6 +145,34 @@ export class HealthServer {
         `# TYPE f1_mqtt_mqtt_connected gauge`,
         `f1_mqtt_mqtt_connected ${status.mqttConnected ? 1 : 0}`,
         '',
+        `# HELP f1_mqtt_broker_connected Connection status per MQTT broker (1=connected, 0=disconnected)`,
+        `# TYPE f1_mqtt_broker_connected gauge`,
+        ...status.brokers.map(
+          (broker) =>
+            `f1_mqtt_broker_connected{broker="${broker.name}"} ${broker.connected ? 1 : 0}`
+        ),
+        '',
+        `# HELP f1_mqtt_broker_offline_queue_size Messages buffered per MQTT broker`,
+        `# TYPE f1_mqtt_broker_offline_queue_size gauge`,
+        ...status.brokers.map(
+          (broker) =>
+            `f1_mqtt_broker_offline_queue_size{broker="${broker.name}"} ${broker.offlineQueueSize}`
+        ),
+        '',
+        `# HELP f1_mqtt_broker_published_total Messages delivered per MQTT broker`,
+        `# TYPE f1_mqtt_broker_published_total counter`,
+        ...status.brokers.map(
+          (broker) =>
+            `f1_mqtt_broker_published_total{broker="${broker.name}"} ${broker.published}`
+        ),
+        '',
+        `# HELP f1_mqtt_broker_publish_errors_total Failed publishes per MQTT broker`,
+        `# TYPE f1_mqtt_broker_publish_errors_total counter`,
+        ...status.brokers.map(
+          (broker) =>
+            `f1_mqtt_broker_publish_errors_total{broker="${broker.name}"} ${broker.failed}`
+        ),
+        '',
         `# HELP f1_mqtt_memory_usage_bytes Memory usage in bytes`,
         `# TYPE f1_mqtt_memory_usage_bytes gauge`,
         `f1_mqtt_memory_usage_bytes{type="rss"} ${memUsage.rss}`,
@@ -131,12 +191,23 @@ export class HealthServer {
         `# HELP f1_mqtt_uptime_seconds Application uptime in seconds`,
         `# TYPE f1_mqtt_uptime_seconds counter`,
         `f1_mqtt_uptime_seconds ${process.uptime()}`,
+        ...this.metricsProviders.map((provider) => `\n${provider()}`),
       ].join('\n');
 
       res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
       res.send(metrics);
     });
 
+    // Effective configuration endpoint
+    this.app.get('/config', (req: Request, res: Response) => {
+      if (!this.configProvider) {
+        res.status(404).json({ error: 'Configuration is not available' });
+        return;
+      }
+
+      res.json(this.configProvider());
+    });
+
     // Memory debugging endpoint (only in debug mode)
     this.app.get('/debug/memory', (req: Request, res: Response) => {
       if (process.env.LOG_LEVEL !== 'debug') {
@@ -188,16 +259,73 @@ export class HealthServer {
           health: this.healthEndpoint,
           status: '/status',
           metrics: '/metrics',
+          config: '/config',
+          ...Object.fromEntries(
+            this.mountedEndpoints.map((endpoint) => [
+              endpoint.replace(/^\//, ''),
+              endpoint,
+            ])
+          ),
         },
       });
     });
+  }
 
+  /**
+   * Mount additional routes, e.g. the recordings API. Must be called before
+   * start() so the routes are registered ahead of the 404 handler.
+   */
+  mountRouter(mountPath: string, router: Router): void {
+    this.app.use(mountPath, router);
+    this.mountedEndpoints.push(mountPath);
+  }
+
+  /**
+   * Append metrics to /metrics, rendered on every scrape
+   */
+  addMetrics(provider: () => string): void {
+    this.metricsProviders.push(provider);
+  }
+
+  /**
+   * Accept WebSocket upgrade requests on a path, e.g. the live stream at /ws
+   */
+  mountWebSocket(mountPath: string, webSocketServer: WebSocketServer): void {
+    this.webSocketServers.set(mountPath, webSocketServer);
+    this.mountedEndpoints.push(mountPath);
+  }
+
+  private handleUpgrade(
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ): void {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    const webSocketServer = this.webSocketServers.get(pathname);
+    if (!webSocketServer) {
+      socket.destroy();
+      return;
+    }
+
+    webSocketServer.handleUpgrade(request, socket, head, (webSocket) => {
+      webSocketServer.emit('connection', webSocket, request);
+    });
+  }
+
+  private setupFallbackHandlers(): void {
     // 404 handler
     this.app.use((req: Request, res: Response) => {
       res.status(404).json({
         error: 'Not Found',
         message: `The requested endpoint ${req.originalUrl} was not found.`,
-        availableEndpoints: ['/', this.healthEndpoint, '/status', '/metrics'],
+        availableEndpoints: [
+          '/',
+          this.healthEndpoint,
+          '/status',
+          '/metrics',
+          '/config',
+          ...this.mountedEndpoints,
+        ],
       });
     });
 
@@ -219,6 +347,8 @@ export class HealthServer {
   }
 
   start(): Promise<void> {
+    this.setupFallbackHandlers();
+
     return new Promise((resolve, reject) => {
       try {
         this.server = this.app.listen(this.port, () => {
@@ -229,6 +359,10 @@ export class HealthServer {
           resolve();
         });
 
+        this.server.on('upgrade', (request, socket, head) =>
+          this.handleUpgrade(request, socket, head)
+        );
+
         this.server.on('error', (error: Error) => {
           logger.error('Health server error', {
             error: error.message,
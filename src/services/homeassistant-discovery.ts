@@ -0,0 +1,462 @@
+import { MqttPublisher } from './mqtt-publisher';
+import { SessionStateStore } from './session-state';
+import { F1Event } from '../types';
+import { logger } from '../utils/logger';
+import { parseLapTime, toIndexedList } from '../utils/timing';
+
+export interface HomeAssistantDiscoveryOptions {
+  discoveryPrefix: string;
+  nodeId: string;
+  topicPrefix: string;
+  swVersion?: string;
+}
+
+type HomeAssistantComponent = 'sensor' | 'binary_sensor';
+
+interface EntityDefinition {
+  component: HomeAssistantComponent;
+  objectId: string;
+  name: string;
+  valueTemplate: string;
+  icon?: string;
+  deviceClass?: string;
+  unitOfMeasurement?: string;
+  stateClass?: string;
+  payloadOn?: string;
+  payloadOff?: string;
+}
+
+// Streams that feed the session state document
+const SESSION_STREAMS = [
+  'TrackStatus',
+  'RaceControlMessages',
+  'SessionStatus',
+  'SessionData',
+  'LapCount',
+  'TimingData',
+  'DriverList',
+  'WeatherData',
+];
+
+// Streams that feed the per-driver state documents
+const DRIVER_STREAMS = ['TimingData', 'DriverList'];
+
+const SESSION_ENTITIES: EntityDefinition[] = [
+  {
+    component: 'sensor',
+    objectId: 'track_status',
+    name: 'Track Status',
+    valueTemplate: '{{ value_json.track_status }}',
+    icon: 'mdi:traffic-light',
+  },
+  {
+    component: 'sensor',
+    objectId: 'flag',
+    name: 'Flag',
+    valueTemplate: '{{ value_json.flag }}',
+    icon: 'mdi:flag',
+  },
+  {
+    component: 'sensor',
+    objectId: 'session_status',
+    name: 'Session Status',
+    valueTemplate: '{{ value_json.session_status }}',
+    icon: 'mdi:timer-outline',
+  },
+  {
+    component: 'sensor',
+    objectId: 'lap_count',
+    name: 'Lap',
+    valueTemplate: '{{ value_json.lap_count }}',
+    icon: 'mdi:counter',
+    unitOfMeasurement: 'laps',
+    stateClass: 'measurement',
+  },
+  {
+    component: 'sensor',
+    objectId: 'leader',
+    name: 'Leader',
+    valueTemplate: '{{ value_json.leader }}',
+    icon: 'mdi:trophy',
+  },
+  {
+    component: 'sensor',
+    objectId: 'air_temperature',
+    name: 'Air Temperature',
+    valueTemplate: '{{ value_json.air_temperature }}',
+    deviceClass: 'temperature',
+    unitOfMeasurement: '°C',
+    stateClass: 'measurement',
+  },
+  {
+    component: 'sensor',
+    objectId: 'track_temperature',
+    name: 'Track Temperature',
+    valueTemplate: '{{ value_json.track_temperature }}',
+    deviceClass: 'temperature',
+    unitOfMeasurement: '°C',
+    stateClass: 'measurement',
+  },
+  {
+    component: 'binary_sensor',
+    objectId: 'rainfall',
+    name: 'Rainfall',
+    valueTemplate: "{{ 'ON' if value_json.rainfall else 'OFF' }}",
+    deviceClass: 'moisture',
+    payloadOn: 'ON',
+    payloadOff: 'OFF',
+  },
+];
+
+const driverEntities = (
+  driverNumber: string,
+  label: string
+): EntityDefinition[] => [
+  {
+    component: 'sensor',
+    objectId: `driver_${driverNumber}_position`,
+    name: `${label} Position`,
+    valueTemplate: '{{ value_json.position }}',
+    icon: 'mdi:podium',
+    stateClass: 'measurement',
+  },
+  {
+    component: 'sensor',
+    objectId: `driver_${driverNumber}_last_lap`,
+    name: `${label} Last Lap`,
+    valueTemplate: '{{ value_json.last_lap }}',
+    deviceClass: 'duration',
+    unitOfMeasurement: 's',
+    stateClass: 'measurement',
+  },
+];
+
+/**
+ * Home Assistant MQTT Discovery
+ *
+ * Publishes `<discoveryPrefix>/<component>/<nodeId>/<objectId>/config`
+ * messages for a single F1 device, keeps compact state documents for the
+ * entities up to date and removes driver entities once a driver drops out
+ * of the DriverList.
+ */
+export class HomeAssistantDiscovery {
+  private mqttPublisher: MqttPublisher;
+  private sessionState: SessionStateStore;
+  private options: HomeAssistantDiscoveryOptions;
+  private registeredDrivers = new Map<string, EntityDefinition[]>();
+  private lastPublished = new Map<string, string>();
+
+  constructor(
+    mqttPublisher: MqttPublisher,
+    sessionState: SessionStateStore,
+    options: HomeAssistantDiscoveryOptions
+  ) {
+    this.mqttPublisher = mqttPublisher;
+    this.sessionState = sessionState;
+    this.options = options;
+  }
+
+  /**
+   * Publish discovery configs for the session entities
+   */
+  async publishDiscovery(): Promise<void> {
+    const stateTopic = this.getSessionStateTopic();
+
+    for (const entity of SESSION_ENTITIES) {
+      await this.publishEntityConfig(entity, stateTopic);
+    }
+
+    // Re-announce drivers known before a reconnect
+    for (const [driverNumber, entities] of this.registeredDrivers) {
+      for (const entity of entities) {
+        await this.publishEntityConfig(
+          entity,
+          this.getDriverStateTopic(driverNumber)
+        );
+      }
+    }
+
+    logger.info('Home Assistant discovery configuration published', {
+      discoveryPrefix: this.options.discoveryPrefix,
+      nodeId: this.options.nodeId,
+      sessionEntities: SESSION_ENTITIES.length,
+      drivers: this.registeredDrivers.size,
+    });
+  }
+
+  /**
+   * Update entity state documents and driver entities for a processed event
+   */
+  async handleEvent(event: F1Event): Promise<void> {
+    if (!event.streamName) return;
+
+    if (SESSION_STREAMS.includes(event.streamName)) {
+      await this.publishIfChanged(
+        this.getSessionStateTopic(),
+        this.buildSessionState()
+      );
+    }
+
+    if (event.streamName === 'DriverList') {
+      await this.syncDriverEntities();
+    }
+
+    if (DRIVER_STREAMS.includes(event.streamName)) {
+      const changedDrivers =
+        event.streamName === 'DriverList'
+          ? Object.keys(event.data)
+          : Object.keys(
+              (event.data.Lines as Record<string, unknown> | undefined) ?? {}
+            );
+
+      for (const driverNumber of changedDrivers) {
+        if (!this.registeredDrivers.has(driverNumber)) continue;
+        await this.publishIfChanged(
+          this.getDriverStateTopic(driverNumber),
+          this.buildDriverState(driverNumber)
+        );
+      }
+    }
+  }
+
+  /**
+   * Add entities for new drivers and remove those that left the DriverList
+   */
+  private async syncDriverEntities(): Promise<void> {
+    const driverList = this.sessionState.getStream('DriverList') ?? {};
+    const currentDrivers = Object.keys(driverList).filter((key) =>
+      /^\d+$/.test(key)
+    );
+
+    for (const driverNumber of currentDrivers) {
+      if (this.registeredDrivers.has(driverNumber)) continue;
+
+      const driver = driverList[driverNumber] as Record<string, unknown>;
+      const label = (driver?.Tla as string) || `#${driverNumber}`;
+      const entities = driverEntities(driverNumber, label);
+      const stateTopic = this.getDriverStateTopic(driverNumber);
+
+      for (const entity of entities) {
+        await this.publishEntityConfig(entity, stateTopic);
+      }
+      this.registeredDrivers.set(driverNumber, entities);
+      await this.publishIfChanged(
+        stateTopic,
+        this.buildDriverState(driverNumber)
+      );
+
+      logger.debug('Registered Home Assistant driver entities', {
+        driverNumber,
+        label,
+      });
+    }
+
+    for (const [driverNumber, entities] of this.registeredDrivers) {
+      if (currentDrivers.includes(driverNumber)) continue;
+
+      for (const entity of entities) {
+        // An empty retained config removes the entity in Home Assistant
+        await this.mqttPublisher.publish({
+          topic: this.getConfigTopic(entity),
+          payload: '',
+          qos: 1,
+          retain: true,
+        });
+      }
+      this.registeredDrivers.delete(driverNumber);
+      this.lastPublished.delete(this.getDriverStateTopic(driverNumber));
+
+      logger.info('Removed Home Assistant driver entities', {
+        driverNumber,
+      });
+    }
+  }
+
+  private async publishEntityConfig(
+    entity: EntityDefinition,
+    stateTopic: string
+  ): Promise<void> {
+    const { nodeId } = this.options;
+
+    const config: Record<string, unknown> = {
+      name: entity.name,
+      unique_id: `${nodeId}_${entity.objectId}`,
+      object_id: `${nodeId}_${entity.objectId}`,
+      state_topic: stateTopic,
+      value_template: entity.valueTemplate,
+      json_attributes_topic: stateTopic,
+      ...this.buildAvailability(),
+      device: {
+        identifiers: [nodeId],
+        name: 'F1 Telemetry',
+        model: 'F1 MQTT Bridge',
+        manufacturer: 'Custom',
+        sw_version: this.options.swVersion || '1.0.0',
+      },
+      ...(entity.icon && { icon: entity.icon }),
+      ...(entity.deviceClass && { device_class: entity.deviceClass }),
+      ...(entity.unitOfMeasurement && {
+        unit_of_measurement: entity.unitOfMeasurement,
+      }),
+      ...(entity.stateClass && { state_class: entity.stateClass }),
+      ...(entity.payloadOn && { payload_on: entity.payloadOn }),
+      ...(entity.payloadOff && { payload_off: entity.payloadOff }),
+    };
+
+    await this.mqttPublisher.publish({
+      topic: this.getConfigTopic(entity),
+      payload: JSON.stringify(config),
+      qos: 1,
+      retain: true,
+    });
+  }
+
+  /**
+   * Availability from the bridge's birth and last will messages, with both
+   * on one topic by default
+   */
+  private buildAvailability(): Record<string, unknown> {
+    const { birthTopic, birthMessage, willTopic, willMessage } =
+      this.mqttPublisher.getAvailability();
+
+    if (birthTopic === willTopic) {
+      return {
+        availability_topic: birthTopic,
+        payload_available: birthMessage,
+        payload_not_available: willMessage,
+      };
+    }
+
+    // The latest message on either topic decides
+    return {
+      availability: [
+        { topic: birthTopic, payload_available: birthMessage },
+        { topic: willTopic, payload_not_available: willMessage },
+      ],
+      availability_mode: 'latest',
+    };
+  }
+
+  private async publishIfChanged(
+    topic: string,
+    state: Record<string, unknown>
+  ): Promise<void> {
+    const payload = JSON.stringify(state);
+    if (this.lastPublished.get(topic) === payload) return;
+
+    await this.mqttPublisher.publish({ topic, payload, qos: 1, retain: true });
+    this.lastPublished.set(topic, payload);
+  }
+
+  private buildSessionState(): Record<string, unknown> {
+    const trackStatus = this.sessionState.getStream('TrackStatus');
+    const lapCount = this.sessionState.getStream('LapCount');
+    const weather = this.sessionState.getStream('WeatherData');
+    const leaderNumber = this.findLeader();
+    const leader = leaderNumber
+      ? (this.sessionState.getStream('DriverList')?.[leaderNumber] as
+          | Record<string, unknown>
+          | undefined)
+      : undefined;
+
+    return {
+      track_status: trackStatus?.Message ?? null,
+      track_status_code: trackStatus?.Status ?? null,
+      flag: this.findLatestFlag(),
+      session_status: this.findSessionStatus(),
+      lap_count: lapCount?.CurrentLap ?? null,
+      total_laps: lapCount?.TotalLaps ?? null,
+      leader: (leader?.Tla as string) ?? leaderNumber ?? null,
+      leader_number: leaderNumber ?? null,
+      air_temperature: this.toNumber(weather?.AirTemp),
+      track_temperature: this.toNumber(weather?.TrackTemp),
+      rainfall:
+        weather?.Rainfall !== undefined ? weather.Rainfall === '1' : null,
+    };
+  }
+
+  private buildDriverState(driverNumber: string): Record<string, unknown> {
+    const driver = this.sessionState.getStream('DriverList')?.[driverNumber] as
+      | Record<string, unknown>
+      | undefined;
+    const lines = this.sessionState.getStream('TimingData')?.Lines as
+      | Record<string, Record<string, unknown>>
+      | undefined;
+    const line = lines?.[driverNumber];
+    const lastLap = line?.LastLapTime as Record<string, unknown> | undefined;
+
+    return {
+      number: driverNumber,
+      tla: driver?.Tla ?? null,
+      name: driver?.FullName ?? null,
+      team: driver?.TeamName ?? null,
+      position: this.toNumber(line?.Position),
+      last_lap: parseLapTime(lastLap?.Value) ?? null,
+      last_lap_time: lastLap?.Value || null,
+      gap_to_leader: line?.GapToLeader ?? null,
+      in_pit: line?.InPit ?? null,
+      retired: line?.Retired ?? null,
+    };
+  }
+
+  private findLeader(): string | undefined {
+    const lines = this.sessionState.getStream('TimingData')?.Lines as
+      | Record<string, Record<string, unknown>>
+      | undefined;
+    if (!lines) return undefined;
+
+    return Object.keys(lines).find(
+      (driverNumber) => String(lines[driverNumber]?.Position) === '1'
+    );
+  }
+
+  private findLatestFlag(): string | null {
+    const messages = toIndexedList(
+      this.sessionState.getStream('RaceControlMessages')?.Messages
+    );
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const flag = messages[i]?.Flag;
+      if (typeof flag === 'string' && flag.length > 0) {
+        return flag;
+      }
+    }
+    return null;
+  }
+
+  private findSessionStatus(): string | null {
+    const sessionStatus = this.sessionState.getStream('SessionStatus')?.Status;
+    if (typeof sessionStatus === 'string') {
+      return sessionStatus;
+    }
+
+    const series = toIndexedList(
+      this.sessionState.getStream('SessionData')?.StatusSeries
+    );
+    for (let i = series.length - 1; i >= 0; i--) {
+      const status = series[i]?.SessionStatus;
+      if (typeof status === 'string') {
+        return status;
+      }
+    }
+    return null;
+  }
+
+  private toNumber(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+
+  private getConfigTopic(entity: EntityDefinition): string {
+    return `${this.options.discoveryPrefix}/${entity.component}/${this.options.nodeId}/${entity.objectId}/config`;
+  }
+
+  private getSessionStateTopic(): string {
+    return `${this.options.topicPrefix}/homeassistant/session`;
+  }
+
+  private getDriverStateTopic(driverNumber: string): string {
+    return `${this.options.topicPrefix}/homeassistant/drivers/${driverNumber}`;
+  }
+}
@@ -0,0 +1,345 @@
+import { AnalyzerMessage, EventAnalyzer, F1Event } from '../types';
+import { buildDriverTopic } from './driver-topics';
+import { formatLapTime, parseLapTime, toIndexedList } from '../utils/timing';
+import { logger } from '../utils/logger';
+
+export interface LapSector {
+  time: string;
+  seconds: number;
+}
+
+export interface LapRecord {
+  driverNumber: string;
+  lap: number;
+  lapTime: string | null;
+  lapTimeSeconds: number | null;
+  sectors: (LapSector | null)[];
+  compound: string | null;
+  tyreAge: number | null;
+  pitIn: boolean;
+  pitOut: boolean;
+  personalBest: boolean;
+  timestamp: string;
+}
+
+export interface LapTimeRef {
+  lap: number;
+  time: string;
+  seconds: number;
+}
+
+export interface DriverLapStats {
+  driverNumber: string;
+  lapCount: number;
+  lastLap: LapTimeRef | null;
+  personalBest: LapTimeRef | null;
+  // Average of the last five clean laps
+  last5Average: number | null;
+  // Standard deviation of clean laps in seconds, lower is more consistent
+  consistency: number | null;
+  cleanLapCount: number;
+}
+
+export interface SessionBestLap extends LapTimeRef {
+  driverNumber: string;
+}
+
+interface DriverLapState {
+  completedLaps: number | null;
+  sectors: (LapSector | null)[];
+  pitIn: boolean;
+  pitOut: boolean;
+  laps: LapRecord[];
+}
+
+interface TyreInfo {
+  compound: string | null;
+  age: number | null;
+}
+
+const SECTOR_COUNT = 3;
+const ROLLING_WINDOW = 5;
+// Laps slower than this share of the personal best are not clean laps
+const CLEAN_LAP_THRESHOLD = 1.07;
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Lap History
+ *
+ * Records every completed lap per driver from TimingData, with sector
+ * splits, tyre compound (from TimingAppData) and pit in/out flags, and keeps
+ * rolling lap time statistics.
+ *
+ * Topics (below the topic prefix):
+ * - drivers/<n>/laps/<lap>: completed lap
+ * - drivers/<n>/laps/stats: personal best, last-5 average, consistency
+ * - laps/sessionbest: fastest lap of the session
+ */
+export class LapHistory implements EventAnalyzer {
+  readonly name = 'lap-history';
+  private drivers = new Map<string, DriverLapState>();
+  private tyres = new Map<string, TyreInfo>();
+  private sessionBest: SessionBestLap | null = null;
+
+  handleEvent(event: F1Event): AnalyzerMessage[] {
+    switch (event.streamName) {
+      case 'TimingAppData':
+        this.updateTyres(event);
+        return [];
+      case 'TimingData':
+        return this.updateTiming(event);
+      default:
+        return [];
+    }
+  }
+
+  reset(): void {
+    this.drivers.clear();
+    this.tyres.clear();
+    this.sessionBest = null;
+  }
+
+  getLaps(driverNumber: string): LapRecord[] {
+    return [...(this.drivers.get(driverNumber)?.laps ?? [])];
+  }
+
+  getStats(driverNumber: string): DriverLapStats | null {
+    const driver = this.drivers.get(driverNumber);
+    return driver ? this.buildStats(driverNumber, driver) : null;
+  }
+
+  getDriverNumbers(): string[] {
+    return [...this.drivers.keys()];
+  }
+
+  getSessionBest(): SessionBestLap | null {
+    return this.sessionBest;
+  }
+
+  private updateTyres(event: F1Event): void {
+    const lines = asRecord(event.state?.Lines);
+    if (!lines) return;
+
+    for (const [driverNumber, line] of Object.entries(lines)) {
+      const stints = toIndexedList(asRecord(line)?.Stints);
+      const stint = stints[stints.length - 1];
+      if (!stint) continue;
+
+      const totalLaps = Number(stint.TotalLaps);
+      this.tyres.set(driverNumber, {
+        compound: typeof stint.Compound === 'string' ? stint.Compound : null,
+        age: Number.isFinite(totalLaps) ? totalLaps : null,
+      });
+    }
+  }
+
+  private updateTiming(event: F1Event): AnalyzerMessage[] {
+    const deltaLines = asRecord(event.data.Lines);
+    const stateLines = asRecord(event.state?.Lines);
+    if (!deltaLines) return [];
+
+    const messages: AnalyzerMessage[] = [];
+
+    for (const [driverNumber, value] of Object.entries(deltaLines)) {
+      const delta = asRecord(value);
+      if (!delta) continue;
+
+      const line = asRecord(stateLines?.[driverNumber]) ?? delta;
+      const driver = this.getDriver(driverNumber);
+
+      this.updateSectors(driver, delta);
+      if (line.InPit === true) driver.pitIn = true;
+      if (line.PitOut === true) driver.pitOut = true;
+
+      const completedLaps = Number(delta.NumberOfLaps);
+      if (!Number.isFinite(completedLaps)) continue;
+
+      if (
+        driver.completedLaps === null ||
+        completedLaps < driver.completedLaps
+      ) {
+        // First sighting (snapshot) or restart: nothing to record yet
+        driver.completedLaps = completedLaps;
+        continue;
+      }
+      if (completedLaps === driver.completedLaps) continue;
+
+      driver.completedLaps = completedLaps;
+      messages.push(
+        ...this.completeLap(driverNumber, driver, line, event.timestamp)
+      );
+    }
+
+    return messages;
+  }
+
+  private updateSectors(
+    driver: DriverLapState,
+    delta: Record<string, unknown>
+  ): void {
+    const sectors = delta.Sectors;
+    if (typeof sectors !== 'object' || sectors === null) return;
+
+    for (const [key, value] of Object.entries(sectors)) {
+      const index = Number(key);
+      const time = asRecord(value)?.Value;
+      const seconds = parseLapTime(time);
+      if (index >= SECTOR_COUNT || seconds === undefined) continue;
+      driver.sectors[index] = { time: time as string, seconds };
+    }
+  }
+
+  private completeLap(
+    driverNumber: string,
+    driver: DriverLapState,
+    line: Record<string, unknown>,
+    timestamp: string
+  ): AnalyzerMessage[] {
+    const lastLapTime = asRecord(line.LastLapTime);
+    const lapTimeSeconds = parseLapTime(lastLapTime?.Value) ?? null;
+    const tyre = this.tyres.get(driverNumber);
+
+    const lap: LapRecord = {
+      driverNumber,
+      lap: driver.completedLaps as number,
+      lapTime: lapTimeSeconds !== null ? formatLapTime(lapTimeSeconds) : null,
+      lapTimeSeconds,
+      sectors: Array.from(
+        { length: SECTOR_COUNT },
+        (_, index) => driver.sectors[index] ?? null
+      ),
+      compound: tyre?.compound ?? null,
+      tyreAge: tyre?.age ?? null,
+      pitIn: driver.pitIn,
+      pitOut: driver.pitOut,
+      personalBest: lastLapTime?.PersonalFastest === true,
+      timestamp,
+    };
+
+    driver.laps.push(lap);
+    driver.sectors = [];
+    // A car still in the pit lane starts its next lap as an out lap
+    driver.pitOut = line.InPit === true || line.PitOut === true;
+    driver.pitIn = false;
+
+    logger.debug('Lap completed', {
+      driverNumber,
+      lap: lap.lap,
+      lapTime: lap.lapTime,
+    });
+
+    const messages: AnalyzerMessage[] = [
+      {
+        topic: buildDriverTopic(driverNumber, `laps/${lap.lap}`),
+        eventType: 'lap',
+        data: { ...lap },
+        retain: true,
+      },
+      {
+        topic: buildDriverTopic(driverNumber, 'laps/stats'),
+        eventType: 'lap_stats',
+        data: { ...this.buildStats(driverNumber, driver) },
+        retain: true,
+      },
+    ];
+
+    if (
+      lap.lapTime !== null &&
+      lap.lapTimeSeconds !== null &&
+      (!this.sessionBest || lap.lapTimeSeconds < this.sessionBest.seconds)
+    ) {
+      this.sessionBest = {
+        driverNumber,
+        lap: lap.lap,
+        time: lap.lapTime,
+        seconds: lap.lapTimeSeconds,
+      };
+      messages.push({
+        topic: 'laps/sessionbest',
+        eventType: 'session_best_lap',
+        data: { ...this.sessionBest },
+        retain: true,
+      });
+    }
+
+    return messages;
+  }
+
+  private buildStats(
+    driverNumber: string,
+    driver: DriverLapState
+  ): DriverLapStats {
+    const timedLaps = driver.laps.flatMap((lap) =>
+      lap.lapTime !== null && lap.lapTimeSeconds !== null
+        ? [
+            {
+              ref: {
+                lap: lap.lap,
+                time: lap.lapTime,
+                seconds: lap.lapTimeSeconds,
+              },
+              pitLap: lap.pitIn || lap.pitOut,
+            },
+          ]
+        : []
+    );
+
+    const best = timedLaps.reduce<LapTimeRef | null>(
+      (fastest, { ref }) =>
+        !fastest || ref.seconds < fastest.seconds ? ref : fastest,
+      null
+    );
+
+    const cleanLaps = timedLaps
+      .filter(
+        ({ ref, pitLap }) =>
+          !pitLap &&
+          best !== null &&
+          ref.seconds <= best.seconds * CLEAN_LAP_THRESHOLD
+      )
+      .map(({ ref }) => ref.seconds);
+
+    const average = (values: number[]): number =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+    const recent = cleanLaps.slice(-ROLLING_WINDOW);
+
+    let consistency: number | null = null;
+    if (cleanLaps.length >= 2) {
+      const mean = average(cleanLaps);
+      consistency = round(
+        Math.sqrt(average(cleanLaps.map((value) => (value - mean) ** 2)))
+      );
+    }
+
+    return {
+      driverNumber,
+      lapCount: driver.laps.length,
+      lastLap: timedLaps[timedLaps.length - 1]?.ref ?? null,
+      personalBest: best,
+      last5Average: recent.length > 0 ? round(average(recent)) : null,
+      consistency,
+      cleanLapCount: cleanLaps.length,
+    };
+  }
+
+  private getDriver(driverNumber: string): DriverLapState {
+    let driver = this.drivers.get(driverNumber);
+    if (!driver) {
+      driver = {
+        completedLaps: null,
+        sectors: [],
+        pitIn: false,
+        pitOut: false,
+        laps: [],
+      };
+      this.drivers.set(driverNumber, driver);
+    }
+    return driver;
+  }
+}
@@ -0,0 +1,218 @@
+import { AnalyzerMessage, EventAnalyzer, F1Event } from '../types';
+import { toIndexedList } from '../utils/timing';
+import { logger } from '../utils/logger';
+
+export type DriverStatus =
+  | 'running'
+  | 'in_pit'
+  | 'pit_out'
+  | 'retired'
+  | 'stopped'
+  | 'knocked_out';
+
+export interface LeaderboardEntry {
+  position: number;
+  driverNumber: string;
+  tla: string | null;
+  team: string | null;
+  // "+12.345" or "1 L", "LAP 12" for the race leader
+  gapToLeader: string | null;
+  interval: string | null;
+  catching: boolean;
+  laps: number | null;
+  status: DriverStatus;
+  compound: string | null;
+  tyreAge: number | null;
+  lastLapTime: string | null;
+  bestLapTime: string | null;
+}
+
+export interface LeaderboardSnapshot {
+  updatedAt: string;
+  entries: LeaderboardEntry[];
+}
+
+const DEFAULT_TOP_N = 10;
+const SCALAR_FIELDS = ['driver', 'number', 'gap', 'interval'] as const;
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+
+const toStringOrNull = (value: unknown): string | null =>
+  typeof value === 'string' && value !== '' ? value : null;
+
+const toNumberOrNull = (value: unknown): number | null => {
+  const parsed = Number(value);
+  return value !== undefined &&
+    value !== null &&
+    value !== '' &&
+    Number.isFinite(parsed)
+    ? parsed
+    : null;
+};
+
+/**
+ * Leaderboard
+ *
+ * Builds the standings table from the merged TimingData state, with driver
+ * details from DriverList and tyres from TimingAppData. Race sessions use
+ * GapToLeader/IntervalToPositionAhead, practice and qualifying the
+ * TimeDiffToFastest/TimeDiffToPositionAhead fields.
+ *
+ * Topics (below the topic prefix):
+ * - leaderboard: full table (retained)
+ * - leaderboard/p<position>/driver|number|gap|interval: plain values for
+ *   the top N (retained)
+ */
+export class Leaderboard implements EventAnalyzer {
+  readonly name = 'leaderboard';
+  private timingLines: Record<string, unknown> = {};
+  private appLines: Record<string, unknown> = {};
+  private drivers: Record<string, unknown> = {};
+  private entries: LeaderboardEntry[] = [];
+  private lastDocument: string | null = null;
+  private lastScalars = new Map<string, string | number | null>();
+
+  constructor(private readonly topN: number = DEFAULT_TOP_N) {}
+
+  handleEvent(event: F1Event): AnalyzerMessage[] {
+    switch (event.streamName) {
+      case 'TimingData':
+        this.timingLines = asRecord(event.state?.Lines) ?? this.timingLines;
+        break;
+      case 'TimingAppData':
+        this.appLines = asRecord(event.state?.Lines) ?? this.appLines;
+        break;
+      case 'DriverList':
+        this.drivers = event.state ?? this.drivers;
+        break;
+      default:
+        return [];
+    }
+
+    this.entries = this.buildEntries();
+    return this.buildMessages(event.timestamp);
+  }
+
+  reset(): void {
+    this.timingLines = {};
+    this.appLines = {};
+    this.drivers = {};
+    this.entries = [];
+    this.lastDocument = null;
+    this.lastScalars.clear();
+  }
+
+  getEntries(): LeaderboardEntry[] {
+    return [...this.entries];
+  }
+
+  getEntry(driverNumber: string): LeaderboardEntry | null {
+    return (
+      this.entries.find((entry) => entry.driverNumber === driverNumber) ?? null
+    );
+  }
+
+  private buildEntries(): LeaderboardEntry[] {
+    const entries: LeaderboardEntry[] = [];
+
+    for (const [driverNumber, value] of Object.entries(this.timingLines)) {
+      const line = asRecord(value);
+      const position = toNumberOrNull(line?.Position ?? line?.Line);
+      if (!line || position === null) continue;
+
+      const driver = asRecord(this.drivers[driverNumber]);
+      const stints = toIndexedList(
+        asRecord(this.appLines[driverNumber])?.Stints
+      );
+      const stint = stints[stints.length - 1];
+      const interval =
+        asRecord(line.IntervalToPositionAhead) ??
+        asRecord(line.TimeDiffToPositionAhead);
+
+      entries.push({
+        position,
+        driverNumber,
+        tla: toStringOrNull(driver?.Tla),
+        team: toStringOrNull(driver?.TeamName),
+        gapToLeader: toStringOrNull(line.GapToLeader ?? line.TimeDiffToFastest),
+        interval: toStringOrNull(
+          interval?.Value ?? line.TimeDiffToPositionAhead
+        ),
+        catching: interval?.Catching === true,
+        laps: toNumberOrNull(line.NumberOfLaps),
+        status: this.getStatus(line),
+        compound: toStringOrNull(stint?.Compound),
+        tyreAge: toNumberOrNull(stint?.TotalLaps),
+        lastLapTime: toStringOrNull(asRecord(line.LastLapTime)?.Value),
+        bestLapTime: toStringOrNull(asRecord(line.BestLapTime)?.Value),
+      });
+    }
+
+    return entries.sort((a, b) => a.position - b.position);
+  }
+
+  private getStatus(line: Record<string, unknown>): DriverStatus {
+    if (line.Retired === true) return 'retired';
+    if (line.Stopped === true) return 'stopped';
+    if (line.KnockedOut === true) return 'knocked_out';
+    if (line.InPit === true) return 'in_pit';
+    if (line.PitOut === true) return 'pit_out';
+    return 'running';
+  }
+
+  private buildMessages(timestamp: string): AnalyzerMessage[] {
+    const messages: AnalyzerMessage[] = [];
+
+    // TimingData also carries sector and speed updates, skip unchanged tables
+    const document = JSON.stringify(this.entries);
+    if (document !== this.lastDocument) {
+      this.lastDocument = document;
+      const snapshot: LeaderboardSnapshot = {
+        updatedAt: timestamp,
+        entries: this.entries,
+      };
+      messages.push({
+        topic: 'leaderboard',
+        eventType: 'leaderboard',
+        data: { ...snapshot },
+        retain: true,
+      });
+    }
+
+    for (const entry of this.entries.slice(0, this.topN)) {
+      const values: Record<(typeof SCALAR_FIELDS)[number], string | null> = {
+        driver: entry.tla ?? entry.driverNumber,
+        number: entry.driverNumber,
+        gap: entry.gapToLeader,
+        interval: entry.interval,
+      };
+
+      for (const field of SCALAR_FIELDS) {
+        const topic = `leaderboard/p${entry.position}/${field}`;
+        const value = values[field];
+        if (this.lastScalars.get(topic) === value) continue;
+
+        this.lastScalars.set(topic, value);
+        messages.push({
+          topic,
+          eventType: 'leaderboard_value',
+          data: { value },
+          retain: true,
+          raw: true,
+        });
+      }
+    }
+
+    if (messages.length > 0) {
+      logger.debug('Leaderboard updated', {
+        drivers: this.entries.length,
+        messages: messages.length,
+      });
+    }
+
+    return messages;
+  }
+}
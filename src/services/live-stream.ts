@@ -0,0 +1,341 @@
+import express, { Request, Response, Router } from 'express';
+import { IncomingMessage } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { DerivedMessage, EventProcessor } from './event-processor';
+import { SessionStateStore } from './session-state';
+import { getStreamEventType } from '../config/streams';
+import { F1Event } from '../types';
+import { logger } from '../utils/logger';
+import { isValidTopicFilter, matchesMqttPattern } from '../utils/mqtt-topics';
+
+/**
+ * Message pushed to /stream and /ws clients. A snapshot carries the merged
+ * state of a stream, events carry what is published to MQTT: stream data,
+ * driver topics and analyzer messages.
+ */
+export interface LiveStreamMessage {
+  type: 'snapshot' | 'event';
+  // Topic below the MQTT topic prefix, matched against the client filters
+  topic: string;
+  // Only set for stream data, not for driver topics and analyzer messages
+  streamName?: string;
+  eventType: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export interface LiveStreamOptions {
+  // Keep-alive for SSE comments and WebSocket pings
+  heartbeatInterval?: number;
+  // Clients with more unsent data are disconnected
+  maxBufferedBytes?: number;
+}
+
+export interface LiveStreamStatus {
+  sseClients: number;
+  wsClients: number;
+}
+
+interface LiveStreamClient {
+  kind: 'sse' | 'ws';
+  topics: string[];
+  send(type: LiveStreamMessage['type'], payload: string): void;
+  heartbeat(): void;
+  close(): void;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15000;
+const DEFAULT_MAX_BUFFERED_BYTES = 1024 * 1024;
+
+/**
+ * Parse ?topics=timingdata,drivers/+/timing, all topics when unset
+ * @throws Error naming the invalid topic filters
+ */
+export function parseTopicFilters(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  const topics = values
+    .flatMap((entry) => (typeof entry === 'string' ? entry.split(',') : []))
+    .map((topic) => topic.trim())
+    .filter((topic) => topic.length > 0);
+
+  const invalid = topics.filter((topic) => !isValidTopicFilter(topic));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid topic filters: ${invalid.join(', ')}`);
+  }
+  return topics.length > 0 ? topics : ['#'];
+}
+
+/**
+ * Pushes processed F1 events to browsers over Server-Sent Events and
+ * WebSocket. Clients pick topics with MQTT wildcards and get the current
+ * session state first, then every event as it is published.
+ */
+export class LiveStream {
+  private eventProcessor: EventProcessor;
+  private sessionState: SessionStateStore;
+  private heartbeatInterval: number;
+  private maxBufferedBytes: number;
+  private clients = new Set<LiveStreamClient>();
+  private wsServer: WebSocketServer;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private onEvent = (event: F1Event, topic: string): void =>
+    this.broadcast(topic, () => ({
+      type: 'event',
+      topic,
+      ...(event.streamName && { streamName: event.streamName }),
+      eventType: event.eventType,
+      timestamp: event.timestamp,
+      data: event.data,
+    }));
+  private onMessages = (event: F1Event, messages: DerivedMessage[]): void => {
+    for (const { topic, eventType, data } of messages) {
+      this.broadcast(topic, () => ({
+        type: 'event',
+        topic,
+        eventType,
+        timestamp: event.timestamp,
+        data,
+      }));
+    }
+  };
+
+  constructor(
+    eventProcessor: EventProcessor,
+    sessionState: SessionStateStore,
+    options: LiveStreamOptions = {}
+  ) {
+    this.eventProcessor = eventProcessor;
+    this.sessionState = sessionState;
+    this.heartbeatInterval =
+      options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+    this.maxBufferedBytes =
+      options.maxBufferedBytes ?? DEFAULT_MAX_BUFFERED_BYTES;
+
+    this.wsServer = new WebSocketServer({ noServer: true });
+    this.wsServer.on('connection', (socket, request) =>
+      this.acceptWebSocket(socket, request)
+    );
+    this.eventProcessor.on('event-processed', this.onEvent);
+    this.eventProcessor.on('messages-processed', this.onMessages);
+  }
+
+  /**
+   * Server-Sent Events endpoint, mounted at /stream
+   */
+  createSseRouter(): Router {
+    const router = express.Router();
+    router.get('/', (req: Request, res: Response) => this.acceptSse(req, res));
+    return router;
+  }
+
+  /**
+   * WebSocket server for the /ws upgrade requests
+   */
+  getWebSocketServer(): WebSocketServer {
+    return this.wsServer;
+  }
+
+  getStatus(): LiveStreamStatus {
+    let sseClients = 0;
+    for (const client of this.clients) {
+      if (client.kind === 'sse') sseClients++;
+    }
+    return { sseClients, wsClients: this.clients.size - sseClients };
+  }
+
+  /**
+   * Disconnect all clients, open SSE responses would keep the server alive
+   */
+  stop(): void {
+    this.eventProcessor.off('event-processed', this.onEvent);
+    this.eventProcessor.off('messages-processed', this.onMessages);
+    for (const client of this.clients) {
+      client.close();
+    }
+    this.clients.clear();
+    this.wsServer.close();
+    this.updateHeartbeat();
+  }
+
+  private acceptSse(req: Request, res: Response): void {
+    let topics: string[];
+    try {
+      topics = parseTopicFilters(req.query.topics);
+    } catch (error) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: (error as Error).message,
+      });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const client: LiveStreamClient = {
+      kind: 'sse',
+      topics,
+      send: (type, payload): void => {
+        if (res.writableLength > this.maxBufferedBytes) {
+          this.dropSlowClient(client);
+          return;
+        }
+        res.write(`event: ${type}\ndata: ${payload}\n\n`);
+      },
+      heartbeat: (): void => {
+        res.write(': ping\n\n');
+      },
+      close: (): void => {
+        res.end();
+      },
+    };
+
+    req.on('close', () => this.removeClient(client));
+    this.addClient(client);
+  }
+
+  private acceptWebSocket(socket: WebSocket, request: IncomingMessage): void {
+    let topics: string[];
+    try {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      topics = parseTopicFilters(url.searchParams.getAll('topics'));
+    } catch (error) {
+      socket.close(1008, (error as Error).message);
+      return;
+    }
+
+    let alive = true;
+    socket.on('pong', () => {
+      alive = true;
+    });
+
+    const client: LiveStreamClient = {
+      kind: 'ws',
+      topics,
+      send: (type, payload): void => {
+        if (socket.bufferedAmount > this.maxBufferedBytes) {
+          this.dropSlowClient(client);
+          return;
+        }
+        socket.send(payload);
+      },
+      heartbeat: (): void => {
+        if (!alive) {
+          socket.terminate();
+          return;
+        }
+        alive = false;
+        socket.ping();
+      },
+      close: (): void => {
+        socket.close(1001, 'Server shutting down');
+      },
+    };
+
+    // {"topics": ["leaderboard", "drivers/+/timing"]} replaces the filters
+    socket.on('message', (data) => {
+      try {
+        const request = JSON.parse(data.toString()) as { topics?: unknown };
+        client.topics = parseTopicFilters(request.topics);
+        socket.send(
+          JSON.stringify({ type: 'subscribed', topics: client.topics })
+        );
+        this.sendSnapshot(client);
+      } catch (error) {
+        socket.send(
+          JSON.stringify({ type: 'error', message: (error as Error).message })
+        );
+      }
+    });
+    socket.on('close', () => this.removeClient(client));
+    socket.on('error', (error) => {
+      logger.debug('Live stream WebSocket error', { error: error.message });
+    });
+
+    this.addClient(client);
+  }
+
+  private addClient(client: LiveStreamClient): void {
+    this.clients.add(client);
+    this.updateHeartbeat();
+    logger.debug('Live stream client connected', {
+      kind: client.kind,
+      topics: client.topics,
+    });
+    this.sendSnapshot(client);
+  }
+
+  private removeClient(client: LiveStreamClient): void {
+    if (!this.clients.delete(client)) return;
+    this.updateHeartbeat();
+    logger.debug('Live stream client disconnected', { kind: client.kind });
+  }
+
+  private dropSlowClient(client: LiveStreamClient): void {
+    logger.warn('Disconnecting slow live stream client', {
+      kind: client.kind,
+    });
+    this.removeClient(client);
+    client.close();
+  }
+
+  // Current state of every stream the client subscribed to
+  private sendSnapshot(client: LiveStreamClient): void {
+    const timestamp = new Date().toISOString();
+    for (const [streamName, data] of Object.entries(
+      this.sessionState.getSnapshot()
+    )) {
+      const eventType = getStreamEventType(streamName);
+      const topic = this.eventProcessor.getEventTopic({
+        eventType,
+        streamName,
+      });
+      if (!this.matches(client, topic)) continue;
+
+      const message: LiveStreamMessage = {
+        type: 'snapshot',
+        topic,
+        streamName,
+        eventType,
+        timestamp,
+        data,
+      };
+      client.send('snapshot', JSON.stringify(message));
+    }
+  }
+
+  private broadcast(topic: string, build: () => LiveStreamMessage): void {
+    let payload: string | null = null;
+    for (const client of this.clients) {
+      if (!this.matches(client, topic)) continue;
+
+      // Serialize once, only when someone listens
+      payload ??= JSON.stringify(build());
+      client.send('event', payload);
+    }
+  }
+
+  private matches(client: LiveStreamClient, topic: string): boolean {
+    return client.topics.some((pattern) => matchesMqttPattern(topic, pattern));
+  }
+
+  // Run the heartbeat only while clients are connected
+  private updateHeartbeat(): void {
+    if (this.clients.size > 0 && !this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => {
+        for (const client of this.clients) {
+          client.heartbeat();
+        }
+      }, this.heartbeatInterval);
+    } else if (this.clients.size === 0 && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
@@ -1,20 +1,113 @@
 import { EventEmitter } from 'events';
 import * as mqtt from 'mqtt';
-import { MqttConfig, MqttMessage } from '../types';
+import {
+  MqttCommand,
+  MqttCommandResult,
+  MqttConfig,
+  MqttMessage,
+} from '../types';
 import { logger } from '../utils/logger';
+import { matchesMqttPattern } from '../utils/mqtt-topics';
+import { OfflineQueue } from './offline-queue';
+
+export interface MqttAvailability {
+  birthTopic: string;
+  birthMessage: string;
+  willTopic: string;
+  willMessage: string;
+}
+
+// Node TLS error codes and what usually causes them
+const TLS_ERROR_HINTS: Record<string, string> = {
+  SELF_SIGNED_CERT_IN_CHAIN:
+    'broker certificate is signed by an unknown CA, set MQTT_TLS_CA',
+  DEPTH_ZERO_SELF_SIGNED_CERT:
+    'broker uses a self-signed certificate, set MQTT_TLS_CA to it',
+  UNABLE_TO_GET_ISSUER_CERT_LOCALLY:
+    'issuer of the broker certificate is unknown, set MQTT_TLS_CA',
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE:
+    'broker certificate chain is incomplete or MQTT_TLS_CA is wrong',
+  CERT_HAS_EXPIRED: 'broker certificate has expired',
+  CERT_NOT_YET_VALID: 'broker certificate is not valid yet, check the clock',
+  ERR_TLS_CERT_ALTNAME_INVALID:
+    'broker certificate does not match the host, set MQTT_TLS_SERVERNAME',
+  ERR_OSSL_BAD_DECRYPT: 'wrong MQTT_TLS_KEY_PASSPHRASE for the client key',
+  ERR_OSSL_PEM_NO_START_LINE: 'CA, certificate or key is not a PEM file',
+  EPROTO: 'TLS handshake failed, is the broker URL using the TLS port?',
+};
+
+/**
+ * Explain a TLS handshake error, e.g. a certificate the CA cannot verify
+ * @returns A hint, or null when the error is not TLS related
+ */
+export function describeTlsError(error: Error): string | null {
+  // The broker rejected the client certificate during the handshake
+  if (
+    /alert (bad certificate|certificate required|unknown ca)/i.test(
+      error.message
+    )
+  ) {
+    return 'broker rejected the client certificate, check MQTT_TLS_CERT and MQTT_TLS_KEY';
+  }
+
+  const code = (error as NodeJS.ErrnoException).code;
+  const hint = code ? TLS_ERROR_HINTS[code] : undefined;
+  if (hint) return hint;
+
+  if (/ssl|tls|certificate/i.test(error.message)) {
+    return 'TLS handshake failed';
+  }
+  return null;
+}
+
+/**
+ * TLS and WebSocket client options for mqtts:// and wss:// brokers
+ */
+export function buildTransportOptions(
+  config: MqttConfig
+): Partial<mqtt.IClientOptions> {
+  const tls = config.tls ?? {};
+  const options: Partial<mqtt.IClientOptions> = {
+    ...(tls.ca && { ca: tls.ca }),
+    ...(tls.cert && { cert: tls.cert }),
+    ...(tls.key && { key: tls.key }),
+    ...(tls.passphrase && { passphrase: tls.passphrase }),
+    ...(tls.servername && { servername: tls.servername }),
+    rejectUnauthorized: tls.rejectUnauthorized ?? true,
+  };
+
+  if (config.wsHeaders && Object.keys(config.wsHeaders).length > 0) {
+    options.wsOptions = { headers: config.wsHeaders };
+  }
+
+  return options;
+}
 
 export class MqttPublisher extends EventEmitter {
   private client: mqtt.MqttClient | null = null;
   private config: MqttConfig;
   private isConnected = false;
-  private messageQueue: MqttMessage[] = [];
+  private offlineQueue: OfflineQueue | null = null;
+  private flushing = false;
   private memoryCleanupTimer: NodeJS.Timeout | null = null;
+  private publishedCount = 0;
+  private failedCount = 0;
   private readonly MAX_QUEUE_SIZE = 1000;
 
   constructor(config: MqttConfig) {
     super();
     this.config = config;
 
+    if (this.config.offlineQueue?.enabled !== false) {
+      this.offlineQueue = new OfflineQueue({
+        maxSize: this.config.offlineQueue?.maxSize ?? this.MAX_QUEUE_SIZE,
+        dropPolicy: this.config.offlineQueue?.dropPolicy ?? 'latest-per-topic',
+        ...(this.config.offlineQueue?.persistPath && {
+          persistPath: this.config.offlineQueue.persistPath,
+        }),
+      });
+    }
+
     // Prevent memory leaks from EventEmitter
     this.setMaxListeners(15);
 
@@ -34,22 +127,10 @@ export class MqttPublisher extends EventEmitter {
 
   private performMemoryCleanup(): void {
     try {
-      // Clear message queue if it gets too large
-      if (this.messageQueue.length > this.MAX_QUEUE_SIZE) {
-        const removedCount =
-          this.messageQueue.length - Math.floor(this.MAX_QUEUE_SIZE * 0.8);
-        this.messageQueue = this.messageQueue.slice(
-          -Math.floor(this.MAX_QUEUE_SIZE * 0.8)
-        );
-        logger.debug('🧹 MQTT: Cleaned up message queue', {
-          removedMessages: removedCount,
-          newSize: this.messageQueue.length,
-        });
-      }
-
-      // Log queue status
+      // Log queue status (the offline queue enforces its own size limit)
       logger.debug('📊 MQTT Queue Status', {
-        queueSize: this.messageQueue.length,
+        queueSize: this.offlineQueue?.size() ?? 0,
+        droppedMessages: this.offlineQueue?.getDroppedCount() ?? 0,
         connected: this.isConnected,
         clientConnected: this.client?.connected || false,
       });
@@ -63,9 +144,26 @@ export class MqttPublisher extends EventEmitter {
   async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
+        const secure = /^(mqtts|tls|ssl|wss):/i.test(this.config.brokerUrl);
         logger.info('Connecting to MQTT broker...', {
           brokerUrl: this.config.brokerUrl,
+          tls: secure,
+          ...(secure && {
+            customCa: !!this.config.tls?.ca,
+            clientCertificate: !!this.config.tls?.cert,
+            rejectUnauthorized: this.config.tls?.rejectUnauthorized ?? true,
+          }),
         });
+        if (secure && this.config.tls?.rejectUnauthorized === false) {
+          logger.warn(
+            'MQTT broker certificate is not verified (MQTT_TLS_REJECT_UNAUTHORIZED=false)'
+          );
+        }
+        if (!secure && (this.config.tls?.ca || this.config.tls?.cert)) {
+          logger.warn(
+            'MQTT TLS settings are ignored, use an mqtts:// or wss:// broker URL'
+          );
+        }
 
         const options: mqtt.IClientOptions = {
           ...(this.config.clientId && { clientId: this.config.clientId }),
@@ -75,6 +173,7 @@ export class MqttPublisher extends EventEmitter {
           keepalive: this.config.keepalive || 30,
           protocolVersion: this.config.protocolVersion || 4,
           reschedulePings: true,
+          ...buildTransportOptions(this.config),
           // EMQX-spezifische Optimierungen
           resubscribe: false,
           queueQoSZero: false,
@@ -93,16 +192,13 @@ export class MqttPublisher extends EventEmitter {
         };
 
         // Configure Last Will Testament
-        const willTopic =
-          this.config.willTopic || `${this.config.topicPrefix || 'f1'}/status`;
-        if (willTopic) {
-          options.will = {
-            topic: willTopic,
-            payload: this.config.willMessage || 'offline',
-            qos: 1,
-            retain: true,
-          };
-        }
+        const { willTopic, willMessage } = this.getAvailability();
+        options.will = {
+          topic: willTopic,
+          payload: willMessage,
+          qos: 1,
+          retain: true,
+        };
 
         if (this.config.username && this.config.password) {
           options.username = this.config.username;
@@ -126,8 +222,12 @@ export class MqttPublisher extends EventEmitter {
           // Log retained topics configuration
           this.logRetainedTopicsConfig();
 
-          // Publish birth message
-          this.publishBirthMessage();
+          // Listen for runtime commands
+          this.subscribeToCommands();
+
+          // Send messages queued while the broker was unreachable, then the
+          // birth message so nothing queued can overwrite it
+          void this.flushOfflineQueue().then(() => this.publishBirthMessage());
 
           this.emit('connected');
           resolve();
@@ -145,7 +245,16 @@ export class MqttPublisher extends EventEmitter {
             errorDetails.errno = (error as unknown as { errno: unknown }).errno;
           }
 
-          logger.error('MQTT connection error', errorDetails);
+          const tlsHint = describeTlsError(error);
+          if (tlsHint) {
+            logger.error('MQTT TLS handshake failed', {
+              ...errorDetails,
+              brokerUrl: this.config.brokerUrl,
+              hint: tlsHint,
+            });
+          } else {
+            logger.error('MQTT connection error', errorDetails);
+          }
           this.emit('error', error);
           if (!this.isConnected) {
             reject(error);
@@ -202,11 +311,12 @@ export class MqttPublisher extends EventEmitter {
           this.isConnected = false;
         });
 
-        this.client.on('message', (topic, message) => {
+        this.client.on('message', (topic, message, packet) => {
           logger.debug('MQTT message received', {
             topic,
             size: message.length,
           });
+          this.handleCommandMessage(topic, message, packet);
         });
       } catch (error) {
         logger.error('Failed to create MQTT client', {
@@ -218,41 +328,61 @@ export class MqttPublisher extends EventEmitter {
   }
 
   async publish(message: MqttMessage): Promise<void> {
+    // Queue while offline, and while flushing to keep messages in order
+    if (this.offlineQueue && (!this.isConnected || this.flushing)) {
+      this.offlineQueue.enqueue(message);
+      logger.debug('Queued MQTT message while offline', {
+        topic: message.topic,
+        queueSize: this.offlineQueue.size(),
+      });
+      return;
+    }
+
+    await this.publishNow(message);
+  }
+
+  private async publishNow(message: MqttMessage): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.client || !this.isConnected) {
         const error = new Error('MQTT client not connected');
         logger.error('Cannot publish message', { error: error.message });
+        this.failedCount++;
+        this.emit('publish-failed', message.topic);
         reject(error);
         return;
       }
 
       const qos = message.qos ?? this.config.qos ?? 1;
       const retain = message.retain ?? this.config.retain ?? false;
+      const options: mqtt.IClientPublishOptions = { qos, retain };
 
-      this.client.publish(
-        message.topic,
-        message.payload,
-        { qos, retain },
-        (error) => {
-          if (error) {
-            logger.error('Failed to publish MQTT message', {
-              error: error.message,
-              topic: message.topic,
-            });
-            reject(error);
-          } else {
-            logger.debug('Published MQTT message', {
-              topic: message.topic,
-              qos,
-              retain,
-              payloadSize: Buffer.isBuffer(message.payload)
-                ? message.payload.length
-                : message.payload.length,
-            });
-            resolve();
-          }
+      if (message.correlationData && this.config.protocolVersion === 5) {
+        options.properties = { correlationData: message.correlationData };
+      }
+
+      this.client.publish(message.topic, message.payload, options, (error) => {
+        if (error) {
+          logger.error('Failed to publish MQTT message', {
+            error: error.message,
+            topic: message.topic,
+          });
+          this.failedCount++;
+          this.emit('publish-failed', message.topic);
+          reject(error);
+        } else {
+          this.publishedCount++;
+          this.emit('published', message.topic);
+          logger.debug('Published MQTT message', {
+            topic: message.topic,
+            qos,
+            retain,
+            payloadSize: Buffer.isBuffer(message.payload)
+              ? message.payload.length
+              : message.payload.length,
+          });
+          resolve();
         }
-      );
+      });
     });
   }
 
@@ -260,7 +390,20 @@ export class MqttPublisher extends EventEmitter {
     eventType: string,
     data: Record<string, unknown>
   ): Promise<void> {
-    const topic = this.buildTopic(eventType);
+    await this.publishToTopic(this.buildSubTopic(eventType), eventType, data);
+  }
+
+  /**
+   * Publish event data to a topic below the topic prefix, e.g. 'drivers/44/timing'
+   * @param retain - Overrides the retained topic patterns when set
+   */
+  async publishToTopic(
+    subTopic: string,
+    eventType: string,
+    data: Record<string, unknown>,
+    retain?: boolean
+  ): Promise<void> {
+    const topic = `${this.config.topicPrefix || 'f1'}/${subTopic}`;
     const payload = JSON.stringify({
       timestamp: new Date().toISOString(),
       eventType,
@@ -268,7 +411,7 @@ export class MqttPublisher extends EventEmitter {
     });
 
     // Determine if this topic should be retained
-    const shouldRetain = this.shouldRetainTopic(topic);
+    const shouldRetain = retain ?? this.shouldRetainTopic(topic);
 
     const message: MqttMessage = {
       topic,
@@ -283,23 +426,173 @@ export class MqttPublisher extends EventEmitter {
     await this.publish(message);
   }
 
-  async publishHomeAssistantDiscovery(
-    deviceConfig: Record<string, unknown>
+  /**
+   * Publish a plain value without the JSON envelope, e.g. 'leaderboard/p1/driver'
+   * @param retain - Overrides the retained topic patterns when set
+   */
+  async publishValue(
+    subTopic: string,
+    value: string | number | null,
+    retain?: boolean
   ): Promise<void> {
-    const topic = `${this.config.topicPrefix || 'f1'}/homeassistant/discovery`;
-    const payload = JSON.stringify(deviceConfig);
-
-    await this.publish({
+    const topic = `${this.config.topicPrefix || 'f1'}/${subTopic}`;
+    const message: MqttMessage = {
       topic,
-      payload,
+      payload: value === null ? '' : String(value),
+      retain: retain ?? this.shouldRetainTopic(topic),
+    };
+
+    if (this.config.qos !== undefined) {
+      message.qos = this.config.qos;
+    }
+
+    await this.publish(message);
+  }
+
+  /**
+   * Publish queued messages in order until the queue is empty or the
+   * connection drops again
+   */
+  private async flushOfflineQueue(): Promise<void> {
+    if (!this.offlineQueue || this.flushing || this.offlineQueue.size() === 0) {
+      return;
+    }
+
+    this.flushing = true;
+    const queuedCount = this.offlineQueue.size();
+    let sentCount = 0;
+    logger.info('Flushing offline MQTT queue', { queuedCount });
+
+    try {
+      let message = this.offlineQueue.shift();
+      while (message) {
+        try {
+          await this.publishNow(message);
+          sentCount++;
+        } catch (error) {
+          this.offlineQueue.unshift(message);
+          logger.warn('Stopped flushing offline MQTT queue', {
+            error: (error as Error).message,
+            remaining: this.offlineQueue.size(),
+          });
+          return;
+        }
+        message = this.isConnected ? this.offlineQueue.shift() : undefined;
+      }
+    } finally {
+      this.flushing = false;
+      logger.info('Flushed offline MQTT queue', {
+        sentCount,
+        remaining: this.offlineQueue.size(),
+      });
+    }
+  }
+
+  /**
+   * Messages delivered to and failed to deliver to the broker
+   */
+  getPublishStats(): { published: number; failed: number } {
+    return { published: this.publishedCount, failed: this.failedCount };
+  }
+
+  getOfflineQueueStatus(): { size: number; dropped: number; enabled: boolean } {
+    return {
+      size: this.offlineQueue?.size() ?? 0,
+      dropped: this.offlineQueue?.getDroppedCount() ?? 0,
+      enabled: this.offlineQueue !== null,
+    };
+  }
+
+  /**
+   * Publish the result of a command
+   *
+   * Uses the MQTT 5 response topic and correlation data of the request when
+   * present, otherwise the result goes to <topicPrefix>/cmd/result.
+   */
+  async publishCommandResult(
+    command: MqttCommand,
+    result: MqttCommandResult
+  ): Promise<void> {
+    const useResponseTopic =
+      this.config.protocolVersion === 5 && !!command.responseTopic;
+
+    const message: MqttMessage = {
+      topic: useResponseTopic
+        ? (command.responseTopic as string)
+        : `${this.getCommandTopicPrefix()}/result`,
+      payload: JSON.stringify(result),
       qos: 1,
-      retain: true,
+      retain: false,
+    };
+
+    if (useResponseTopic && command.correlationData) {
+      message.correlationData = command.correlationData;
+    }
+
+    await this.publish(message);
+  }
+
+  private getCommandTopicPrefix(): string {
+    return `${this.getTopicPrefix()}/cmd`;
+  }
+
+  private subscribeToCommands(): void {
+    if (!this.client || this.config.commandsEnabled !== true) return;
+
+    const commandTopic = `${this.getCommandTopicPrefix()}/#`;
+    this.client.subscribe(commandTopic, { qos: 1 }, (error) => {
+      if (error) {
+        logger.error('Failed to subscribe to command topics', {
+          error: error.message,
+          topic: commandTopic,
+        });
+      } else {
+        logger.info('Subscribed to command topics', { topic: commandTopic });
+      }
     });
   }
 
-  private buildTopic(eventType: string): string {
-    const prefix = this.config.topicPrefix || 'f1';
-    return `${prefix}/${eventType.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase()}`;
+  private handleCommandMessage(
+    topic: string,
+    message: Buffer,
+    packet: mqtt.IPublishPacket
+  ): void {
+    const commandPrefix = `${this.getCommandTopicPrefix()}/`;
+    if (!topic.startsWith(commandPrefix)) return;
+
+    const name = topic.substring(commandPrefix.length);
+    // Ignore our own results and retained leftovers
+    if (!name || name === 'result' || packet.retain) return;
+
+    const command: MqttCommand = {
+      name,
+      payload: message.toString(),
+      ...(packet.properties?.responseTopic && {
+        responseTopic: packet.properties.responseTopic,
+      }),
+      ...(packet.properties?.correlationData && {
+        correlationData: packet.properties.correlationData,
+      }),
+    };
+
+    logger.info('MQTT command received', {
+      command: name,
+      payloadSize: message.length,
+      hasResponseTopic: !!command.responseTopic,
+    });
+    this.emit('command', command);
+  }
+
+  private buildSubTopic(eventType: string): string {
+    return eventType.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+  }
+
+  /**
+   * Replace the retained topic patterns at runtime, e.g. on a config reload
+   */
+  setRetainedTopics(retainedTopics: string[]): void {
+    this.config.retainedTopics = retainedTopics;
+    this.logRetainedTopicsConfig();
   }
 
   /**
@@ -321,7 +614,7 @@ export class MqttPublisher extends EventEmitter {
 
     // Check each retained topic pattern
     for (const pattern of this.config.retainedTopics) {
-      if (this.matchesMqttPattern(topicWithoutPrefix, pattern)) {
+      if (matchesMqttPattern(topicWithoutPrefix, pattern)) {
         logger.debug('Topic matched MQTT retain pattern', {
           topic: topicWithoutPrefix,
           pattern,
@@ -335,71 +628,6 @@ export class MqttPublisher extends EventEmitter {
     return this.config.retain ?? false;
   }
 
-  /**
-   * Check if a topic matches an MQTT pattern with standard wildcards
-   * Supports MQTT standard wildcards:
-   * - + matches any single topic level
-   * - # matches any number of topic levels (must be last character)
-   */
-  private matchesMqttPattern(topic: string, pattern: string): boolean {
-    // Handle exact match first
-    if (pattern === topic) return true;
-
-    // Validate # wildcard usage (must be last and alone in level)
-    if (pattern.includes('#')) {
-      if (
-        !pattern.endsWith('#') ||
-        (pattern !== '#' && !pattern.endsWith('/#'))
-      ) {
-        logger.warn('Invalid MQTT pattern: # must be last character', {
-          pattern,
-        });
-        return false;
-      }
-    }
-
-    // Split into topic levels
-    const topicLevels = topic.split('/');
-    const patternLevels = pattern.split('/');
-
-    // Handle # wildcard (matches all remaining levels)
-    if (pattern.endsWith('#')) {
-      const patternWithoutHash =
-        pattern === '#' ? [] : patternLevels.slice(0, -1);
-
-      // Must have at least as many levels as pattern before #
-      if (topicLevels.length < patternWithoutHash.length) {
-        return false;
-      }
-
-      // Check levels before # wildcard
-      for (let i = 0; i < patternWithoutHash.length; i++) {
-        if (
-          patternWithoutHash[i] !== '+' &&
-          patternWithoutHash[i] !== topicLevels[i]
-        ) {
-          return false;
-        }
-      }
-
-      return true;
-    }
-
-    // Without #, must have exact same number of levels
-    if (topicLevels.length !== patternLevels.length) {
-      return false;
-    }
-
-    // Check each level
-    for (let i = 0; i < patternLevels.length; i++) {
-      if (patternLevels[i] !== '+' && patternLevels[i] !== topicLevels[i]) {
-        return false;
-      }
-    }
-
-    return true;
-  }
-
   async disconnect(): Promise<void> {
     return new Promise((resolve) => {
       try {
@@ -409,8 +637,8 @@ export class MqttPublisher extends EventEmitter {
           this.memoryCleanupTimer = null;
         }
 
-        // Clear message queue
-        this.messageQueue = [];
+        // Keep queued messages on disk for the next start
+        this.offlineQueue?.close();
 
         if (this.client && this.isConnected) {
           logger.info('Disconnecting from MQTT broker...');
@@ -447,9 +675,7 @@ export class MqttPublisher extends EventEmitter {
   private publishBirthMessage(): void {
     if (!this.client || !this.isConnected) return;
 
-    const birthTopic =
-      this.config.birthTopic || `${this.config.topicPrefix || 'f1'}/status`;
-    const birthMessage = this.config.birthMessage || 'online';
+    const { birthTopic, birthMessage } = this.getAvailability();
 
     this.client.publish(
       birthTopic,
@@ -472,18 +698,38 @@ export class MqttPublisher extends EventEmitter {
     );
   }
 
-  private publishOnlineStatus(status: 'online' | 'offline'): void {
+  /**
+   * Publish the last will message directly, bypassing the offline queue so a
+   * stale status is never replayed after the next start
+   */
+  async publishWillMessage(): Promise<void> {
     if (!this.client || !this.isConnected) return;
 
-    const topic = `${this.config.topicPrefix || 'f1'}/status`;
-    this.client.publish(topic, status, { qos: 1, retain: true }, (error) => {
-      if (error) {
-        logger.error('Failed to publish online status', {
-          error: error.message,
-        });
-      } else {
-        logger.debug('Published online status', { status });
-      }
+    const { willTopic, willMessage } = this.getAvailability();
+    const client = this.client;
+
+    return new Promise((resolve, reject) => {
+      client.publish(
+        willTopic,
+        willMessage,
+        { qos: 1, retain: true },
+        (error) => {
+          if (error) {
+            logger.error('Failed to publish last will message', {
+              error: error.message,
+              topic: willTopic,
+              message: willMessage,
+            });
+            reject(error);
+          } else {
+            logger.info('Published last will message', {
+              topic: willTopic,
+              message: willMessage,
+            });
+            resolve();
+          }
+        }
+      );
     });
   }
 
@@ -491,8 +737,25 @@ export class MqttPublisher extends EventEmitter {
     return this.isConnected;
   }
 
+  getTopicPrefix(): string {
+    return this.config.topicPrefix || 'f1';
+  }
+
+  /**
+   * Topics and payloads of the birth and last will messages
+   */
+  getAvailability(): MqttAvailability {
+    const statusTopic = `${this.getTopicPrefix()}/status`;
+    return {
+      birthTopic: this.config.birthTopic || statusTopic,
+      birthMessage: this.config.birthMessage || 'online',
+      willTopic: this.config.willTopic || statusTopic,
+      willMessage: this.config.willMessage || 'offline',
+    };
+  }
+
   /**
-   * Log the retained topics configuration at startup
+   * Log the retained topics configuration at startup and after changes
    */
   private logRetainedTopicsConfig(): void {
     const retainedTopics = this.config.retainedTopics;
@@ -526,6 +789,8 @@ export class MqttPublisher extends EventEmitter {
         'sessioninfo',
         'sessiondata',
         'driver1/status',
+        'drivers/44/timing',
+        'drivers/44/telemetry',
         'session/status',
         'weather/temperature',
         'weather/humidity/current',
@@ -535,7 +800,7 @@ export class MqttPublisher extends EventEmitter {
       const matchExamples: { pattern: string; matches: string[] }[] = [];
       retainedTopics.slice(0, 3).forEach((pattern) => {
         const matches = exampleTopics.filter((topic) =>
-          this.matchesMqttPattern(topic, pattern)
+          matchesMqttPattern(topic, pattern)
         );
         if (matches.length > 0) {
           matchExamples.push({ pattern, matches: matches.slice(0, 3) });
@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import { MqttMessage, OfflineQueueDropPolicy } from '../types';
+import { logger } from '../utils/logger';
+
+export interface OfflineQueueConfig {
+  maxSize: number;
+  // drop-oldest: plain FIFO, the oldest message is dropped when full
+  // latest-per-topic: retained messages replace older ones on the same
+  //   topic, non-retained messages are dropped first when full
+  dropPolicy: OfflineQueueDropPolicy;
+  // Optional file to keep queued messages across restarts
+  persistPath?: string;
+}
+
+interface PersistedMessage {
+  topic: string;
+  payload: string;
+  encoding: 'utf8' | 'base64';
+  qos?: 0 | 1 | 2;
+  retain?: boolean;
+}
+
+const PERSIST_DEBOUNCE_MS = 1000;
+
+/**
+ * Bounded queue for MQTT messages published while the broker is unreachable
+ */
+export class OfflineQueue {
+  private config: OfflineQueueConfig;
+  private messages: MqttMessage[] = [];
+  private droppedCount = 0;
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: OfflineQueueConfig) {
+    this.config = config;
+    this.load();
+  }
+
+  enqueue(message: MqttMessage): void {
+    if (this.config.dropPolicy === 'latest-per-topic' && message.retain) {
+      const index = this.messages.findIndex(
+        (queued) => queued.retain && queued.topic === message.topic
+      );
+      if (index !== -1) {
+        this.messages.splice(index, 1);
+      }
+    }
+
+    this.messages.push(message);
+
+    while (this.messages.length > this.config.maxSize) {
+      this.dropOne();
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Take the oldest queued message
+   */
+  shift(): MqttMessage | undefined {
+    const message = this.messages.shift();
+    if (message) {
+      this.schedulePersist();
+    }
+    return message;
+  }
+
+  /**
+   * Put a message back at the front, e.g. after a failed flush
+   */
+  unshift(message: MqttMessage): void {
+    this.messages.unshift(message);
+    this.schedulePersist();
+  }
+
+  size(): number {
+    return this.messages.length;
+  }
+
+  getDroppedCount(): number {
+    return this.droppedCount;
+  }
+
+  clear(): void {
+    this.messages = [];
+    this.schedulePersist();
+  }
+
+  /**
+   * Write pending changes to disk and stop the persist timer
+   */
+  close(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      this.persist();
+    }
+  }
+
+  private dropOne(): void {
+    let index = 0;
+    if (this.config.dropPolicy === 'latest-per-topic') {
+      // Keep retained state as long as possible
+      const nonRetained = this.messages.findIndex((queued) => !queued.retain);
+      index = nonRetained !== -1 ? nonRetained : 0;
+    }
+
+    const [dropped] = this.messages.splice(index, 1);
+    this.droppedCount++;
+
+    logger.debug('Offline queue full, dropped message', {
+      topic: dropped?.topic,
+      dropPolicy: this.config.dropPolicy,
+      droppedCount: this.droppedCount,
+    });
+  }
+
+  private schedulePersist(): void {
+    if (!this.config.persistPath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DEBOUNCE_MS);
+  }
+
+  private persist(): void {
+    if (!this.config.persistPath) return;
+
+    try {
+      const data: PersistedMessage[] = this.messages.map((message) => ({
+        topic: message.topic,
+        payload: Buffer.isBuffer(message.payload)
+          ? message.payload.toString('base64')
+          : message.payload,
+        encoding: Buffer.isBuffer(message.payload) ? 'base64' : 'utf8',
+        ...(message.qos !== undefined && { qos: message.qos }),
+        ...(message.retain !== undefined && { retain: message.retain }),
+      }));
+
+      // Write to a temporary file first so a crash never leaves half a file
+      const tempPath = `${this.config.persistPath}.tmp`;
+      fs.mkdirSync(path.dirname(this.config.persistPath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(data), 'utf8');
+      fs.renameSync(tempPath, this.config.persistPath);
+    } catch (error) {
+      logger.error('Failed to persist offline queue', {
+        error: (error as Error).message,
+        persistPath: this.config.persistPath,
+      });
+    }
+  }
+
+  private load(): void {
+    if (!this.config.persistPath || !fs.existsSync(this.config.persistPath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(
+        fs.readFileSync(this.config.persistPath, 'utf8')
+      ) as PersistedMessage[];
+
+      this.messages = data.map((message) => ({
+        topic: message.topic,
+        payload:
+          message.encoding === 'base64'
+            ? Buffer.from(message.payload, 'base64')
+            : message.payload,
+        ...(message.qos !== undefined && { qos: message.qos }),
+        ...(message.retain !== undefined && { retain: message.retain }),
+      }));
+
+      while (this.messages.length > this.config.maxSize) {
+        this.dropOne();
+      }
+
+      logger.info('Restored offline MQTT queue', {
+        messageCount: this.messages.length,
+        persistPath: this.config.persistPath,
+      });
+    } catch (error) {
+      logger.warn('Failed to restore offline queue, starting empty', {
+        error: (error as Error).message,
+        persistPath: this.config.persistPath,
+      });
+      this.messages = [];
+    }
+  }
+}
@@ -0,0 +1,388 @@
+import { AnalyzerMessage, EventAnalyzer, F1Event } from '../types';
+import { toIndexedList } from '../utils/timing';
+import { logger } from '../utils/logger';
+
+export type RaceControlFlag =
+  | 'green'
+  | 'clear'
+  | 'yellow'
+  | 'double_yellow'
+  | 'red'
+  | 'chequered'
+  | 'blue'
+  | 'black_and_white'
+  | 'black_and_orange'
+  | 'black';
+
+export type InvestigationStatus =
+  | 'noted'
+  | 'under_investigation'
+  | 'no_further_action'
+  | 'no_investigation';
+
+interface RaceControlEventBase {
+  utc: string | null;
+  lap: number | null;
+  message: string;
+}
+
+export interface FlagEvent extends RaceControlEventBase {
+  kind: 'flag';
+  flag: RaceControlFlag;
+  scope: 'track' | 'sector' | 'driver';
+  sector: number | null;
+  driverNumber: string | null;
+}
+
+export interface InvestigationEvent extends RaceControlEventBase {
+  kind: 'investigation';
+  status: InvestigationStatus;
+  resolved: boolean;
+  driverNumbers: string[];
+  reason: string | null;
+}
+
+export interface PenaltyEvent extends RaceControlEventBase {
+  kind: 'penalty';
+  driverNumber: string;
+  penalty: string;
+  // Time penalties only, e.g. 5 for "5 SECOND TIME PENALTY"
+  penaltySeconds: number | null;
+  reason: string | null;
+  served: boolean;
+}
+
+export interface TrackLimitsEvent extends RaceControlEventBase {
+  kind: 'track_limits';
+  driverNumber: string;
+  lapTime: string | null;
+  turn: number | null;
+  // Deleted lap times of this driver so far, including this one
+  count: number;
+}
+
+export interface DrsEvent extends RaceControlEventBase {
+  kind: 'drs';
+  enabled: boolean;
+}
+
+export interface SafetyCarEvent extends RaceControlEventBase {
+  kind: 'safety_car';
+  mode: 'safety_car' | 'virtual_safety_car';
+  status: string;
+}
+
+export interface OtherRaceControlEvent extends RaceControlEventBase {
+  kind: 'other';
+  category: string | null;
+}
+
+export type RaceControlEvent =
+  | FlagEvent
+  | InvestigationEvent
+  | PenaltyEvent
+  | TrackLimitsEvent
+  | DrsEvent
+  | SafetyCarEvent
+  | OtherRaceControlEvent;
+
+// "CAR 44 (HAM)" or "CARS 1 (VER) AND 4 (NOR)"
+const CAR_PATTERN = /(\d+) \([A-Z]{3}\)/g;
+const PENALTY_PATTERN =
+  /((?:\d+ SECOND )?(?:TIME|STOP\/GO|DRIVE THROUGH|GRID) PENALTY|REPRIMAND|DISQUALIFIED)/;
+const TRACK_LIMITS_PATTERN =
+  /TIME ([\d:.]+) DELETED - TRACK LIMITS(?: AT TURN (\d+))?/;
+
+const toStringOrNull = (value: unknown): string | null =>
+  typeof value === 'string' && value !== '' ? value : null;
+
+const toNumberOrNull = (value: unknown): number | null => {
+  const parsed = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(parsed)
+    ? parsed
+    : null;
+};
+
+const parseCarNumbers = (text: string): string[] =>
+  [...text.matchAll(CAR_PATTERN)].map((match) => match[1] as string);
+
+// Text after the last " - ", e.g. "... NOTED - CAUSING A COLLISION"
+const parseReason = (text: string): string | null => {
+  const index = text.lastIndexOf(' - ');
+  return index !== -1 ? text.slice(index + 3).trim() || null : null;
+};
+
+const parseFlag = (value: string): RaceControlFlag | null => {
+  const flag = value.trim().toLowerCase().replace(/ /g, '_');
+  const flags: RaceControlFlag[] = [
+    'green',
+    'clear',
+    'yellow',
+    'double_yellow',
+    'red',
+    'chequered',
+    'blue',
+    'black_and_white',
+    'black_and_orange',
+    'black',
+  ];
+  return flags.includes(flag as RaceControlFlag)
+    ? (flag as RaceControlFlag)
+    : null;
+};
+
+/**
+ * Classify one entry of RaceControlMessages.Messages
+ *
+ * Track limits counts are left at 1; RaceControl keeps the running count.
+ */
+export function parseRaceControlMessage(
+  entry: Record<string, unknown>
+): RaceControlEvent {
+  const message = typeof entry.Message === 'string' ? entry.Message : '';
+  const category = toStringOrNull(entry.Category);
+  const base: RaceControlEventBase = {
+    utc: toStringOrNull(entry.Utc),
+    lap: toNumberOrNull(entry.Lap),
+    message,
+  };
+
+  if (category === 'Flag') {
+    const flag = parseFlag(String(entry.Flag ?? ''));
+    if (flag) {
+      const driverNumber =
+        toStringOrNull(entry.RacingNumber) ?? parseCarNumbers(message)[0];
+      const scope = String(entry.Scope ?? '').toLowerCase();
+      return {
+        ...base,
+        kind: 'flag',
+        flag,
+        scope: scope === 'sector' || scope === 'driver' ? scope : 'track',
+        sector: toNumberOrNull(entry.Sector),
+        driverNumber: driverNumber ?? null,
+      };
+    }
+  }
+
+  if (category === 'Drs') {
+    return {
+      ...base,
+      kind: 'drs',
+      enabled: String(entry.Status ?? message)
+        .toUpperCase()
+        .includes('ENABLED'),
+    };
+  }
+
+  if (category === 'SafetyCar') {
+    const mode = String(entry.Mode ?? '').toUpperCase();
+    return {
+      ...base,
+      kind: 'safety_car',
+      mode: mode.startsWith('VIRTUAL') ? 'virtual_safety_car' : 'safety_car',
+      status: String(entry.Status ?? '').toLowerCase(),
+    };
+  }
+
+  const trackLimits = message.match(TRACK_LIMITS_PATTERN);
+  const [carNumber] = parseCarNumbers(message);
+  if (trackLimits && carNumber) {
+    return {
+      ...base,
+      kind: 'track_limits',
+      driverNumber: carNumber,
+      lapTime: trackLimits[1] ?? null,
+      turn: toNumberOrNull(trackLimits[2]),
+      count: 1,
+    };
+  }
+
+  if (
+    message.startsWith('FIA STEWARDS') ||
+    message.startsWith('PENALTY SERVED')
+  ) {
+    const penalty = message.match(PENALTY_PATTERN);
+    if (penalty && carNumber && !message.includes('INVESTIGATION')) {
+      const seconds = penalty[1]?.match(/^(\d+) SECOND/);
+      return {
+        ...base,
+        kind: 'penalty',
+        driverNumber: carNumber,
+        penalty: penalty[1] as string,
+        penaltySeconds: seconds ? Number(seconds[1]) : null,
+        reason: parseReason(message),
+        served: message.includes('SERVED'),
+      };
+    }
+
+    let status: InvestigationStatus | null = null;
+    if (message.includes('NO FURTHER ACTION')) {
+      status = 'no_further_action';
+    } else if (
+      message.includes('NO FURTHER INVESTIGATION') ||
+      message.includes('NO INVESTIGATION NECESSARY')
+    ) {
+      status = 'no_investigation';
+    } else if (message.includes('INVESTIGAT')) {
+      // UNDER INVESTIGATION, WILL BE INVESTIGATED AFTER THE RACE / SESSION
+      status = 'under_investigation';
+    } else if (message.includes('NOTED')) {
+      status = 'noted';
+    }
+
+    if (status) {
+      return {
+        ...base,
+        kind: 'investigation',
+        status,
+        resolved:
+          status === 'no_further_action' || status === 'no_investigation',
+        driverNumbers: parseCarNumbers(message),
+        reason: parseReason(message),
+      };
+    }
+  }
+
+  return { ...base, kind: 'other', category };
+}
+
+/**
+ * Race Control
+ *
+ * Turns RaceControlMessages into typed events. Snapshot messages only update
+ * the kept state, so a reconnect does not repeat old penalties.
+ *
+ * Topics (below the topic prefix):
+ * - racecontrol/flags, racecontrol/flags/<n> for driver flags (blue, ...)
+ * - racecontrol/investigations
+ * - racecontrol/penalties/<n>
+ * - racecontrol/tracklimits/<n>
+ * - racecontrol/drs (retained)
+ * - racecontrol/safetycar
+ */
+export class RaceControl implements EventAnalyzer {
+  readonly name = 'race-control';
+  private seen = new Set<string>();
+  private events: RaceControlEvent[] = [];
+  private penalties = new Map<string, PenaltyEvent[]>();
+  private trackLimits = new Map<string, TrackLimitsEvent[]>();
+  private drsEnabled: boolean | null = null;
+
+  handleEvent(event: F1Event): AnalyzerMessage[] {
+    if (event.streamName !== 'RaceControlMessages') return [];
+
+    const messages: AnalyzerMessage[] = [];
+    for (const entry of toIndexedList(event.data.Messages)) {
+      // Snapshots after a reconnect repeat messages we already know
+      const key = `${String(entry.Utc)}|${String(entry.Message)}`;
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+
+      const parsed = this.track(parseRaceControlMessage(entry));
+      if (!event.snapshot) {
+        messages.push(...this.toMessages(parsed));
+      }
+    }
+
+    if (event.snapshot && this.drsEnabled !== null) {
+      messages.push(this.buildDrsMessage());
+    }
+
+    return messages;
+  }
+
+  reset(): void {
+    this.seen.clear();
+    this.events = [];
+    this.penalties.clear();
+    this.trackLimits.clear();
+    this.drsEnabled = null;
+  }
+
+  getEvents(): RaceControlEvent[] {
+    return [...this.events];
+  }
+
+  getPenalties(driverNumber?: string): PenaltyEvent[] {
+    return driverNumber
+      ? [...(this.penalties.get(driverNumber) ?? [])]
+      : [...this.penalties.values()].flat();
+  }
+
+  getTrackLimits(driverNumber?: string): TrackLimitsEvent[] {
+    return driverNumber
+      ? [...(this.trackLimits.get(driverNumber) ?? [])]
+      : [...this.trackLimits.values()].flat();
+  }
+
+  isDrsEnabled(): boolean | null {
+    return this.drsEnabled;
+  }
+
+  private track(event: RaceControlEvent): RaceControlEvent {
+    switch (event.kind) {
+      case 'penalty':
+        this.penalties.set(event.driverNumber, [
+          ...(this.penalties.get(event.driverNumber) ?? []),
+          event,
+        ]);
+        break;
+      case 'track_limits': {
+        const deletions = this.trackLimits.get(event.driverNumber) ?? [];
+        event.count = deletions.length + 1;
+        this.trackLimits.set(event.driverNumber, [...deletions, event]);
+        break;
+      }
+      case 'drs':
+        this.drsEnabled = event.enabled;
+        break;
+    }
+
+    this.events.push(event);
+    logger.debug('Race control message classified', {
+      kind: event.kind,
+      message: event.message,
+    });
+    return event;
+  }
+
+  private toMessages(event: RaceControlEvent): AnalyzerMessage[] {
+    const message = (topic: string): AnalyzerMessage => ({
+      topic,
+      eventType: `racecontrol_${event.kind}`,
+      data: { ...event },
+      retain: false,
+    });
+
+    switch (event.kind) {
+      case 'flag':
+        return event.driverNumber
+          ? [
+              message('racecontrol/flags'),
+              message(`racecontrol/flags/${event.driverNumber}`),
+            ]
+          : [message('racecontrol/flags')];
+      case 'investigation':
+        return [message('racecontrol/investigations')];
+      case 'penalty':
+        return [message(`racecontrol/penalties/${event.driverNumber}`)];
+      case 'track_limits':
+        return [message(`racecontrol/tracklimits/${event.driverNumber}`)];
+      case 'drs':
+        return [this.buildDrsMessage()];
+      case 'safety_car':
+        return [message('racecontrol/safetycar')];
+      default:
+        return [];
+    }
+  }
+
+  private buildDrsMessage(): AnalyzerMessage {
+    return {
+      topic: 'racecontrol/drs',
+      eventType: 'racecontrol_drs',
+      data: { enabled: this.drsEnabled },
+      retain: true,
+    };
+  }
+}
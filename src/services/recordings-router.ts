@@ -0,0 +1,183 @@
+import express, { Request, Response, Router } from 'express';
+import fs from 'fs';
+import zlib from 'zlib';
+import { SignalRClient } from './signalr-client';
+import { logger } from '../utils/logger';
+
+function getContentType(filename: string): string {
+  if (filename.endsWith('.gz')) return 'application/gzip';
+  if (filename.endsWith('.ndjson')) return 'application/x-ndjson';
+  return 'application/json';
+}
+
+/**
+ * Recording management endpoints
+ *
+ * GET    /                   list recordings with metadata
+ * GET    /current            metadata of the active recording
+ * POST   /start              start a recording (optional JSON session info)
+ * POST   /stop               stop the active recording
+ * GET    /:filename          download a recording (?compress=gzip)
+ * DELETE /:filename          delete a recording
+ */
+export function createRecordingsRouter(signalRClient: SignalRClient): Router {
+  const router = express.Router();
+  router.use(express.json());
+
+  router.get('/', async (req: Request, res: Response) => {
+    const current = signalRClient.getCurrentRecordingFilename();
+
+    const entries = await Promise.all(
+      signalRClient.listSessionRecordings().map(async (filename) => {
+        // Skip files deleted since the directory was listed
+        const filePath = signalRClient.getSessionRecordingPath(filename);
+        if (!filePath) return null;
+
+        let stats: fs.Stats;
+        try {
+          stats = await fs.promises.stat(filePath);
+        } catch {
+          return null;
+        }
+
+        return {
+          filename,
+          size: stats.size,
+          modified: stats.mtime.toISOString(),
+          active: filename === current,
+          // The active recording has no final metadata yet
+          metadata:
+            filename === current
+              ? signalRClient.getCurrentSessionMetadata()
+              : await signalRClient.getSessionRecordingMetadata(filename),
+        };
+      })
+    );
+    const recordings = entries.filter((entry) => entry !== null);
+
+    res.json({
+      timestamp: new Date().toISOString(),
+      recording: signalRClient.isRecordingSession(),
+      recordings,
+    });
+  });
+
+  router.get('/current', (req: Request, res: Response) => {
+    const metadata = signalRClient.getCurrentSessionMetadata();
+    if (!metadata) {
+      res.status(404).json({ error: 'No active recording' });
+      return;
+    }
+
+    res.json({
+      filename: signalRClient.getCurrentRecordingFilename(),
+      metadata,
+    });
+  });
+
+  router.post('/start', (req: Request, res: Response) => {
+    if (signalRClient.isRecordingSession()) {
+      res.status(409).json({
+        error: 'A recording is already running',
+        filename: signalRClient.getCurrentRecordingFilename(),
+      });
+      return;
+    }
+
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const sessionInfo = {
+      ...(typeof body.sessionType === 'string' && {
+        sessionType: body.sessionType,
+      }),
+      ...(typeof body.sessionName === 'string' && {
+        sessionName: body.sessionName,
+      }),
+      ...(typeof body.location === 'string' && { location: body.location }),
+    };
+
+    try {
+      signalRClient.startSessionRecording(sessionInfo);
+    } catch (error) {
+      res.status(409).json({ error: (error as Error).message });
+      return;
+    }
+
+    const metadata = signalRClient.getCurrentSessionMetadata();
+    if (!metadata) {
+      res.status(409).json({ error: 'Session recording is disabled' });
+      return;
+    }
+
+    res.status(201).json({
+      filename: signalRClient.getCurrentRecordingFilename(),
+      metadata,
+    });
+  });
+
+  router.post('/stop', (req: Request, res: Response) => {
+    const filename = signalRClient.getCurrentRecordingFilename();
+    const recording = signalRClient.stopSessionRecording();
+    if (!recording) {
+      res.status(409).json({ error: 'No active recording to stop' });
+      return;
+    }
+
+    res.json({ filename, metadata: recording.metadata });
+  });
+
+  router.get('/:filename', (req: Request, res: Response) => {
+    const filename = req.params.filename as string;
+    const filePath = signalRClient.getSessionRecordingPath(filename);
+    if (!filePath) {
+      res.status(404).json({ error: `Recording not found: ${filename}` });
+      return;
+    }
+
+    // Gzipped recordings are always sent as they are
+    const compress = req.query.compress === 'gzip' && !filename.endsWith('.gz');
+    const downloadName = compress ? `${filename}.gz` : filename;
+
+    res.setHeader('Content-Type', getContentType(downloadName));
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${downloadName}"`
+    );
+
+    const fileStream = fs.createReadStream(filePath);
+    fileStream.on('error', (error) => {
+      logger.error('Failed to send recording', {
+        error: error.message,
+        filename,
+      });
+      res.destroy(error);
+    });
+
+    if (compress) {
+      fileStream.pipe(zlib.createGzip()).pipe(res);
+    } else {
+      fileStream.pipe(res);
+    }
+  });
+
+  router.delete('/:filename', (req: Request, res: Response) => {
+    const filename = req.params.filename as string;
+    if (filename === signalRClient.getCurrentRecordingFilename()) {
+      res.status(409).json({ error: 'Cannot delete the active recording' });
+      return;
+    }
+
+    if (!signalRClient.getSessionRecordingPath(filename)) {
+      res.status(404).json({ error: `Recording not found: ${filename}` });
+      return;
+    }
+
+    if (!signalRClient.deleteSessionRecording(filename)) {
+      res.status(500).json({ error: `Failed to delete ${filename}` });
+      return;
+    }
+
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -1,7 +1,9 @@
 import fs from 'fs';
 import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
 import { logger } from '../utils/logger';
-import { SessionRecordingMode } from '../types';
+import { SessionRecordingFormat, SessionRecordingMode } from '../types';
 
 export interface SessionRecording {
   metadata: {
@@ -34,6 +36,8 @@ export interface SessionMessage {
 export interface SessionRecorderConfig {
   enabled: boolean;
   mode: SessionRecordingMode;
+  format: SessionRecordingFormat;
+  gzip: boolean; // only used by the ndjson format
   recordingPath: string;
   maxRecordingSize: number; // in bytes
   autoStart: boolean;
@@ -41,6 +45,29 @@ export interface SessionRecorderConfig {
   filterKeepAliveMessages: boolean; // filter out empty keep-alive messages
 }
 
+/**
+ * One line of an NDJSON recording: the header with the initial metadata,
+ * messages, metadata updates (e.g. from SessionInfo) and the footer with the
+ * final metadata written on stop
+ */
+type RecordingLine =
+  | { type: 'header'; metadata: SessionRecording['metadata'] }
+  | { type: 'message'; message: SessionMessage }
+  | { type: 'metadata'; metadata: SessionRecording['metadata'] }
+  | { type: 'footer'; metadata: SessionRecording['metadata'] };
+
+const RECORDING_EXTENSIONS = ['.json', '.ndjson', '.ndjson.gz'];
+
+// Bytes read from the end of an NDJSON file to find the footer
+const FOOTER_READ_SIZE = 64 * 1024;
+
+// Decode as much as possible of a truncated gzip file
+const GUNZIP_OPTIONS: zlib.ZlibOptions = {
+  finishFlush: zlib.constants.Z_SYNC_FLUSH,
+};
+
+const gunzip = promisify(zlib.gunzip);
+
 export class SessionRecorder {
   private config: SessionRecorderConfig;
   private isRecording = false;
@@ -48,8 +75,17 @@ export class SessionRecorder {
   private sessionStartTime: Date | null = null;
   private recordingFilePath: string | null = null;
   private messageBuffer: SessionMessage[] = [];
+  private messageCount = 0;
+  private metadataChanged = false;
   private totalRecordedSize = 0;
   private flushInterval: NodeJS.Timeout | null = null;
+  // Mode changed during a recording, applied when the next one starts
+  private pendingMode: SessionRecordingMode | null = null;
+  // Metadata of finished recordings by path, valid while mtime and size match
+  private metadataCache = new Map<
+    string,
+    { mtimeMs: number; size: number; metadata: SessionRecording['metadata'] }
+  >();
 
   constructor(config: SessionRecorderConfig) {
     this.config = config;
@@ -81,6 +117,11 @@ export class SessionRecorder {
       this.stopRecording();
     }
 
+    if (this.pendingMode) {
+      this.config.mode = this.pendingMode;
+      this.pendingMode = null;
+    }
+
     this.sessionStartTime = new Date();
     const sessionId = this.generateSessionId();
 
@@ -91,7 +132,7 @@ export class SessionRecorder {
         sessionName: sessionInfo?.sessionName || `Session_${sessionId}`,
         location: sessionInfo?.location || 'Unknown',
         startTime: this.sessionStartTime.toISOString(),
-        recordingVersion: '1.0',
+        recordingVersion: this.config.format === 'ndjson' ? '2.0' : '1.0',
         recordingMode: this.config.mode,
         messageCount: 0,
         totalSize: 0,
@@ -100,17 +141,25 @@ export class SessionRecorder {
     };
 
     this.messageBuffer = [];
+    this.messageCount = 0;
+    this.metadataChanged = false;
     this.totalRecordedSize = 0;
     this.isRecording = true;
 
     // Create recording file path
     const timestamp = this.sessionStartTime.toISOString().replace(/[:.]/g, '-');
-    const filename = `${timestamp}_${sessionInfo?.sessionType || 'session'}_${sessionId}.json`;
+    const filename = `${timestamp}_${sessionInfo?.sessionType || 'session'}_${sessionId}${this.getFileExtension()}`;
     this.recordingFilePath = path.join(this.config.recordingPath, filename);
 
     // Ensure recording directory exists
     this.ensureRecordingDirectory();
 
+    if (this.config.format === 'ndjson') {
+      this.appendLines([
+        { type: 'header', metadata: { ...this.currentSession.metadata } },
+      ]);
+    }
+
     // Start periodic flush
     this.flushInterval = setInterval(() => {
       this.flushBuffer();
@@ -142,12 +191,17 @@ export class SessionRecorder {
     this.currentSession.metadata.duration = this.sessionStartTime
       ? endTime.getTime() - this.sessionStartTime.getTime()
       : 0;
-    this.currentSession.metadata.messageCount =
-      this.currentSession.messages.length;
+    this.currentSession.metadata.messageCount = this.messageCount;
     this.currentSession.metadata.totalSize = this.totalRecordedSize;
 
     // Save final recording
-    this.saveRecording();
+    if (this.config.format === 'ndjson') {
+      this.appendLines([
+        { type: 'footer', metadata: { ...this.currentSession.metadata } },
+      ]);
+    } else {
+      this.saveRecording();
+    }
 
     // Clear flush interval
     if (this.flushInterval) {
@@ -171,6 +225,8 @@ export class SessionRecorder {
     this.recordingFilePath = null;
     this.isRecording = false;
     this.messageBuffer = [];
+    this.messageCount = 0;
+    this.metadataChanged = false;
     this.totalRecordedSize = 0;
 
     return completedSession;
@@ -307,6 +363,22 @@ export class SessionRecorder {
     }
   }
 
+  /**
+   * Change the recording mode at runtime. A recording in progress keeps its
+   * mode, the new one applies from the next recording.
+   */
+  setMode(mode: SessionRecordingMode): void {
+    if (this.isRecording) {
+      this.pendingMode = mode;
+      logger.info('Recording mode applies to the next recording', { mode });
+      return;
+    }
+
+    this.pendingMode = null;
+    this.config.mode = mode;
+    logger.info('Recording mode updated', { mode });
+  }
+
   /**
    * Check if currently recording
    */
@@ -322,7 +394,7 @@ export class SessionRecorder {
   }
 
   /**
-   * List available recordings
+   * List available recordings (JSON and NDJSON, optionally gzipped)
    */
   listRecordings(): string[] {
     try {
@@ -332,7 +404,9 @@ export class SessionRecorder {
 
       return fs
         .readdirSync(this.config.recordingPath)
-        .filter((file) => file.endsWith('.json'))
+        .filter((file) =>
+          RECORDING_EXTENSIONS.some((extension) => file.endsWith(extension))
+        )
         .sort((a, b) => b.localeCompare(a)); // Newest first
     } catch (error) {
       logger.error('Failed to list recordings', {
@@ -344,19 +418,23 @@ export class SessionRecorder {
   }
 
   /**
-   * Load a recording by filename
+   * Load a recording by filename (relative to the recording path) or by
+   * absolute file path
    */
   loadRecording(filename: string): SessionRecording | null {
     try {
-      const filePath = path.join(this.config.recordingPath, filename);
+      const filePath = path.isAbsolute(filename)
+        ? filename
+        : path.join(this.config.recordingPath, filename);
 
       if (!fs.existsSync(filePath)) {
         logger.error('Recording file not found', { filename, filePath });
         return null;
       }
 
-      const data = fs.readFileSync(filePath, 'utf8');
-      const recording = JSON.parse(data) as SessionRecording;
+      const recording = filePath.endsWith('.json')
+        ? (JSON.parse(fs.readFileSync(filePath, 'utf8')) as SessionRecording)
+        : this.parseNdjsonRecording(filePath);
 
       logger.info('Recording loaded', {
         filename,
@@ -375,6 +453,209 @@ export class SessionRecorder {
     }
   }
 
+  /**
+   * Resolve a recording filename to its path in the recording directory.
+   * Returns null for names outside the directory, unknown file types and
+   * missing files.
+   */
+  resolveRecordingPath(filename: string): string | null {
+    if (
+      path.basename(filename) !== filename ||
+      !RECORDING_EXTENSIONS.some((extension) => filename.endsWith(extension))
+    ) {
+      return null;
+    }
+
+    const filePath = path.join(this.config.recordingPath, filename);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  /**
+   * Get the filename of the active recording
+   */
+  getCurrentRecordingFilename(): string | null {
+    return this.recordingFilePath
+      ? path.basename(this.recordingFilePath)
+      : null;
+  }
+
+  /**
+   * Read the metadata of a recording. Completed NDJSON recordings are read
+   * from their footer without parsing the messages, other files are read
+   * asynchronously, parsed once and cached until they change.
+   */
+  async getRecordingMetadata(
+    filename: string
+  ): Promise<SessionRecording['metadata'] | null> {
+    const filePath = this.resolveRecordingPath(filename);
+    if (!filePath) return null;
+
+    try {
+      const { mtimeMs, size } = await fs.promises.stat(filePath);
+      const cached = this.metadataCache.get(filePath);
+      if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+        return cached.metadata;
+      }
+
+      const metadata =
+        (filePath.endsWith('.ndjson')
+          ? await this.readNdjsonFooter(filePath)
+          : null) ?? (await this.readRecording(filePath)).metadata;
+      this.metadataCache.set(filePath, { mtimeMs, size, metadata });
+      return metadata;
+    } catch (error) {
+      // Deleted in the meantime or not a valid recording
+      logger.warn('Failed to read recording metadata', {
+        error: (error as Error).message,
+        filename,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Delete a recording. The active recording is never deleted.
+   */
+  deleteRecording(filename: string): boolean {
+    const filePath = this.resolveRecordingPath(filename);
+    if (!filePath || filePath === this.recordingFilePath) {
+      return false;
+    }
+
+    try {
+      fs.unlinkSync(filePath);
+      this.metadataCache.delete(filePath);
+      logger.info('Recording deleted', { filename });
+      return true;
+    } catch (error) {
+      logger.error('Failed to delete recording', {
+        error: (error as Error).message,
+        filename,
+      });
+      return false;
+    }
+  }
+
+  private async readNdjsonFooter(
+    filePath: string
+  ): Promise<SessionRecording['metadata'] | null> {
+    const file = await fs.promises.open(filePath, 'r');
+    try {
+      const { size } = await file.stat();
+      const length = Math.min(size, FOOTER_READ_SIZE);
+      const buffer = Buffer.alloc(length);
+      await file.read(buffer, 0, length, size - length);
+
+      const lastLine = buffer.toString('utf8').trimEnd().split('\n').pop();
+      const entry = JSON.parse(lastLine || 'null') as RecordingLine | null;
+      return entry?.type === 'footer' ? entry.metadata : null;
+    } catch {
+      // No complete footer, e.g. recording still running or crashed
+      return null;
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Read and parse a whole recording without blocking the event loop on I/O
+   */
+  private async readRecording(filePath: string): Promise<SessionRecording> {
+    const content = await fs.promises.readFile(filePath);
+    if (filePath.endsWith('.json')) {
+      return JSON.parse(content.toString('utf8')) as SessionRecording;
+    }
+
+    return this.parseNdjsonContent(
+      filePath,
+      filePath.endsWith('.gz') ? await gunzip(content, GUNZIP_OPTIONS) : content
+    );
+  }
+
+  /**
+   * Read an NDJSON recording. Files without footer (e.g. after a crash) are
+   * recovered: incomplete trailing data is dropped and the metadata is
+   * rebuilt from the messages that were written.
+   */
+  private parseNdjsonRecording(filePath: string): SessionRecording {
+    const content = fs.readFileSync(filePath);
+    return this.parseNdjsonContent(
+      filePath,
+      filePath.endsWith('.gz')
+        ? zlib.gunzipSync(content, GUNZIP_OPTIONS)
+        : content
+    );
+  }
+
+  private parseNdjsonContent(
+    filePath: string,
+    content: Buffer
+  ): SessionRecording {
+    const lines = content.toString('utf8').split('\n');
+    let metadata: SessionRecording['metadata'] | null = null;
+    let complete = false;
+    const messages: SessionMessage[] = [];
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+
+      let entry: RecordingLine;
+      try {
+        entry = JSON.parse(line) as RecordingLine;
+      } catch (error) {
+        // Only the last line may be cut off by a crash
+        if (index < lines.length - 1) {
+          logger.warn('Skipping invalid recording line', {
+            filePath,
+            line: index + 1,
+            error: (error as Error).message,
+          });
+        }
+        continue;
+      }
+
+      switch (entry.type) {
+        case 'header':
+        case 'metadata':
+          metadata = entry.metadata;
+          break;
+        case 'footer':
+          metadata = entry.metadata;
+          complete = true;
+          break;
+        case 'message':
+          messages.push(entry.message);
+          break;
+      }
+    }
+
+    if (!metadata) {
+      throw new Error('Recording header missing');
+    }
+
+    if (!complete) {
+      const lastMessage = messages[messages.length - 1];
+      metadata = {
+        ...metadata,
+        messageCount: messages.length,
+        totalSize: messages.reduce((sum, message) => sum + message.dataSize, 0),
+        duration: lastMessage?.relativeTime ?? 0,
+        ...(lastMessage && { endTime: lastMessage.timestamp }),
+      };
+      logger.warn('Recovered incomplete recording', {
+        filePath,
+        messageCount: messages.length,
+      });
+    }
+
+    return { metadata, messages };
+  }
+
+  private getFileExtension(): string {
+    if (this.config.format === 'json') return '.json';
+    return this.config.gzip ? '.ndjson.gz' : '.ndjson';
+  }
+
   private generateSessionId(): string {
     return Math.random().toString(36).substring(2, 15);
   }
@@ -392,6 +673,7 @@ export class SessionRecorder {
       (sessionInfo.Type as string) || this.currentSession.metadata.sessionType;
     this.currentSession.metadata.sessionName =
       (sessionInfo.Name as string) || this.currentSession.metadata.sessionName;
+    this.metadataChanged = true;
 
     logger.debug('Updated session metadata from SessionInfo', {
       sessionType: this.currentSession.metadata.sessionType,
@@ -421,15 +703,31 @@ export class SessionRecorder {
       return;
     }
 
-    // Add buffered messages to session
-    this.currentSession.messages.push(...this.messageBuffer);
+    this.messageCount += this.messageBuffer.length;
+
+    if (this.config.format === 'ndjson') {
+      // Append only the new messages; they are not kept in memory
+      const lines: RecordingLine[] = this.messageBuffer.map((message) => ({
+        type: 'message',
+        message,
+      }));
+      if (this.metadataChanged) {
+        lines.push({
+          type: 'metadata',
+          metadata: { ...this.currentSession.metadata },
+        });
+        this.metadataChanged = false;
+      }
+      this.appendLines(lines);
+    } else {
+      // Add buffered messages to session and save incrementally
+      this.currentSession.messages.push(...this.messageBuffer);
+      this.saveRecording();
+    }
     this.messageBuffer = [];
 
-    // Save incrementally
-    this.saveRecording();
-
     logger.debug('Flushed message buffer', {
-      messageCount: this.currentSession.messages.length,
+      messageCount: this.messageCount,
       totalSize: `${Math.round(this.totalRecordedSize / 1024)}KB`,
     });
   }
@@ -450,6 +748,27 @@ export class SessionRecorder {
     }
   }
 
+  /**
+   * Append lines to an NDJSON recording. With gzip every flush is written as
+   * its own gzip member, so the file stays readable up to the last flush.
+   */
+  private appendLines(lines: RecordingLine[]): void {
+    if (!this.recordingFilePath) return;
+
+    try {
+      const data = lines.map((line) => JSON.stringify(line)).join('\n') + '\n';
+      fs.appendFileSync(
+        this.recordingFilePath,
+        this.config.gzip ? zlib.gzipSync(data) : data
+      );
+    } catch (error) {
+      logger.error('Failed to append to recording', {
+        error: (error as Error).message,
+        recordingFile: this.recordingFilePath,
+      });
+    }
+  }
+
   /**
    * Check if a message is a keep-alive message that should be filtered
    */
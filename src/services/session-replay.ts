@@ -0,0 +1,269 @@
+import { EventEmitter } from 'events';
+import { SessionMessage, SessionRecording } from './session-recorder';
+import { logger } from '../utils/logger';
+
+export interface SessionReplayOptions {
+  speed?: number; // 1 = real time, 2 = twice as fast
+  loop?: boolean;
+}
+
+export interface SessionReplayStatus {
+  sessionId: string;
+  state: 'idle' | 'playing' | 'paused' | 'finished';
+  speed: number;
+  loop: boolean;
+  position: number; // ms from recording start
+  duration: number; // ms
+  messageIndex: number;
+  messageCount: number;
+}
+
+// Upper bound for a single wait, keeps timers responsive to speed changes
+const MAX_TIMER_DELAY_MS = 60 * 1000;
+
+/**
+ * Session Replay
+ *
+ * Plays back the incoming messages of a SessionRecording on their original
+ * `relativeTime` schedule. Each raw message is emitted as a 'message' event
+ * so it can be fed through the regular SignalR message handling.
+ *
+ * Events:
+ * - 'message' (rawMessage, { fastForward }) for every replayed message;
+ *   fastForward is set for messages skipped over by seek()
+ * - 'reset' before playback restarts from the beginning (loop, seek back)
+ * - 'seeked' (position) once seek() has fast-forwarded to the new position
+ * - 'finished' when the end of the recording is reached without loop
+ */
+export class SessionReplay extends EventEmitter {
+  private recording: SessionRecording;
+  private messages: SessionMessage[];
+  private speed: number;
+  private loop: boolean;
+  private state: SessionReplayStatus['state'] = 'idle';
+  private index = 0;
+  private position = 0;
+  // Wall clock time at which `position` was last updated while playing
+  private positionUpdatedAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(recording: SessionRecording, options: SessionReplayOptions = {}) {
+    super();
+    this.recording = recording;
+    this.messages = recording.messages
+      .filter((message) => message.direction === 'incoming')
+      .sort((a, b) => a.relativeTime - b.relativeTime);
+    this.speed = this.validateSpeed(options.speed ?? 1);
+    this.loop = options.loop ?? false;
+  }
+
+  start(): void {
+    if (this.state !== 'idle') return;
+
+    logger.info('Starting session replay', {
+      sessionId: this.recording.metadata.sessionId,
+      sessionName: this.recording.metadata.sessionName,
+      messageCount: this.messages.length,
+      speed: this.speed,
+      loop: this.loop,
+    });
+
+    this.play();
+  }
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+
+    this.position = this.getPosition();
+    this.clearTimer();
+    this.state = 'paused';
+    logger.info('Session replay paused', { position: this.position });
+  }
+
+  resume(): void {
+    if (this.state === 'finished') {
+      this.restart();
+      return;
+    }
+    if (this.state === 'playing') return;
+
+    this.play();
+    logger.info('Session replay resumed', { position: this.position });
+  }
+
+  stop(): void {
+    this.clearTimer();
+    this.state = 'idle';
+    this.index = 0;
+    this.position = 0;
+  }
+
+  setSpeed(speed: number): void {
+    this.position = this.getPosition();
+    this.positionUpdatedAt = Date.now();
+    this.speed = this.validateSpeed(speed);
+
+    if (this.state === 'playing') {
+      this.scheduleNext();
+    }
+    logger.info('Session replay speed changed', { speed: this.speed });
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  /**
+   * Jump to a position (ms from recording start)
+   *
+   * Messages between the current and the target position are emitted at
+   * once with `fastForward` set, so stream state stays consistent. Seeking
+   * backwards restarts from the beginning.
+   */
+  seek(position: number): void {
+    const target = Math.max(0, Math.min(position, this.getDuration()));
+    const wasPlaying = this.state === 'playing';
+    this.clearTimer();
+
+    if (target < this.getPosition()) {
+      this.index = 0;
+      this.emit('reset');
+    }
+
+    while (
+      this.index < this.messages.length &&
+      (this.messages[this.index] as SessionMessage).relativeTime <= target
+    ) {
+      this.emitMessage(this.messages[this.index] as SessionMessage, true);
+      this.index++;
+    }
+
+    this.position = target;
+    this.positionUpdatedAt = Date.now();
+    logger.info('Session replay position changed', {
+      position: target,
+      messageIndex: this.index,
+    });
+    this.emit('seeked', target);
+
+    if (wasPlaying) {
+      this.scheduleNext();
+    } else if (this.state !== 'idle') {
+      this.state = 'paused';
+    }
+  }
+
+  getStatus(): SessionReplayStatus {
+    return {
+      sessionId: this.recording.metadata.sessionId,
+      state: this.state,
+      speed: this.speed,
+      loop: this.loop,
+      position: Math.round(this.getPosition()),
+      duration: this.getDuration(),
+      messageIndex: this.index,
+      messageCount: this.messages.length,
+    };
+  }
+
+  private play(): void {
+    this.state = 'playing';
+    this.positionUpdatedAt = Date.now();
+    this.scheduleNext();
+  }
+
+  private restart(): void {
+    this.clearTimer();
+    this.index = 0;
+    this.position = 0;
+    this.emit('reset');
+    this.play();
+  }
+
+  private scheduleNext(): void {
+    this.clearTimer();
+
+    const next = this.messages[this.index];
+    if (!next) {
+      this.handleEnd();
+      return;
+    }
+
+    const delay = Math.min(
+      Math.max(0, (next.relativeTime - this.getPosition()) / this.speed),
+      MAX_TIMER_DELAY_MS
+    );
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.position = this.getPosition();
+      this.positionUpdatedAt = Date.now();
+
+      // Emit every message that is due by now
+      while (
+        this.index < this.messages.length &&
+        (this.messages[this.index] as SessionMessage).relativeTime <=
+          this.position
+      ) {
+        this.emitMessage(this.messages[this.index] as SessionMessage, false);
+        this.index++;
+      }
+
+      if (this.state === 'playing') {
+        this.scheduleNext();
+      }
+    }, delay);
+  }
+
+  private handleEnd(): void {
+    if (this.loop && this.messages.length > 0) {
+      logger.info('Session replay finished, starting over');
+      this.restart();
+      return;
+    }
+
+    this.state = 'finished';
+    this.position = this.getDuration();
+    logger.info('Session replay finished', {
+      sessionId: this.recording.metadata.sessionId,
+      messageCount: this.messages.length,
+    });
+    this.emit('finished');
+  }
+
+  private emitMessage(message: SessionMessage, fastForward: boolean): void {
+    try {
+      this.emit('message', message.rawMessage, { fastForward });
+    } catch (error) {
+      logger.error('Failed to replay message', {
+        error: (error as Error).message,
+        relativeTime: message.relativeTime,
+      });
+    }
+  }
+
+  private getPosition(): number {
+    if (this.state !== 'playing') {
+      return this.position;
+    }
+    return this.position + (Date.now() - this.positionUpdatedAt) * this.speed;
+  }
+
+  private getDuration(): number {
+    return this.messages[this.messages.length - 1]?.relativeTime ?? 0;
+  }
+
+  private validateSpeed(speed: number): number {
+    if (!Number.isFinite(speed) || speed <= 0) {
+      throw new Error(`Invalid replay speed: ${speed}`);
+    }
+    return speed;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
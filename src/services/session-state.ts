@@ -0,0 +1,153 @@
+import { logger } from '../utils/logger';
+
+// Keys with special meaning in F1 live timing payloads
+const DELETED_KEY = '_deleted';
+const KEYFRAME_KEY = '_kf';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cloneValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => cloneValue(item));
+  }
+  if (isPlainObject(value)) {
+    return mergeF1Delta({}, value);
+  }
+  return value;
+};
+
+/**
+ * Deep-merge an F1 live timing delta into an existing state value.
+ *
+ * F1 conventions handled here:
+ * - Arrays are sent in full in snapshots but updated with objects keyed by
+ *   index, e.g. `{"Sectors":{"1":{"Value":"28.123"}}}`
+ * - `_deleted` holds a list of keys (or indices) to remove from the target
+ * - `_kf` keyframe markers are dropped
+ *
+ * The target is never mutated; only the objects along the path of the delta
+ * are copied, untouched subtrees are shared with the previous state.
+ */
+export function mergeF1Delta(target: unknown, delta: unknown): unknown {
+  if (!isPlainObject(delta)) {
+    return cloneValue(delta);
+  }
+
+  const deletedKeys = Array.isArray(delta[DELETED_KEY])
+    ? (delta[DELETED_KEY] as unknown[]).map((key) => String(key))
+    : [];
+
+  if (Array.isArray(target)) {
+    // Indices refer to the array before the removals, so update first
+    const result: unknown[] = [...target];
+
+    for (const [key, value] of Object.entries(delta)) {
+      if (key === DELETED_KEY || key === KEYFRAME_KEY) continue;
+
+      const index = Number(key);
+      if (!Number.isInteger(index) || index < 0) {
+        logger.debug('Ignoring non-index key in array delta', { key });
+        continue;
+      }
+
+      result[index] = mergeF1Delta(result[index], value);
+    }
+
+    if (deletedKeys.length === 0) return result;
+    return result.filter(
+      (_item, index) => !deletedKeys.includes(String(index))
+    );
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target)
+    ? { ...target }
+    : {};
+
+  for (const key of deletedKeys) {
+    delete result[key];
+  }
+
+  for (const [key, value] of Object.entries(delta)) {
+    if (key === DELETED_KEY || key === KEYFRAME_KEY) continue;
+    result[key] = mergeF1Delta(result[key], value);
+  }
+
+  return result;
+}
+
+/**
+ * Session State Store
+ *
+ * Keeps the full state of every F1 stream. The initial snapshot comes from
+ * the SignalR subscribe response (`R`), later `feed` deltas are merged into
+ * it so consumers always have a complete view of each stream.
+ */
+export class SessionStateStore {
+  private streams = new Map<string, Record<string, unknown>>();
+
+  /**
+   * Replace the state of a stream with a full snapshot
+   */
+  applySnapshot(
+    streamName: string,
+    data: unknown
+  ): Record<string, unknown> | undefined {
+    if (!isPlainObject(data)) {
+      logger.debug('Skipping non-object snapshot for session state', {
+        streamName,
+        dataType: typeof data,
+      });
+      return undefined;
+    }
+
+    const state = mergeF1Delta({}, data) as Record<string, unknown>;
+    this.streams.set(streamName, state);
+    return state;
+  }
+
+  /**
+   * Merge a delta into the current state of a stream
+   */
+  applyDelta(
+    streamName: string,
+    delta: unknown
+  ): Record<string, unknown> | undefined {
+    if (!isPlainObject(delta)) {
+      logger.debug('Skipping non-object delta for session state', {
+        streamName,
+        dataType: typeof delta,
+      });
+      return undefined;
+    }
+
+    const state = mergeF1Delta(this.streams.get(streamName), delta) as Record<
+      string,
+      unknown
+    >;
+    this.streams.set(streamName, state);
+    return state;
+  }
+
+  /**
+   * Get the merged state of a single stream
+   */
+  getStream(streamName: string): Record<string, unknown> | undefined {
+    return this.streams.get(streamName);
+  }
+
+  /**
+   * Get the merged state of all streams keyed by stream name
+   */
+  getSnapshot(): Record<string, Record<string, unknown>> {
+    return Object.fromEntries(this.streams);
+  }
+
+  getStreamNames(): string[] {
+    return [...this.streams.keys()];
+  }
+
+  clear(): void {
+    this.streams.clear();
+  }
+}
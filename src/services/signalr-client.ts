@@ -2,92 +2,26 @@ import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import https from 'https';
 import http from 'http';
-import { SignalRConfig, F1Event } from '../types';
+import { SignalRConfig, F1Event, SessionRecordingMode } from '../types';
 import { logger } from '../utils/logger';
-import globalConfig from '../config';
+import { getConfig } from '../config';
 import { SignalRMessageLogger } from './signalr-message-logger';
 import { SessionRecorder, SessionRecording } from './session-recorder';
-
-/**
- * F1 Live Timing Stream Types
- *
- * Enumeration of all available F1 Live Timing data streams.
- * Each stream provides different types of real-time race data.
- */
-export enum F1Stream {
-  // Race Control and Status
-  RACE_CONTROL_MESSAGES = 'RaceControlMessages',
-  TRACK_STATUS = 'TrackStatus',
-  SESSION_INFO = 'SessionInfo',
-  SESSION_DATA = 'SessionData',
-
-  // Timing and Position Data
-  TIMING_DATA = 'TimingData',
-  CAR_DATA = 'CarData.z',
-  POSITION = 'Position.z',
-  EXTRAPOLATED_CLOCK = 'ExtrapolatedClock',
-  LAP_COUNT = 'LapCount',
-
-  // Statistics and Analysis
-  TOP_THREE = 'TopThree',
-  RCM_SERIES = 'RcmSeries',
-  TIMING_STATS = 'TimingStats',
-  TIMING_APP_DATA = 'TimingAppData',
-
-  // Additional Data
-  WEATHER_DATA = 'WeatherData',
-  DRIVER_LIST = 'DriverList',
-}
-
-/**
- * Predefined stream sets for different use cases
- *
- * BASIC: Minimal set for basic race monitoring
- * ESSENTIAL: Essential race data for timing and position
- * FULL: Complete data set with all available streams (default)
- * ALL: All available streams (same as FULL currently)
- */
-export const F1_STREAM_SETS = {
-  // Minimal set for basic race monitoring
-  BASIC: [
-    F1Stream.RACE_CONTROL_MESSAGES,
-    F1Stream.TRACK_STATUS,
-    F1Stream.SESSION_DATA,
-    F1Stream.SESSION_INFO,
-  ],
-
-  // Essential race data
-  ESSENTIAL: [
-    F1Stream.RACE_CONTROL_MESSAGES,
-    F1Stream.TRACK_STATUS,
-    // F1Stream.TIMING_DATA,
-    // F1Stream.POSITION,
-    F1Stream.SESSION_DATA,
-    F1Stream.SESSION_INFO,
-  ],
-
-  // Full data set
-  FULL: [
-    F1Stream.RACE_CONTROL_MESSAGES,
-    F1Stream.TIMING_DATA,
-    // F1Stream.CAR_DATA,
-    // F1Stream.POSITION,
-    F1Stream.EXTRAPOLATED_CLOCK,
-    F1Stream.TOP_THREE,
-    F1Stream.RCM_SERIES,
-    F1Stream.TIMING_STATS,
-    F1Stream.TIMING_APP_DATA,
-    F1Stream.WEATHER_DATA,
-    F1Stream.TRACK_STATUS,
-    F1Stream.DRIVER_LIST,
-    F1Stream.SESSION_INFO,
-    F1Stream.SESSION_DATA,
-    F1Stream.LAP_COUNT,
-  ],
-
-  // All available streams
-  ALL: Object.values(F1Stream),
-} as const;
+import { SessionStateStore } from './session-state';
+import { SessionReplay } from './session-replay';
+import {
+  CarDataSample,
+  PositionSample,
+  decodeCarData,
+  decodePosition,
+} from './telemetry-decoder';
+import {
+  F1Stream,
+  F1_STREAM_SETS,
+  getStreamEventType,
+} from '../config/streams';
+
+export { F1Stream, F1_STREAM_SETS };
 
 // SignalR Client Default Values
 const SIGNALR_DEFAULTS = {
@@ -120,12 +54,8 @@ const SIGNALR_DEFAULTS = {
   LARGE_PAYLOAD_THRESHOLD: 500,
 
   // F1 Live Timing API endpoints (configurable via environment variables)
-  NEGOTIATE_URL:
-    globalConfig.signalR.negotiateUrl ||
-    'https://livetiming.formula1.com/signalr/negotiate',
-  CONNECT_URL:
-    globalConfig.signalR.connectUrl ||
-    'wss://livetiming.formula1.com/signalr/connect',
+  NEGOTIATE_URL: 'https://livetiming.formula1.com/signalr/negotiate',
+  CONNECT_URL: 'wss://livetiming.formula1.com/signalr/connect',
   HUB_DATA: '[{"name":"Streaming"}]',
 
   // F1 Stream Configuration
@@ -165,39 +95,55 @@ export class SignalRClient extends EventEmitter {
   private readonly MAX_BUFFER_SIZE = SIGNALR_DEFAULTS.MAX_BUFFER_SIZE;
   private currentStreamSet: readonly string[] =
     SIGNALR_DEFAULTS.DEFAULT_STREAM_SET;
+  // Streams of the last subscribe message on the current connection
+  private subscribedStreams: readonly string[] = [];
   private messageLogger: SignalRMessageLogger;
   private sessionRecorder: SessionRecorder;
+  private sessionState = new SessionStateStore();
+  private replay: SessionReplay | null = null;
+  // Set while replay fast-forwards, state is updated but no events go out
+  private suppressEvents = false;
+
+  // Recording, message logging and replay settings
+  private appConfig = getConfig();
 
   // F1 Live Timing API endpoints
-  private readonly NEGOTIATE_URL = SIGNALR_DEFAULTS.NEGOTIATE_URL;
-  private readonly CONNECT_URL = SIGNALR_DEFAULTS.CONNECT_URL;
+  private readonly NEGOTIATE_URL: string;
+  private readonly CONNECT_URL: string;
   private readonly HUB_DATA = SIGNALR_DEFAULTS.HUB_DATA;
 
   constructor(config: SignalRConfig) {
     super();
     this.config = config;
+    this.NEGOTIATE_URL = config.negotiateUrl || SIGNALR_DEFAULTS.NEGOTIATE_URL;
+    this.CONNECT_URL = config.connectUrl || SIGNALR_DEFAULTS.CONNECT_URL;
+    if (config.streams) {
+      this.currentStreamSet = config.streams;
+    }
 
     // Initialize message logger with global configuration
     this.messageLogger = new SignalRMessageLogger({
-      enabled: globalConfig.signalRMessageLogging.enabled,
-      logFilePath: globalConfig.signalRMessageLogging.filePath,
-      maxFileSize: globalConfig.signalRMessageLogging.maxFileSize,
-      maxFiles: globalConfig.signalRMessageLogging.maxFiles,
+      enabled: this.appConfig.signalRMessageLogging.enabled,
+      logFilePath: this.appConfig.signalRMessageLogging.filePath,
+      maxFileSize: this.appConfig.signalRMessageLogging.maxFileSize,
+      maxFiles: this.appConfig.signalRMessageLogging.maxFiles,
     });
 
     // Initialize session recorder
     this.sessionRecorder = new SessionRecorder({
-      enabled: globalConfig.sessionRecording?.enabled ?? false,
-      mode: globalConfig.sessionRecording?.mode ?? 'structured',
+      enabled: this.appConfig.sessionRecording?.enabled ?? false,
+      mode: this.appConfig.sessionRecording?.mode ?? 'structured',
+      format: this.appConfig.sessionRecording?.format ?? 'ndjson',
+      gzip: this.appConfig.sessionRecording?.gzip ?? false,
       recordingPath:
-        globalConfig.sessionRecording?.recordingPath ?? './recordings',
+        this.appConfig.sessionRecording?.recordingPath ?? './recordings',
       maxRecordingSize:
-        globalConfig.sessionRecording?.maxRecordingSize ?? 100 * 1024 * 1024, // 100MB
-      autoStart: globalConfig.sessionRecording?.autoStart ?? false,
+        this.appConfig.sessionRecording?.maxRecordingSize ?? 100 * 1024 * 1024, // 100MB
+      autoStart: this.appConfig.sessionRecording?.autoStart ?? false,
       sessionDetectionTimeout:
-        globalConfig.sessionRecording?.sessionDetectionTimeout ?? 30000,
+        this.appConfig.sessionRecording?.sessionDetectionTimeout ?? 30000,
       filterKeepAliveMessages:
-        globalConfig.sessionRecording?.filterKeepAliveMessages ?? true,
+        this.appConfig.sessionRecording?.filterKeepAliveMessages ?? true,
     });
 
     // Prevent memory leaks from EventEmitter
@@ -208,6 +154,11 @@ export class SignalRClient extends EventEmitter {
   }
 
   async connect(): Promise<void> {
+    if (this.appConfig.replay.file) {
+      this.startReplay(this.appConfig.replay.file);
+      return;
+    }
+
     try {
       logger.info('Connecting to F1 SignalR service...');
 
@@ -251,6 +202,74 @@ export class SignalRClient extends EventEmitter {
     }
   }
 
+  /**
+   * Replay a session recording instead of connecting to the F1 service
+   * @param file - Recording filename in the recording path, or absolute path
+   */
+  private startReplay(file: string): void {
+    const recording = this.sessionRecorder.loadRecording(file);
+    if (!recording) {
+      throw new Error(`Failed to load replay recording: ${file}`);
+    }
+
+    this.replay = new SessionReplay(recording, {
+      speed: this.appConfig.replay.speed,
+      loop: this.appConfig.replay.loop,
+    });
+
+    this.replay.on(
+      'message',
+      (rawMessage: string, { fastForward }: { fastForward: boolean }) => {
+        this.suppressEvents = fastForward;
+        try {
+          this.handleMessage(rawMessage);
+        } finally {
+          this.suppressEvents = false;
+        }
+      }
+    );
+    this.replay.on('reset', () => {
+      this.resetSessionState();
+    });
+    // Fast-forwarded messages sent no events, listeners rebuild from state
+    this.replay.on('seeked', () => {
+      this.emit('stateRestored');
+    });
+
+    this.replay.start();
+    this.isConnectedState = true;
+
+    logger.info('Replaying session recording', {
+      file,
+      sessionId: recording.metadata.sessionId,
+    });
+
+    this.emit('connected');
+  }
+
+  /**
+   * Forget all stream state; listeners get a 'stateReset' event
+   */
+  private resetSessionState(): void {
+    this.sessionState.clear();
+    this.emit('stateReset');
+  }
+
+  private emitEvent(event: F1Event): void {
+    if (this.suppressEvents) return;
+    this.emit('event', event);
+  }
+
+  /**
+   * Report a received stream message with its size for the metrics
+   */
+  private countStreamMessage(streamName: string, streamData: unknown): void {
+    const bytes = Buffer.byteLength(
+      typeof streamData === 'string' ? streamData : JSON.stringify(streamData)
+    );
+    this.emit('stream-message', streamName, bytes);
+  }
+
   private startMemoryCleanup(): void {
     // Cleanup memory every 5 minutes
     this.memoryCleanupTimer = setInterval(() => {
@@ -451,6 +470,7 @@ export class SignalRClient extends EventEmitter {
     });
 
     this.ws.send(subscribeString);
+    this.subscribedStreams = this.currentStreamSet;
     logger.info('Subscribed to F1 data streams', {
       streamCount: subscribeMsg.A[0]?.length || 0,
     });
@@ -488,6 +508,7 @@ export class SignalRClient extends EventEmitter {
         payload = JSON.parse(data) as Record<string, unknown>;
       } catch (error) {
         parseError = (error as Error).message;
+        this.emit('parse-error', null);
         logger.warn('Failed to parse SignalR message', {
           error: parseError,
           dataPreview: data.substring(
@@ -496,16 +517,18 @@ export class SignalRClient extends EventEmitter {
           ),
         });
 
-        // Log unparseable message
-        this.messageLogger.logMessage({
-          timestamp,
-          direction: 'incoming',
-          messageType: 'PARSE_ERROR',
-          dataLength: data.length,
-          rawMessage: data,
-          parseError,
-          connectionState: this.getConnectionState() || undefined,
-        });
+        // Log unparseable message, replayed ones are in the recording already
+        if (!this.replay) {
+          this.messageLogger.logMessage({
+            timestamp,
+            direction: 'incoming',
+            messageType: 'PARSE_ERROR',
+            dataLength: data.length,
+            rawMessage: data,
+            parseError,
+            connectionState: this.getConnectionState() || undefined,
+          });
+        }
 
         return;
       }
@@ -524,25 +547,26 @@ export class SignalRClient extends EventEmitter {
         messageType = 'IDENTIFIER_MESSAGE';
       }
 
-      // Log message to file
-      this.messageLogger.logMessage({
-        timestamp,
-        direction: 'incoming',
-        messageType,
-        dataLength: data.length,
-        rawMessage: data,
-        parsedMessage: payload,
-        connectionState: this.getConnectionState() || undefined,
-      });
+      // Log and record live messages only, a replay would copy its recording
+      if (!this.replay) {
+        this.messageLogger.logMessage({
+          timestamp,
+          direction: 'incoming',
+          messageType,
+          dataLength: data.length,
+          rawMessage: data,
+          parsedMessage: payload,
+          connectionState: this.getConnectionState() || undefined,
+        });
 
-      // Record message for session recording
-      this.sessionRecorder.recordMessage(
-        data,
-        'incoming',
-        messageType,
-        payload,
-        this.extractStreamNameFromPayload(payload, messageType)
-      );
+        this.sessionRecorder.recordMessage(
+          data,
+          'incoming',
+          messageType,
+          payload,
+          this.extractStreamNameFromPayload(payload, messageType)
+        );
+      }
 
       // Log parsed payload structure (with size limits)
       logger.debug('📋 Parsed SignalR Payload', {
@@ -600,7 +624,8 @@ export class SignalRClient extends EventEmitter {
         // Auto-start session recording if enabled and SessionInfo is received
         const responseObj = payload.R as Record<string, unknown>;
         if (
-          globalConfig.sessionRecording.autoStart &&
+          this.appConfig.sessionRecording.autoStart &&
+          !this.replay &&
           responseObj.SessionInfo &&
           !this.sessionRecorder.isCurrentlyRecording()
         ) {
@@ -655,6 +680,8 @@ export class SignalRClient extends EventEmitter {
 
     const streamName = args[0] as string;
     const streamData = args[1] as Record<string, unknown>;
+    // Third argument is the F1 server time of the message
+    const utc = typeof args[2] === 'string' ? args[2] : undefined;
 
     logger.debug('🎯 Processing Feed Message', {
       streamName,
@@ -673,10 +700,28 @@ export class SignalRClient extends EventEmitter {
       return;
     }
 
+    this.countStreamMessage(streamName, streamData);
+
+    if (typeof streamData === 'string') {
+      const telemetryEvent = this.processCompressedStream(
+        streamName,
+        streamData
+      );
+      if (telemetryEvent) {
+        this.emitEvent(telemetryEvent);
+      }
+      return;
+    }
+
+    const state = this.sessionState.applyDelta(streamName, streamData);
+
     const event: F1Event = {
-      eventType: streamName.toLowerCase().replace(/[^a-z0-9]/g, '_'),
+      eventType: getStreamEventType(streamName),
       timestamp: new Date().toISOString(),
       data: streamData,
+      streamName,
+      ...(state && { state }),
+      ...(utc && { utc }),
     };
 
     logger.debug('🚀 Emitting F1 Event', {
@@ -686,7 +731,7 @@ export class SignalRClient extends EventEmitter {
       timestamp: event.timestamp,
     });
 
-    this.emit('event', event);
+    this.emitEvent(event);
   }
 
   private processResponseMessage(response: Record<string, unknown>): void {
@@ -706,10 +751,28 @@ export class SignalRClient extends EventEmitter {
         ),
       });
 
+      this.countStreamMessage(streamName, streamData);
+
+      if (typeof streamData === 'string') {
+        const telemetryEvent = this.processCompressedStream(
+          streamName,
+          streamData
+        );
+        if (telemetryEvent) {
+          this.emitEvent(telemetryEvent);
+        }
+        continue;
+      }
+
+      const state = this.sessionState.applySnapshot(streamName, streamData);
+
       const event: F1Event = {
-        eventType: streamName.toLowerCase().replace(/[^a-z0-9]/g, '_'),
+        eventType: getStreamEventType(streamName),
         timestamp: new Date().toISOString(),
         data: streamData as Record<string, unknown>,
+        streamName,
+        ...(state && { state }),
+        snapshot: true,
       };
 
       logger.debug('🚀 Emitting Response Event', {
@@ -717,10 +780,70 @@ export class SignalRClient extends EventEmitter {
         originalStreamName: streamName,
       });
 
-      this.emit('event', event);
+      this.emitEvent(event);
     }
   }
 
+  /**
+   * Decode a compressed stream (CarData.z, Position.z) into a telemetry event
+   * with one sample per driver and timestamp
+   */
+  private processCompressedStream(
+    streamName: string,
+    payload: string
+  ): F1Event | null {
+    let samples: CarDataSample[] | PositionSample[];
+    let eventType: string;
+
+    try {
+      if (streamName === F1Stream.CAR_DATA) {
+        samples = decodeCarData(payload);
+        eventType = 'car_data';
+      } else if (streamName === F1Stream.POSITION) {
+        samples = decodePosition(payload);
+        eventType = 'position';
+      } else {
+        logger.debug('🚫 Unsupported compressed stream', { streamName });
+        return null;
+      }
+    } catch (error) {
+      this.emit('parse-error', streamName);
+      logger.warn('Failed to decode compressed stream', {
+        streamName,
+        error: (error as Error).message,
+        payloadLength: payload.length,
+      });
+      return null;
+    }
+
+    if (samples.length === 0) {
+      return null;
+    }
+
+    // Keep the latest sample per driver as stream state
+    const latestByDriver: Record<string, CarDataSample | PositionSample> = {};
+    for (const sample of samples) {
+      latestByDriver[sample.driverNumber] = sample;
+    }
+    const state = this.sessionState.applyDelta(streamName, latestByDriver);
+
+    logger.debug('📡 Decoded compressed stream', {
+      streamName,
+      sampleCount: samples.length,
+      driverCount: Object.keys(latestByDriver).length,
+    });
+
+    const utc = samples[samples.length - 1]?.utc;
+    return {
+      eventType,
+      timestamp: utc ?? new Date().toISOString(),
+      data: { samples },
+      streamName,
+      ...(state && { state }),
+      ...(utc && { utc }),
+    };
+  }
+
   async disconnect(): Promise<void> {
     try {
       // Clear all timers to prevent memory leaks
@@ -745,6 +868,12 @@ export class SignalRClient extends EventEmitter {
         this.ws = null;
       }
 
+      if (this.replay) {
+        this.replay.stop();
+        this.replay.removeAllListeners();
+        this.replay = null;
+      }
+
       // Clear connection state
       this.isConnectedState = false;
       this.connectionToken = null;
@@ -771,10 +900,12 @@ export class SignalRClient extends EventEmitter {
   }
 
   isConnected(): boolean {
+    if (this.replay) return this.isConnectedState;
     return this.isConnectedState && this.ws?.readyState === WebSocket.OPEN;
   }
 
   getConnectionState(): string | null {
+    if (this.replay) return 'Replaying';
     if (!this.ws) return 'Disconnected';
 
     switch (this.ws.readyState) {
@@ -810,6 +941,74 @@ export class SignalRClient extends EventEmitter {
     });
   }
 
+  /**
+   * Change the session recording mode, see SessionRecorder.setMode
+   */
+  setRecordingMode(mode: SessionRecordingMode): void {
+    this.sessionRecorder.setMode(mode);
+  }
+
+  /**
+   * Apply a changed stream set to the open connection
+   *
+   * The hub has no unsubscribe, so removed streams would keep arriving. The
+   * connection is reconnected then, added streams are just subscribed.
+   */
+  async resubscribe(): Promise<void> {
+    if (this.replay) {
+      logger.info('Replay active, stream set applies to the next connection');
+      return;
+    }
+
+    const removedStreams = this.subscribedStreams.filter(
+      (stream) => !this.currentStreamSet.includes(stream)
+    );
+    if (removedStreams.length > 0) {
+      logger.info('Streams removed, reconnecting to unsubscribe', {
+        removedStreams,
+      });
+      await this.reconnect();
+      return;
+    }
+
+    await this.subscribe();
+  }
+
+  /**
+   * Drop the current connection and connect again from scratch
+   */
+  async reconnect(): Promise<void> {
+    if (this.replay) {
+      logger.info('Restarting session replay...');
+      this.replay.stop();
+      this.resetSessionState();
+      this.replay.start();
+      return;
+    }
+
+    logger.info('Reconnecting to F1 SignalR service...');
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.ws) {
+      // Detach handlers so the old socket does not report a disconnect
+      this.ws.removeAllListeners();
+      this.ws.on('error', () => undefined);
+      this.ws.close();
+      this.ws = null;
+    }
+
+    this.isConnectedState = false;
+    this.connectionToken = null;
+    this.cookie = null;
+    this.reconnectAttempts = 0;
+
+    await this.connect();
+  }
+
   /**
    * Get the currently configured stream set
    */
@@ -831,14 +1030,32 @@ export class SignalRClient extends EventEmitter {
     return F1Stream;
   }
 
+  /**
+   * Get the active session replay, if running in replay mode
+   */
+  getReplay(): SessionReplay | null {
+    return this.replay;
+  }
+
+  /**
+   * Get the merged state of all received streams
+   */
+  getSessionState(): SessionStateStore {
+    return this.sessionState;
+  }
+
   /**
    * Start session recording manually
+   * @throws Error while a recording is replayed
    */
   startSessionRecording(sessionInfo?: {
     sessionType?: string;
     sessionName?: string;
     location?: string;
   }): void {
+    if (this.replay) {
+      throw new Error('Cannot record while replaying a session');
+    }
     this.sessionRecorder.startRecording(sessionInfo);
   }
 
@@ -877,6 +1094,36 @@ export class SignalRClient extends EventEmitter {
     return this.sessionRecorder.loadRecording(filename);
   }
 
+  /**
+   * Get the metadata of a session recording without loading its messages
+   */
+  getSessionRecordingMetadata(
+    filename: string
+  ): Promise<SessionRecording['metadata'] | null> {
+    return this.sessionRecorder.getRecordingMetadata(filename);
+  }
+
+  /**
+   * Get the file path of a session recording, null if it does not exist
+   */
+  getSessionRecordingPath(filename: string): string | null {
+    return this.sessionRecorder.resolveRecordingPath(filename);
+  }
+
+  /**
+   * Get the filename of the active session recording
+   */
+  getCurrentRecordingFilename(): string | null {
+    return this.sessionRecorder.getCurrentRecordingFilename();
+  }
+
+  /**
+   * Delete a session recording (not the active one)
+   */
+  deleteSessionRecording(filename: string): boolean {
+    return this.sessionRecorder.deleteRecording(filename);
+  }
+
   private extractStreamNameFromPayload(
     payload: Record<string, unknown>,
     messageType: string
@@ -0,0 +1,231 @@
+import {
+  AnalyzerMessage,
+  EventAnalyzer,
+  F1Event,
+  SessionStatusData,
+} from '../types';
+import { formatDuration, parseUtcTime, toIndexedList } from '../utils/timing';
+import { logger } from '../utils/logger';
+
+export type TrackState =
+  | 'GREEN'
+  | 'YELLOW'
+  | 'SC'
+  | 'VSC'
+  | 'VSC_ENDING'
+  | 'RED'
+  | 'UNKNOWN';
+
+export type SessionPhase =
+  | 'pre-session'
+  | 'running'
+  | 'suspended'
+  | 'finished'
+  | 'finalised';
+
+export interface StatusState<T extends string> {
+  state: T;
+  // Status as sent by F1, e.g. "4" or "Started"
+  raw: string;
+  since: string;
+  sinceLap: number | null;
+}
+
+export interface StatusTransition<T extends string> {
+  from: T;
+  to: T;
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  duration: string;
+  durationLaps: number | null;
+  // e.g. "SC lasted 4 laps / 6m12s"
+  summary: string;
+}
+
+const TRACK_STATES: Record<string, TrackState> = {
+  '1': 'GREEN',
+  '2': 'YELLOW',
+  '4': 'SC',
+  '5': 'RED',
+  '6': 'VSC',
+  '7': 'VSC_ENDING',
+};
+
+const SESSION_PHASES: Record<string, SessionPhase> = {
+  Inactive: 'pre-session',
+  Started: 'running',
+  Aborted: 'suspended',
+  Finished: 'finished',
+  Ends: 'finished',
+  Finalised: 'finalised',
+};
+
+// F1 time of the message, the local receive time is off during replays and lag
+const getEventTime = (event: F1Event): string => {
+  const utc = event.utc ? parseUtcTime(event.utc) : NaN;
+  return Number.isNaN(utc) ? event.timestamp : new Date(utc).toISOString();
+};
+
+/**
+ * Status Tracker
+ *
+ * State machine for the track status (TrackStatus) and the session phase
+ * (SessionData.StatusSeries, SessionStatus). The current state is published
+ * retained, every change also as a one-shot transition with its duration.
+ * Snapshots set the state without a transition.
+ *
+ * Topics (below the topic prefix):
+ * - track/state (retained), track/transitions
+ * - session/state (retained), session/transitions
+ */
+export class StatusTracker implements EventAnalyzer {
+  readonly name = 'status-tracker';
+  private track: StatusState<TrackState> | null = null;
+  private session: StatusState<SessionPhase> | null = null;
+  private currentLap: number | null = null;
+
+  handleEvent(event: F1Event): AnalyzerMessage[] {
+    switch (event.streamName) {
+      case 'LapCount': {
+        const lap = Number(event.state?.CurrentLap ?? event.data.CurrentLap);
+        if (Number.isFinite(lap)) this.currentLap = lap;
+        return [];
+      }
+      case 'TrackStatus':
+        return this.updateTrack(event);
+      case 'SessionStatus':
+        return this.updateSession(
+          event,
+          (event.data as SessionStatusData).Status
+        );
+      case 'SessionData': {
+        // Only the latest entry counts, snapshots carry the whole series
+        const entries = toIndexedList(event.data.StatusSeries);
+        const status = entries
+          .map((entry) => entry.SessionStatus)
+          .filter((value) => typeof value === 'string')
+          .pop();
+        return status ? this.updateSession(event, status) : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  reset(): void {
+    this.track = null;
+    this.session = null;
+    this.currentLap = null;
+  }
+
+  getTrackState(): StatusState<TrackState> | null {
+    return this.track;
+  }
+
+  getSessionState(): StatusState<SessionPhase> | null {
+    return this.session;
+  }
+
+  private updateTrack(event: F1Event): AnalyzerMessage[] {
+    const raw = event.data.Status;
+    if (typeof raw !== 'string' || raw === '') return [];
+
+    const state = TRACK_STATES[raw] ?? 'UNKNOWN';
+    if (state === 'UNKNOWN') {
+      logger.warn('Unknown track status', { status: raw });
+    }
+
+    const previous = this.track;
+    if (previous?.state === state) return [];
+
+    this.track = this.createState(state, raw, getEventTime(event));
+    return this.buildMessages('track', previous, this.track, event);
+  }
+
+  private updateSession(event: F1Event, raw: unknown): AnalyzerMessage[] {
+    if (typeof raw !== 'string') return [];
+
+    const phase = SESSION_PHASES[raw];
+    if (!phase) {
+      logger.debug('Ignoring session status', { status: raw });
+      return [];
+    }
+
+    const previous = this.session;
+    if (previous?.state === phase) return [];
+
+    this.session = this.createState(phase, raw, getEventTime(event));
+    return this.buildMessages('session', previous, this.session, event);
+  }
+
+  private createState<T extends string>(
+    state: T,
+    raw: string,
+    timestamp: string
+  ): StatusState<T> {
+    return { state, raw, since: timestamp, sinceLap: this.currentLap };
+  }
+
+  private buildMessages<T extends string>(
+    kind: 'track' | 'session',
+    previous: StatusState<T> | null,
+    current: StatusState<T>,
+    event: F1Event
+  ): AnalyzerMessage[] {
+    const messages: AnalyzerMessage[] = [
+      {
+        topic: `${kind}/state`,
+        eventType: `${kind}_state`,
+        data: { ...current },
+        retain: true,
+      },
+    ];
+
+    if (previous && !event.snapshot) {
+      const transition = this.buildTransition(previous, current);
+      logger.info(`${kind === 'track' ? 'Track' : 'Session'} status changed`, {
+        from: transition.from,
+        to: transition.to,
+        duration: transition.duration,
+      });
+      messages.push({
+        topic: `${kind}/transitions`,
+        eventType: `${kind}_transition`,
+        data: { ...transition },
+        retain: false,
+      });
+    }
+
+    return messages;
+  }
+
+  private buildTransition<T extends string>(
+    previous: StatusState<T>,
+    current: StatusState<T>
+  ): StatusTransition<T> {
+    const durationMs = Math.max(
+      0,
+      Date.parse(current.since) - Date.parse(previous.since)
+    );
+    const durationLaps =
+      previous.sinceLap !== null && current.sinceLap !== null
+        ? current.sinceLap - previous.sinceLap
+        : null;
+    const duration = formatDuration(durationMs);
+
+    return {
+      from: previous.state,
+      to: current.state,
+      startedAt: previous.since,
+      endedAt: current.since,
+      durationMs,
+      duration,
+      durationLaps,
+      summary:
+        durationLaps !== null
+          ? `${previous.state} lasted ${durationLaps} ${durationLaps === 1 ? 'lap' : 'laps'} / ${duration}`
+          : `${previous.state} lasted ${duration}`,
+    };
+  }
+}
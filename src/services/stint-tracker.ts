@@ -0,0 +1,261 @@
+import {
+  AnalyzerMessage,
+  EventAnalyzer,
+  F1Event,
+  PitLaneTime,
+  TyreStint,
+} from '../types';
+import { buildDriverTopic } from './driver-topics';
+import { toIndexedList } from '../utils/timing';
+import { logger } from '../utils/logger';
+
+export interface Stint {
+  stint: number;
+  compound: string | null;
+  new: boolean | null;
+  // Tyre age when the set was fitted
+  startTyreAge: number | null;
+  tyreAge: number | null;
+  laps: number | null;
+}
+
+export interface DriverStints {
+  driverNumber: string;
+  current: Stint | null;
+  stints: Stint[];
+}
+
+export interface PitStop {
+  driverNumber: string;
+  stopNumber: number;
+  lap: number | null;
+  // Time from pit entry to pit exit in seconds
+  pitLaneTime: number | null;
+  fromCompound: string | null;
+  toCompound: string | null;
+  tyreChange: boolean;
+  timestamp: string;
+}
+
+interface DriverStintState {
+  stints: Stint[];
+  lastPublished: string | null;
+  // Stint count at the last recorded stop, to detect tyre changes
+  stintsAtLastStop: number | null;
+  stops: PitStop[];
+  stopKeys: Set<string>;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+
+const toNumberOrNull = (value: unknown): number | null => {
+  const parsed = Number(value);
+  return value !== undefined &&
+    value !== null &&
+    value !== '' &&
+    Number.isFinite(parsed)
+    ? parsed
+    : null;
+};
+
+// TimingAppData sends New as "true"/"false"
+const toBooleanOrNull = (value: unknown): boolean | null => {
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  return null;
+};
+
+/**
+ * Stint Tracker
+ *
+ * Follows tyre stints per driver from TimingAppData.Stints and records pit
+ * stops from PitLaneTimeCollection, with the compound change taken from the
+ * stints. Snapshot pit times are kept but not published as new stops.
+ *
+ * Topics (below the topic prefix):
+ * - drivers/<n>/stints: current stint and stint history (retained)
+ * - pitstops: one message per pit stop
+ */
+export class StintTracker implements EventAnalyzer {
+  readonly name = 'stint-tracker';
+  private drivers = new Map<string, DriverStintState>();
+
+  handleEvent(event: F1Event): AnalyzerMessage[] {
+    switch (event.streamName) {
+      case 'TimingAppData':
+        return this.updateStints(event);
+      case 'PitLaneTimeCollection':
+        return this.updatePitTimes(event);
+      default:
+        return [];
+    }
+  }
+
+  reset(): void {
+    this.drivers.clear();
+  }
+
+  getStints(driverNumber: string): DriverStints | null {
+    const driver = this.drivers.get(driverNumber);
+    return driver ? this.buildDriverStints(driverNumber, driver) : null;
+  }
+
+  getPitStops(driverNumber?: string): PitStop[] {
+    if (driverNumber) {
+      return [...(this.drivers.get(driverNumber)?.stops ?? [])];
+    }
+    return [...this.drivers.values()]
+      .flatMap((driver) => driver.stops)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  private updateStints(event: F1Event): AnalyzerMessage[] {
+    const deltaLines = asRecord(event.data.Lines);
+    const stateLines = asRecord(event.state?.Lines) ?? deltaLines;
+    if (!deltaLines || !stateLines) return [];
+
+    const messages: AnalyzerMessage[] = [];
+
+    for (const driverNumber of Object.keys(deltaLines)) {
+      const line = asRecord(stateLines[driverNumber]);
+      if (!line || line.Stints === undefined) continue;
+
+      const driver = this.getDriver(driverNumber);
+      const tyreStints = toIndexedList<TyreStint>(line.Stints);
+      driver.stints = tyreStints.map((stint, index) => {
+        const startTyreAge = toNumberOrNull(stint.StartLaps);
+        const tyreAge = toNumberOrNull(stint.TotalLaps);
+        return {
+          stint: index + 1,
+          compound: typeof stint.Compound === 'string' ? stint.Compound : null,
+          new: toBooleanOrNull(stint.New),
+          startTyreAge,
+          tyreAge,
+          laps: tyreAge !== null ? tyreAge - (startTyreAge ?? 0) : null,
+        };
+      });
+      // Stints before the first sighting (snapshot) are not stops we saw
+      driver.stintsAtLastStop ??= driver.stints.length;
+
+      const stints = this.buildDriverStints(driverNumber, driver);
+      const published = JSON.stringify(stints);
+      if (published === driver.lastPublished) continue;
+
+      driver.lastPublished = published;
+      messages.push({
+        topic: buildDriverTopic(driverNumber, 'stints'),
+        eventType: 'stints',
+        data: { ...stints },
+        retain: true,
+      });
+    }
+
+    return messages;
+  }
+
+  private updatePitTimes(event: F1Event): AnalyzerMessage[] {
+    const pitTimes = asRecord(event.data.PitTimes);
+    if (!pitTimes) return [];
+
+    const messages: AnalyzerMessage[] = [];
+
+    for (const [driverNumber, value] of Object.entries(pitTimes)) {
+      const entry = asRecord(value) as PitLaneTime | undefined;
+      // Deltas also carry "_deleted" lists for cleared entries
+      if (!entry || driverNumber.startsWith('_')) continue;
+
+      const lap = toNumberOrNull(entry.Lap);
+      const pitLaneTime = toNumberOrNull(entry.Duration);
+      const driver = this.getDriver(driverNumber);
+      const key = `${lap}|${String(entry.Duration)}`;
+      if (pitLaneTime === null || driver.stopKeys.has(key)) continue;
+      driver.stopKeys.add(key);
+
+      const stop = this.recordStop(
+        driverNumber,
+        driver,
+        lap,
+        pitLaneTime,
+        event.timestamp
+      );
+      if (event.snapshot) continue;
+
+      logger.info('Pit stop recorded', {
+        driverNumber,
+        lap,
+        pitLaneTime,
+        toCompound: stop.toCompound,
+      });
+      messages.push({
+        topic: 'pitstops',
+        eventType: 'pitstop',
+        data: { ...stop },
+        retain: false,
+      });
+    }
+
+    return messages;
+  }
+
+  private recordStop(
+    driverNumber: string,
+    driver: DriverStintState,
+    lap: number | null,
+    pitLaneTime: number,
+    timestamp: string
+  ): PitStop {
+    const current = driver.stints[driver.stints.length - 1];
+    const tyreChange =
+      driver.stintsAtLastStop !== null &&
+      driver.stints.length > driver.stintsAtLastStop;
+    const previous = tyreChange
+      ? driver.stints[driver.stints.length - 2]
+      : current;
+
+    const stop: PitStop = {
+      driverNumber,
+      stopNumber: driver.stops.length + 1,
+      lap,
+      pitLaneTime,
+      fromCompound: previous?.compound ?? null,
+      toCompound: current?.compound ?? null,
+      tyreChange,
+      timestamp,
+    };
+
+    driver.stops.push(stop);
+    if (driver.stints.length > 0) {
+      driver.stintsAtLastStop = driver.stints.length;
+    }
+    return stop;
+  }
+
+  private buildDriverStints(
+    driverNumber: string,
+    driver: DriverStintState
+  ): DriverStints {
+    return {
+      driverNumber,
+      current: driver.stints[driver.stints.length - 1] ?? null,
+      stints: [...driver.stints],
+    };
+  }
+
+  private getDriver(driverNumber: string): DriverStintState {
+    let driver = this.drivers.get(driverNumber);
+    if (!driver) {
+      driver = {
+        stints: [],
+        lastPublished: null,
+        stintsAtLastStop: null,
+        stops: [],
+        stopKeys: new Set(),
+      };
+      this.drivers.set(driverNumber, driver);
+    }
+    return driver;
+  }
+}
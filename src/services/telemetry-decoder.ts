@@ -0,0 +1,119 @@
+import zlib from 'zlib';
+
+/**
+ * Channel numbers used in the decoded CarData.z payload
+ */
+const CAR_DATA_CHANNELS = {
+  RPM: '0',
+  SPEED: '2',
+  GEAR: '3',
+  THROTTLE: '4',
+  BRAKE: '5',
+  DRS: '45',
+} as const;
+
+// DRS channel values that indicate an open flap
+const DRS_OPEN_VALUES = [10, 12, 14];
+
+export interface CarDataSample {
+  utc: string;
+  driverNumber: string;
+  speed: number; // km/h
+  rpm: number;
+  gear: number;
+  throttle: number; // percent
+  brake: number; // 0 or 100
+  drs: number; // raw DRS channel value
+  drsOpen: boolean;
+}
+
+export interface PositionSample {
+  utc: string;
+  driverNumber: string;
+  x: number;
+  y: number;
+  z: number;
+  status: string; // 'OnTrack' | 'OffTrack'
+}
+
+interface RawCarData {
+  Entries?: {
+    Utc?: string;
+    Cars?: Record<string, { Channels?: Record<string, number> }>;
+  }[];
+}
+
+interface RawPosition {
+  Position?: {
+    Timestamp?: string;
+    Entries?: Record<
+      string,
+      { Status?: string; X?: number; Y?: number; Z?: number }
+    >;
+  }[];
+}
+
+/**
+ * Inflate a base64-encoded raw-deflate payload (the `.z` streams) into JSON
+ */
+export function inflateStreamPayload(payload: string): unknown {
+  const buffer = Buffer.from(payload, 'base64');
+  const json = zlib.inflateRawSync(buffer).toString('utf8');
+  return JSON.parse(json);
+}
+
+/**
+ * Decode a CarData.z payload into per-driver telemetry samples
+ */
+export function decodeCarData(payload: string): CarDataSample[] {
+  const data = inflateStreamPayload(payload) as RawCarData;
+  const samples: CarDataSample[] = [];
+
+  for (const entry of data.Entries ?? []) {
+    if (!entry.Utc || !entry.Cars) continue;
+
+    for (const [driverNumber, car] of Object.entries(entry.Cars)) {
+      const channels = car.Channels ?? {};
+      const drs = channels[CAR_DATA_CHANNELS.DRS] ?? 0;
+
+      samples.push({
+        utc: entry.Utc,
+        driverNumber,
+        speed: channels[CAR_DATA_CHANNELS.SPEED] ?? 0,
+        rpm: channels[CAR_DATA_CHANNELS.RPM] ?? 0,
+        gear: channels[CAR_DATA_CHANNELS.GEAR] ?? 0,
+        throttle: channels[CAR_DATA_CHANNELS.THROTTLE] ?? 0,
+        brake: channels[CAR_DATA_CHANNELS.BRAKE] ?? 0,
+        drs,
+        drsOpen: DRS_OPEN_VALUES.includes(drs),
+      });
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Decode a Position.z payload into per-driver position samples
+ */
+export function decodePosition(payload: string): PositionSample[] {
+  const data = inflateStreamPayload(payload) as RawPosition;
+  const samples: PositionSample[] = [];
+
+  for (const entry of data.Position ?? []) {
+    if (!entry.Timestamp || !entry.Entries) continue;
+
+    for (const [driverNumber, position] of Object.entries(entry.Entries)) {
+      samples.push({
+        utc: entry.Timestamp,
+        driverNumber,
+        x: position.X ?? 0,
+        y: position.Y ?? 0,
+        z: position.Z ?? 0,
+        status: position.Status ?? 'Unknown',
+      });
+    }
+  }
+
+  return samples;
+}
@@ -0,0 +1,134 @@
+/**
+ * Payloads of the F1 live timing streams
+ *
+ * Snapshots carry the full document, deltas only the changed fields, so all
+ * fields are optional. Lists arrive as arrays in snapshots and as objects
+ * keyed by index in deltas (see toIndexedList).
+ */
+
+type IndexedList<T> = T[] | Record<string, T>;
+
+export interface SessionStatusData {
+  Status?:
+    | 'Inactive'
+    | 'Started'
+    | 'Aborted'
+    | 'Finished'
+    | 'Finalised'
+    | 'Ends';
+}
+
+export interface HeartbeatData {
+  Utc?: string;
+}
+
+export interface TimingDataF1Data {
+  Lines?: Record<string, Record<string, unknown>>;
+  Withheld?: boolean;
+}
+
+export interface DriverRaceInfoEntry {
+  RacingNumber?: string;
+  Position?: string;
+  Gap?: string;
+  Interval?: string;
+  PitStops?: number;
+  Catching?: number;
+  OvertakeState?: number;
+  IsOut?: boolean;
+}
+
+// Keyed by racing number
+export type DriverRaceInfoData = Record<string, DriverRaceInfoEntry>;
+
+export interface PitLaneTime {
+  RacingNumber?: string;
+  // Seconds from pit entry to pit exit, e.g. "22.456"
+  Duration?: string;
+  Lap?: string;
+}
+
+export interface PitLaneTimeCollectionData {
+  PitTimes?: Record<string, PitLaneTime>;
+}
+
+export interface TyreStint {
+  Compound?: string;
+  New?: string;
+  TyresNotChanged?: string;
+  TotalLaps?: number;
+  StartLaps?: number;
+}
+
+export interface TyreStintSeriesData {
+  // Keyed by racing number
+  Stints?: Record<string, IndexedList<TyreStint>>;
+}
+
+export interface LapSeriesEntry {
+  RacingNumber?: string;
+  // Position at the end of each lap
+  LapPosition?: IndexedList<string>;
+}
+
+export type LapSeriesData = Record<string, LapSeriesEntry>;
+
+export interface ChampionshipPredictionEntry {
+  CurrentPosition?: number;
+  PredictedPosition?: number;
+  CurrentPoints?: number;
+  PredictedPoints?: number;
+}
+
+export interface ChampionshipPredictionData {
+  Drivers?: Record<
+    string,
+    ChampionshipPredictionEntry & { RacingNumber?: string }
+  >;
+  Teams?: Record<string, ChampionshipPredictionEntry & { TeamName?: string }>;
+}
+
+export interface TeamRadioCapture {
+  Utc?: string;
+  RacingNumber?: string;
+  // Relative to the session path, e.g. "TeamRadio/MAXVER01_1_20240707_140102.mp3"
+  Path?: string;
+}
+
+export interface TeamRadioData {
+  Captures?: IndexedList<TeamRadioCapture>;
+}
+
+export interface MediaStream {
+  Type?: string;
+  Name?: string;
+  Language?: string;
+  Uri?: string;
+  Path?: string;
+  Utc?: string;
+}
+
+export interface AudioStreamsData {
+  Streams?: IndexedList<MediaStream>;
+}
+
+export interface ContentStreamsData {
+  Streams?: IndexedList<MediaStream>;
+}
+
+/**
+ * Payload type per stream name, e.g. F1StreamPayloads['TeamRadio']
+ */
+export interface F1StreamPayloads {
+  SessionStatus: SessionStatusData;
+  Heartbeat: HeartbeatData;
+  TimingDataF1: TimingDataF1Data;
+  DriverRaceInfo: DriverRaceInfoData;
+  PitLaneTimeCollection: PitLaneTimeCollectionData;
+  TyreStintSeries: TyreStintSeriesData;
+  LapSeries: LapSeriesData;
+  ChampionshipPrediction: ChampionshipPredictionData;
+  TeamRadio: TeamRadioData;
+  AudioStreams: AudioStreamsData;
+  ContentStreams: ContentStreamsData;
+}
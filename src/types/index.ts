@@ -1,8 +1,16 @@
-// Import F1 stream types from SignalR client
-export { F1Stream, F1_STREAM_SETS } from '../services/signalr-client';
+// F1 stream names, stream sets and payload types
+export { F1Stream, F1_STREAM_SETS } from '../config/streams';
+export * from './f1-streams';
 
 // Session Recording Mode types
 export type SessionRecordingMode = 'disabled' | 'raw' | 'structured' | 'hybrid';
+export type SessionRecordingFormat = 'json' | 'ndjson';
+
+// Session state publish mode (incoming delta or merged stream state)
+export type StreamPublishMode = 'delta' | 'state';
+
+// Offline MQTT queue drop policy
+export type OfflineQueueDropPolicy = 'drop-oldest' | 'latest-per-topic';
 
 // Configuration interface definitions
 export interface SignalRConfig {
@@ -14,6 +22,21 @@ export interface SignalRConfig {
   // F1 Live Timing API endpoints
   negotiateUrl?: string;
   connectUrl?: string;
+  // Streams to subscribe, resolved from SIGNALR_STREAM_SET and friends
+  streams?: readonly string[];
+}
+
+// TLS settings for mqtts:// and wss:// brokers
+export interface MqttTlsConfig {
+  // PEM contents, the configuration reads them from the *_FILE paths
+  ca?: string;
+  cert?: string;
+  key?: string;
+  passphrase?: string;
+  // Reject brokers whose certificate is not signed by a trusted CA
+  rejectUnauthorized?: boolean;
+  // SNI server name, when it differs from the broker host
+  servername?: string;
 }
 
 export interface MqttConfig {
@@ -34,13 +57,56 @@ export interface MqttConfig {
   birthMessage?: string;
   willTopic?: string;
   willMessage?: string;
+  tls?: MqttTlsConfig;
+  // Extra HTTP headers for the ws:// and wss:// upgrade request
+  wsHeaders?: Record<string, string>;
   // Topic patterns for retain behavior (MQTT standard wildcards: +, #)
   retainedTopics?: string[];
+  // Topic below the prefix per stream name, overrides the event type topic
+  streamTopics?: Record<string, string>;
+  // Split driver-keyed streams into drivers/<number>/<subtopic> topics
+  driverTopics?: boolean;
+  // Subscribe to <topicPrefix>/cmd/# to control the bridge at runtime
+  commandsEnabled?: boolean;
+  // Buffer publishes while the broker is unreachable
+  offlineQueue?: {
+    enabled: boolean;
+    maxSize: number;
+    dropPolicy: OfflineQueueDropPolicy;
+    persistPath?: string;
+  };
+  // Additional brokers receiving the same data, e.g. a cloud broker
+  brokers?: MqttBrokerConfig[];
+}
+
+// Additional broker target, inherits topic and session settings of the
+// primary broker but never its credentials
+export interface MqttBrokerConfig extends Omit<MqttConfig, 'brokers'> {
+  name: string;
+  // F1 streams published to this broker, all streams when unset
+  streamsInclude?: string[];
+  streamsExclude?: string[];
+}
+
+// MQTT broker running inside the bridge, for setups without a broker
+export interface EmbeddedBrokerConfig {
+  enabled: boolean;
+  host: string;
+  // TCP listener for mqtt:// clients
+  port: number;
+  // WebSocket listener for browsers, 0 disables it
+  wsPort: number;
+  // Clients must log in when set, anonymous access otherwise
+  username?: string;
+  password?: string;
+  // Keep retained messages across restarts
+  persistPath?: string;
 }
 
 export interface AppConfig {
   signalR: SignalRConfig;
   mqtt: MqttConfig;
+  embeddedBroker: EmbeddedBrokerConfig;
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
     enableConsole: boolean;
@@ -56,12 +122,32 @@ export interface AppConfig {
   sessionRecording: {
     enabled: boolean;
     mode: SessionRecordingMode;
+    format: SessionRecordingFormat;
+    gzip: boolean;
     recordingPath: string;
     maxRecordingSize: number;
     autoStart: boolean;
     sessionDetectionTimeout: number;
     filterKeepAliveMessages: boolean;
   };
+  sessionState: {
+    publishMode: StreamPublishMode;
+    streamPublishModes: Record<string, StreamPublishMode>;
+  };
+  analytics: {
+    lapHistory: boolean;
+    raceControl: boolean;
+    statusTracker: boolean;
+    leaderboard: boolean;
+    // Positions published as plain values below leaderboard/p<n>/
+    leaderboardTopN: number;
+    stintTracker: boolean;
+  };
+  replay: {
+    file?: string;
+    speed: number;
+    loop: boolean;
+  };
   server: {
     port: number;
     healthCheckEndpoint: string;
@@ -72,6 +158,45 @@ export interface AppConfig {
   };
 }
 
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly (infer U)[]
+    ? U[]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
+// Optional YAML/JSON config file (CONFIG_FILE), environment variables win
+export type ConfigFile = DeepPartial<
+  Omit<AppConfig, 'signalR' | 'mqtt' | 'embeddedBroker'>
+> & {
+  embeddedBroker?: Partial<EmbeddedBrokerConfig> & { passwordFile?: string };
+  signalR?: DeepPartial<Omit<SignalRConfig, 'streams'>> & {
+    streamSet?: string | string[];
+    streamsInclude?: string[];
+    streamsExclude?: string[];
+  };
+  mqtt?: ConfigFileBroker & {
+    brokers?: (ConfigFileBroker & {
+      name: string;
+      brokerUrl: string;
+      streamsInclude?: string[];
+      streamsExclude?: string[];
+    })[];
+  };
+};
+
+type ConfigFileBroker = DeepPartial<Omit<MqttConfig, 'brokers'>> & {
+  passwordFile?: string;
+  // Paths of the PEM files, read at startup
+  tls?: {
+    caFile?: string;
+    certFile?: string;
+    keyFile?: string;
+    passphraseFile?: string;
+  };
+};
+
 // Event data structures
 export interface F1Event {
   eventType: string;
@@ -79,6 +204,33 @@ export interface F1Event {
   sessionKey?: string;
   driverNumber?: number;
   data: Record<string, unknown>;
+  // Original F1 stream name (e.g. 'TimingData')
+  streamName?: string;
+  // Full stream state after merging this event's data
+  state?: Record<string, unknown>;
+  // Set for the initial stream snapshot sent after subscribing
+  snapshot?: boolean;
+  // F1 server time of the message, e.g. '2024-07-07T14:03:12.345Z'
+  utc?: string;
+}
+
+// Message produced by an event analyzer, topic is below the topic prefix
+export interface AnalyzerMessage {
+  topic: string;
+  eventType: string;
+  data: Record<string, unknown>;
+  // Overrides the retained topic patterns when set
+  retain?: boolean;
+  // Publish data.value as a plain payload instead of the JSON envelope
+  raw?: boolean;
+}
+
+// Derives additional topics (lap history, leaderboard, ...) from F1 events
+export interface EventAnalyzer {
+  readonly name: string;
+  handleEvent(event: F1Event): AnalyzerMessage[];
+  // Forget everything, e.g. when a new session starts
+  reset(): void;
 }
 
 export interface MqttMessage {
@@ -86,4 +238,23 @@ export interface MqttMessage {
   payload: string | Buffer;
   qos?: 0 | 1 | 2;
   retain?: boolean;
+  // MQTT 5 correlation data for request/response messages
+  correlationData?: Buffer;
+}
+
+// Command received on <topicPrefix>/cmd/<name>
+export interface MqttCommand {
+  name: string;
+  payload: string;
+  // MQTT 5 request/response properties of the command message
+  responseTopic?: string;
+  correlationData?: Buffer;
+}
+
+export interface MqttCommandResult {
+  command: string;
+  success: boolean;
+  message: string;
+  data?: Record<string, unknown>;
+  timestamp: string;
 }
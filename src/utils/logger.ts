@@ -26,6 +26,13 @@ export class Logger extends EventEmitter {
     this.filePath = filePath;
   }
 
+  /**
+   * Change the log level at runtime, e.g. on a config reload
+   */
+  setLevel(level: 'debug' | 'info' | 'warn' | 'error'): void {
+    this.level = this.parseLevel(level);
+  }
+
   private parseLevel(level: string): LogLevel {
     switch (level.toLowerCase()) {
       case 'debug': return LogLevel.DEBUG;
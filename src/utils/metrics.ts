@@ -0,0 +1,158 @@
+/**
+ * Minimal Prometheus metric types rendered in the text exposition format
+ */
+
+type Labels = Record<string, string>;
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(',')}}`;
+};
+
+const formatValue = (value: number): string =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : '-Inf';
+
+// Series are keyed by their rendered labels, label order is kept as given
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  protected abstract renderSeries(): string[];
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSeries(),
+    ].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels)) ?? 0;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.values].map(
+      ([labels, value]) => `${this.name}${labels} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * Gauge set directly, or read from a collect callback on every scrape
+ */
+export class Gauge extends Metric {
+  private values = new Map<string, number>();
+  private collect: (() => [Labels, number][]) | undefined;
+
+  constructor(name: string, help: string, collect?: () => [Labels, number][]) {
+    super(name, help, 'gauge');
+    this.collect = collect;
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(formatLabels(labels), value);
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(formatLabels(labels));
+  }
+
+  protected renderSeries(): string[] {
+    const series = this.collect
+      ? this.collect().map(
+          ([labels, value]) => [formatLabels(labels), value] as const
+        )
+      : [...this.values];
+    return series.map(
+      ([labels, value]) => `${this.name}${labels} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  private readonly buckets: number[];
+  private series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.series.set(key, entry);
+
+    // Buckets are cumulative, every bucket at or above the value counts it
+    entry.counts = entry.counts.map((bucketCount, index) =>
+      value <= (this.buckets[index] ?? Infinity) ? bucketCount + 1 : bucketCount
+    );
+    entry.sum += value;
+    entry.count++;
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(formatLabels(labels))?.count ?? 0;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].flatMap(
+      ({ labels, counts, sum, count }) => [
+        ...this.buckets.map(
+          (bound, index) =>
+            `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index] ?? 0}`
+        ),
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      ]
+    );
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.map((metric) => metric.render()).join('\n\n');
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Helpers for MQTT topics and topic filters
+ */
+import { logger } from './logger';
+
+/**
+ * Check a topic filter: # only as the last level, + and # alone in a level
+ */
+export function isValidTopicFilter(pattern: string): boolean {
+  const levels = pattern.split('/');
+  return levels.every(
+    (level, index) =>
+      (!level.includes('#') ||
+        (level === '#' && index === levels.length - 1)) &&
+      (!level.includes('+') || level === '+')
+  );
+}
+
+/**
+ * Check if a topic matches an MQTT pattern with standard wildcards
+ * Supports MQTT standard wildcards:
+ * - + matches any single topic level
+ * - # matches any number of topic levels (must be last character)
+ */
+export function matchesMqttPattern(topic: string, pattern: string): boolean {
+  // Handle exact match first
+  if (pattern === topic) return true;
+
+  // Validate # wildcard usage (must be last and alone in level)
+  if (pattern.includes('#')) {
+    if (
+      !pattern.endsWith('#') ||
+      (pattern !== '#' && !pattern.endsWith('/#'))
+    ) {
+      logger.warn('Invalid MQTT pattern: # must be last character', {
+        pattern,
+      });
+      return false;
+    }
+  }
+
+  // Split into topic levels
+  const topicLevels = topic.split('/');
+  const patternLevels = pattern.split('/');
+
+  // Handle # wildcard (matches all remaining levels)
+  if (pattern.endsWith('#')) {
+    const patternWithoutHash =
+      pattern === '#' ? [] : patternLevels.slice(0, -1);
+
+    // Must have at least as many levels as pattern before #
+    if (topicLevels.length < patternWithoutHash.length) {
+      return false;
+    }
+
+    // Check levels before # wildcard
+    for (let i = 0; i < patternWithoutHash.length; i++) {
+      if (
+        patternWithoutHash[i] !== '+' &&
+        patternWithoutHash[i] !== topicLevels[i]
+      ) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // Without #, must have exact same number of levels
+  if (topicLevels.length !== patternLevels.length) {
+    return false;
+  }
+
+  // Check each level
+  for (let i = 0; i < patternLevels.length; i++) {
+    if (patternLevels[i] !== '+' && patternLevels[i] !== topicLevels[i]) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,81 @@
+/**
+ * Helpers for values found in F1 live timing payloads
+ */
+
+/**
+ * Parse an F1 lap or sector time ("1:32.456", "28.123") into seconds
+ */
+export function parseLapTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const parts = value.trim().split(':');
+  let seconds = 0;
+  for (const part of parts) {
+    const parsed = Number(part);
+    if (Number.isNaN(parsed)) {
+      return undefined;
+    }
+    seconds = seconds * 60 + parsed;
+  }
+
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Format seconds as an F1 lap time ("1:32.456")
+ */
+export function formatLapTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = (seconds - minutes * 60).toFixed(3).padStart(6, '0');
+  return minutes > 0 ? `${minutes}:${remainder}` : remainder;
+}
+
+/**
+ * Parse an F1 UTC time into epoch milliseconds, NaN when invalid
+ *
+ * Race control times come without a zone ("2024-07-07T14:03:12"), they are
+ * UTC like the feed timestamps.
+ */
+export function parseUtcTime(value: string): number {
+  return Date.parse(/(Z|[+-]\d\d:?\d\d)$/.test(value) ? value : `${value}Z`);
+}
+
+/**
+ * Turn an F1 list into an array
+ *
+ * Lists arrive as arrays in snapshots but as objects keyed by index when
+ * built from deltas only, so both shapes are accepted here.
+ */
+export function toIndexedList<T = Record<string, unknown>>(
+  value: unknown
+): T[] {
+  if (Array.isArray(value)) {
+    return value.filter((item) => item !== undefined && item !== null) as T[];
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => /^\d+$/.test(key))
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([, item]) => item as T);
+  }
+
+  return [];
+}
+
+/**
+ * Format a duration in milliseconds as "45s", "6m12s" or "1h02m03s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number): string => String(value).padStart(2, '0');
+
+  if (hours > 0) return `${hours}h${pad(minutes)}m${pad(seconds)}s`;
+  if (minutes > 0) return `${minutes}m${pad(seconds)}s`;
+  return `${seconds}s`;
+}